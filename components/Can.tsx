@@ -0,0 +1,21 @@
+import type { ReactNode } from 'react';
+import { usePermission } from '../hooks/usePermission';
+import type { PermissionKey } from '../types/user';
+
+interface CanProps {
+  permission: PermissionKey | PermissionKey[];
+  // Pass a function to render disabled controls instead of hiding them
+  children: ReactNode | ((allowed: boolean) => ReactNode);
+  fallback?: ReactNode;
+}
+
+/**
+ * Renders its children only for users holding `permission`
+ */
+const Can = ({ permission, children, fallback = null }: CanProps) => {
+  const allowed = usePermission(permission);
+  if (typeof children === 'function') return <>{children(allowed)}</>;
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,33 @@
+import { useCart } from '../context/CartContext';
+import { describeCartChange } from '../utils/cart';
+
+/**
+ * Lists what changed in the cart since the shopper last saw it; checkout waits until it is acknowledged
+ */
+const CartChangesPanel = ({ className = '' }: { className?: string }) => {
+  const { changes, acknowledgeChanges } = useCart();
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className={`verify-banner cart-changes ${className}`.trim()} role="alert" aria-labelledby="cart-changes-title">
+      <div>
+        <strong id="cart-changes-title">Your cart has been updated</strong>
+        <ul className="cart-changes-list">
+          {changes.map((change) => (
+            <li key={`${change.kind}-${change.product.id}`}>
+              <strong>{change.product.name}</strong>: {describeCartChange(change)}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <button className="button button-primary button-sm" type="button" onClick={acknowledgeChanges}>
+        Got it
+      </button>
+    </section>
+  );
+};
+
+export default CartChangesPanel;
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Pinned to the top of every page while an admin is viewing the shop as a customer
+ */
+const ImpersonationBanner = () => {
+  const { user, expiresAt, returnToAdmin } = useAuth();
+  const [now, setNow] = useState(() => Date.now());
+  const [isReturning, setIsReturning] = useState(false);
+  const impersonator = user?.impersonator;
+
+  useEffect(() => {
+    if (!impersonator) return;
+    const intervalId = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(intervalId);
+  }, [impersonator]);
+
+  if (!user || !impersonator) {
+    return null;
+  }
+
+  const handleReturn = async () => {
+    setIsReturning(true);
+    // Navigates away on success; stays disabled until the page unloads
+    await returnToAdmin();
+  };
+
+  return (
+    <div className="impersonation-banner" role="status">
+      <p>
+        <strong>Viewing as {user.username}</strong> ({user.email}). Read-only: orders, reviews and account changes are
+        turned off.
+        {expiresAt && <> Ends in {formatCountdown(Date.parse(expiresAt) - now)}.</>}
+      </p>
+      <button className="button button-primary button-sm" type="button" onClick={() => void handleReturn()} disabled={isReturning}>
+        {isReturning ? 'Returning...' : `Return to admin (${impersonator.username})`}
+      </button>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
@@ -4,6 +4,8 @@ import { useRouter } from 'next/router';
 import { useAuth } from '../context/AuthContext';
 import { useCart } from '../context/CartContext';
 import { getWishlistItems } from '../utils/wishlist';
+import { useOutbox } from '../hooks/useOutbox';
+import VerifyEmailBanner from './VerifyEmailBanner';
 
 const POPULAR_SEARCHES = ['headphones', 'watch', 'coffee mug'];
 
@@ -22,6 +24,7 @@ const Navbar = () => {
   const [isScrolled, setIsScrolled] = useState(false);
   const [wishlistCount, setWishlistCount] = useState(0);
   const { itemCount: cartCount } = useCart();
+  const { pendingCount: outboxCount } = useOutbox();
   const router = useRouter();
 
   useEffect(() => {
@@ -200,6 +203,29 @@ const Navbar = () => {
           display: none;
         }
 
+        .sl-outbox-pill {
+          display: inline-flex;
+          align-items: center;
+          gap: 6px;
+          height: 28px;
+          padding: 0 10px;
+          margin-right: 10px;
+          border-radius: 9999px;
+          background: #FEF3C7;
+          color: #92400E;
+          font-size: 12px;
+          font-weight: 600;
+          white-space: nowrap;
+        }
+        .sl-outbox-pill::before {
+          content: '';
+          width: 6px;
+          height: 6px;
+          border-radius: 50%;
+          background: #F59E0B;
+        }
+        .sl-mobile .sl-outbox-pill { margin-right: 2px; padding: 0 8px; }
+
         .sl-desktop .navbar {
           position: sticky;
           top: 0;
@@ -852,6 +878,11 @@ const Navbar = () => {
               </div>
 
               <div className="nav-actions">
+                {isClient && outboxCount > 0 && (
+                  <span className="sl-outbox-pill" role="status" title="Saved while offline. These will be sent when you reconnect.">
+                    {outboxCount} pending
+                  </span>
+                )}
                 {isClient &&
                   (isAuthenticated ? (
                     <Link className="nav-profile" href="/dashboard" title="Open your dashboard">
@@ -931,6 +962,12 @@ const Navbar = () => {
               {isClient && cartCount > 0 && <span className="mobile-cart-badge">{cartBadgeText}</span>}
             </Link>
 
+            {isClient && outboxCount > 0 && (
+              <span className="sl-outbox-pill" role="status" aria-label={`${outboxCount} pending offline changes`}>
+                {outboxCount > 9 ? '9+' : outboxCount}
+              </span>
+            )}
+
             <button
               type="button"
               className="mobile-icon-button mobile-menu-button"
@@ -1097,6 +1134,8 @@ const Navbar = () => {
           </>
         )}
       </div>
+
+      <VerifyEmailBanner className="verify-banner--global" />
     </>
   );
 };
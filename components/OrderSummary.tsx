@@ -0,0 +1,72 @@
+import type { PriceBreakdown } from '../types/pricing';
+import { formatCurrency } from '../utils/format';
+
+interface OrderSummaryProps {
+  breakdown: PriceBreakdown | null;
+  // Why the pricing rules could not be loaded, shown in place of the price lines
+  error?: string | null;
+  onRetry?: () => void;
+}
+
+/**
+ * The price lines of an order, from subtotal to total, as utils/pricing worked them out
+ */
+const OrderSummary = ({ breakdown, error, onRetry }: OrderSummaryProps) => {
+  if (!breakdown && error) {
+    return (
+      <div className="cart-summary-breakdown" role="alert">
+        <p className="form-error">Unable to load shipping and tax: {error}</p>
+        {onRetry && (
+          <button className="btn btn-outline" type="button" onClick={onRetry}>
+            Try again
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (!breakdown) {
+    return (
+      <div className="cart-summary-breakdown" aria-busy="true">
+        <p className="form-hint">Calculating shipping and tax...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="cart-summary-breakdown">
+      <div className="cart-summary-row">
+        <span>Subtotal</span>
+        <strong>{formatCurrency(breakdown.subtotal)}</strong>
+      </div>
+      {breakdown.discounts.map((line) => (
+        <div key={line.code} className="cart-summary-row discount">
+          <span>
+            {line.label} ({line.code})
+          </span>
+          <strong>{line.freeShipping ? 'Free shipping' : `-${formatCurrency(line.amount)}`}</strong>
+        </div>
+      ))}
+      <div className="cart-summary-row">
+        <span>
+          Shipping
+          {breakdown.freeShippingReason && <span className="form-hint cart-summary-note">{breakdown.freeShippingReason}</span>}
+        </span>
+        <strong>{breakdown.shipping === 0 ? 'Free' : formatCurrency(breakdown.shipping)}</strong>
+      </div>
+      <div className="cart-summary-row">
+        <span>
+          {breakdown.estimated ? 'Estimated tax' : breakdown.taxLabel} ({breakdown.taxRate}%)
+          {breakdown.estimated && <span className="form-hint cart-summary-note">Final tax depends on the shipping address</span>}
+        </span>
+        <strong>{formatCurrency(breakdown.tax)}</strong>
+      </div>
+      <div className="cart-summary-row total">
+        <span>Total</span>
+        <strong>{formatCurrency(breakdown.total)}</strong>
+      </div>
+    </div>
+  );
+};
+
+export default OrderSummary;
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useSWRConfig } from 'swr';
+import { useAuth } from '../context/AuthContext';
+import { isAccountCartKey, useCart } from '../context/CartContext';
+import { useMessage } from '../hooks/useMessage';
+import { isProductPageKey } from '../hooks/useProductPage';
+import { getOutboxEntries, replayOutbox, type OutboxOrderConflict } from '../services/outbox';
+import { getProduct } from '../services/products';
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Replays the offline outbox whenever the browser comes back online.
+ * Renders nothing; results are reported through the global Toast.
+ */
+const OutboxSync = () => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const { showMessage } = useMessage(6000);
+  const { addItem } = useCart();
+  const { mutate } = useSWRConfig();
+
+  // Put a rejected order back in the cart, capped at what is actually left now
+  const restoreConflictedOrder = useCallback(
+    async ({ entry }: OutboxOrderConflict) => {
+      const products = await Promise.all(
+        entry.payload.items.map((item) => getProduct(item.productId).catch(() => null))
+      );
+      let trimmed = false;
+      entry.payload.items.forEach((item, index) => {
+        const product = products[index];
+        if (!product || product.stock <= 0) {
+          trimmed = true;
+          return;
+        }
+        if (item.quantity > product.stock) trimmed = true;
+        addItem(product, Math.min(item.quantity, product.stock));
+      });
+      return trimmed;
+    },
+    [addItem]
+  );
+
+  const replay = useCallback(async () => {
+    // Every queued mutation needs a session; a signed-out replay would only bounce to /login
+    if (userId === null || getOutboxEntries().length === 0) return;
+
+    const { sent, conflicts, failed, remaining } = await replayOutbox(userId);
+    if (sent.length > 0) {
+      void mutate(
+        (key) =>
+          isProductPageKey(key) ||
+          isAccountCartKey(key) ||
+          (typeof key === 'string' && key.startsWith('/orders'))
+      );
+    }
+
+    // One toast covers the whole replay, so a conflict never hides what else was saved or lost
+    const parts: string[] = [];
+    if (conflicts.length > 0) {
+      const trimmed = (await Promise.all(conflicts.map(restoreConflictedOrder))).some(Boolean);
+      const reasons = conflicts.map((conflict) => conflict.reason);
+      parts.push(
+        trimmed
+          ? 'Stock changed while you were offline. Your order was moved back to the cart with the quantities still available.'
+          : !reasons.includes('stock') && reasons.includes('promotion')
+            ? 'Your discount changed while you were offline. Your order was moved back to the cart so you can review it.'
+            : !reasons.includes('stock') && reasons.includes('total')
+              ? 'Shipping or tax changed while you were offline. Your order was moved back to the cart so you can review the new total.'
+              : 'Your offline order could not be placed. It was moved back to the cart so you can check out again.'
+      );
+    }
+    if (failed.length > 0) {
+      parts.push(`${pluralize(failed.length, 'offline change')} could not be saved: ${failed[0].message.replace(/\.?$/, '.')}`);
+    }
+    if (sent.length > 0) {
+      parts.push(`${parts.length > 0 ? '' : 'Back online. '}${pluralize(sent.length, 'saved change')} sent.`);
+    }
+    if (parts.length === 0) return;
+    if (remaining > 0) parts.push(`${remaining} still waiting for a connection.`);
+
+    showMessage(conflicts.length > 0 || failed.length > 0 ? 'error' : 'success', parts.join(' '));
+  }, [userId, mutate, restoreConflictedOrder, showMessage]);
+
+  // showMessage changes with every toast, so the listener reads the latest replay through a ref
+  const replayRef = useRef(replay);
+  useEffect(() => {
+    replayRef.current = replay;
+  }, [replay]);
+
+  useEffect(() => {
+    if (userId !== null && navigator.onLine) void replayRef.current();
+  }, [userId]);
+
+  useEffect(() => {
+    const onOnline = () => void replayRef.current();
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, []);
+
+  return null;
+};
+
+export default OutboxSync;
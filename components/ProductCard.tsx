@@ -35,7 +35,7 @@ const ProductCard = ({ product }: ProductCardProps) => {
   const [isAdding, setIsAdding] = useState(false);
   const { showMessage } = useMessage();
   const { isAuthenticated } = useAuth();
-  const { addItem } = useCart();
+  const { addItem, readOnly } = useCart();
   const router = useRouter();
 
   const badge = pickBadge(product);
@@ -107,7 +107,7 @@ const ProductCard = ({ product }: ProductCardProps) => {
             className="product-card-v2-add"
             aria-label={`Add ${product.name} to cart`}
             onClick={handleAddToCart}
-            disabled={isAdding || product.stock <= 0}
+            disabled={isAdding || product.stock <= 0 || readOnly}
           >
             <svg viewBox="0 0 24 24" width="14" height="14" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round">
               <path d="M12 5v14M5 12h14" />
@@ -0,0 +1,81 @@
+import { useState, type FormEvent } from 'react';
+import { useCart } from '../context/CartContext';
+import { getErrorMessage } from '../services/apiError';
+import { describePromotion } from '../utils/promotions';
+
+/**
+ * Enter, show and remove the cart's promo code; the discount itself is listed by the summary around it
+ */
+const PromoCodeForm = ({ disabled = false }: { disabled?: boolean }) => {
+  const { promotion, promotionNotice, applyPromoCode, removePromoCode } = useCart();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!code.trim()) {
+      setError('Enter a promo code');
+      return;
+    }
+    setIsApplying(true);
+    setError(null);
+    try {
+      await applyPromoCode(code);
+      setCode('');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (promotion) {
+    return (
+      <div className="promo-code">
+        <div className="promo-code-row">
+          <div>
+            <span className="pill status-success">{promotion.code}</span>{' '}
+            <span className="form-hint">{promotion.description ?? describePromotion(promotion)}</span>
+          </div>
+          <button className="button button-ghost button-sm" type="button" onClick={removePromoCode} disabled={disabled}>
+            Remove
+          </button>
+        </div>
+        {promotionNotice && <p className="form-hint">{promotionNotice}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <form className="promo-code" onSubmit={handleSubmit} noValidate>
+      <label className="form-label" htmlFor="promo-code">
+        Promo code
+      </label>
+      <div className="promo-code-row">
+        <input
+          id="promo-code"
+          className={`form-input ${error ? 'form-input-error' : ''}`.trim()}
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          placeholder="e.g. WELCOME10"
+          autoComplete="off"
+          disabled={disabled || isApplying}
+          aria-invalid={!!error}
+          aria-describedby={error ? 'promo-code-error' : undefined}
+        />
+        <button className="button button-ghost" type="submit" disabled={disabled || isApplying}>
+          {isApplying ? 'Applying...' : 'Apply'}
+        </button>
+      </div>
+      {error && (
+        <span id="promo-code-error" className="form-error-inline">
+          {error}
+        </span>
+      )}
+      {!error && promotionNotice && <p className="form-hint">{promotionNotice}</p>}
+    </form>
+  );
+};
+
+export default PromoCodeForm;
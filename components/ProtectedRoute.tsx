@@ -1,30 +1,43 @@
 import type { ReactNode } from 'react';
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useRouter } from 'next/router';
-import { hasRequiredRole, isAuthenticated } from '../utils/auth';
+import { useAuth } from '../context/AuthContext';
+import type { PermissionKey } from '../types/user';
+import { buildLoginRedirect, buildMfaSetupRedirect, hasRequiredRole, requiresMfa } from '../utils/auth';
+import { hasPermission } from '../utils/permissions';
 
 interface ProtectedRouteProps {
   children: ReactNode;
   requiredRole?: string;
+  // Every listed permission is needed on top of the role
+  requiredPermission?: PermissionKey | PermissionKey[];
 }
 
-const ProtectedRoute = ({ children, requiredRole }: ProtectedRouteProps) => {
+const ProtectedRoute = ({ children, requiredRole, requiredPermission }: ProtectedRouteProps) => {
   const router = useRouter();
-  const [isReady, setIsReady] = useState(false);
+  const { user, isLoading } = useAuth();
+  // Admin pages also need a session that went through two-factor sign-in
+  const missingMfa = requiresMfa(requiredRole) && user?.mfaEnabled !== true;
+  const isAllowed = hasRequiredRole(user, requiredRole) && hasPermission(user, requiredPermission);
+  const isReady = !isLoading && isAllowed && !missingMfa;
 
   useEffect(() => {
-    if (!isAuthenticated()) {
-      router.replace('/login');
+    if (isLoading) return;
+
+    if (!user) {
+      router.replace(buildLoginRedirect(router.asPath));
       return;
     }
 
-    if (requiredRole && !hasRequiredRole(requiredRole)) {
+    if (!isAllowed) {
       router.replace('/');
       return;
     }
 
-    setIsReady(true);
-  }, [requiredRole, router]);
+    if (missingMfa) {
+      router.replace(buildMfaSetupRedirect(router.asPath));
+    }
+  }, [isAllowed, isLoading, missingMfa, router, user]);
 
   if (!isReady) {
     return (
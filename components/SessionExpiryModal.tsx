@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useMessage } from '../hooks/useMessage';
+
+const END_NOTICES = {
+  expired: 'Your session expired. Please sign in again to continue.',
+  idle: 'You were signed out after a period of inactivity.',
+  elsewhere: 'You were signed out in another tab.',
+};
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * "Stay signed in?" prompt shown ahead of the session expiring, plus the notice once a session has ended on its own
+ */
+const SessionExpiryModal = () => {
+  const { isSessionExpiring, expiresAt, extendSession, signOut, sessionEndReason, clearSessionEndReason } = useAuth();
+  const { showMessage } = useMessage(8000);
+  const [now, setNow] = useState(() => Date.now());
+  const [isExtending, setIsExtending] = useState(false);
+
+  useEffect(() => {
+    if (!isSessionExpiring) return;
+    const tick = () => setNow(Date.now());
+    const firstTick = window.setTimeout(tick, 0);
+    const intervalId = window.setInterval(tick, 1000);
+    return () => {
+      window.clearTimeout(firstTick);
+      window.clearInterval(intervalId);
+    };
+  }, [isSessionExpiring]);
+
+  useEffect(() => {
+    if (!sessionEndReason) return;
+    showMessage('info', END_NOTICES[sessionEndReason]);
+    clearSessionEndReason();
+  }, [sessionEndReason, showMessage, clearSessionEndReason]);
+
+  if (!isSessionExpiring || !expiresAt) {
+    return null;
+  }
+
+  const handleExtend = async () => {
+    setIsExtending(true);
+    const renewed = await extendSession();
+    setIsExtending(false);
+    if (renewed) showMessage('success', 'You are still signed in.');
+  };
+
+  return (
+    <div className="customer-modal-backdrop fixed inset-0 z-[95] grid place-items-center bg-slate-900/50 p-4 backdrop-blur-sm" role="presentation">
+      <div
+        className="customer-modal grid w-full max-w-md gap-4 rounded-xl border border-slate-200 bg-white p-6 shadow-2xl"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-expiry-title"
+        aria-describedby="session-expiry-text"
+      >
+        <h2 id="session-expiry-title" className="text-lg font-semibold text-slate-900">Stay signed in?</h2>
+        <p id="session-expiry-text" className="form-hint">
+          Your session expires in <strong>{formatCountdown(Date.parse(expiresAt) - now)}</strong>. It is renewed then if it still can be; otherwise any unsaved changes will be lost.
+        </p>
+        <div className="form-actions flex flex-wrap justify-end gap-2">
+          <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={signOut} disabled={isExtending}>
+            Sign out
+          </button>
+          <button className="button button-primary rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => void handleExtend()} disabled={isExtending} autoFocus>
+            {isExtending ? 'Extending...' : 'Stay signed in'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiryModal;
@@ -0,0 +1,235 @@
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '../context/AuthContext';
+import { useMessage } from '../hooks/useMessage';
+import { mfaSetupFormSchema, mfaSignInFormSchema } from '../lib/validationSchemas';
+import { getErrorMessage, isApiError } from '../services/apiError';
+import { confirmMfaEnrollment, disableMfa, startMfaEnrollment } from '../services/auth';
+import type { MfaEnrollment } from '../types/api';
+import { isSafeRedirect } from '../utils/auth';
+
+interface TwoFactorSettingsProps {
+  // Set when proxy.ts or ProtectedRoute sent the user here from an admin page
+  returnTo?: string | null;
+}
+
+// Easier to type from a phone screen in groups of four
+const formatSecret = (secret: string) => secret.replace(/(.{4})/g, '$1 ').trim();
+
+/**
+ * Account dashboard card for turning TOTP two-factor sign-in on and off
+ */
+const TwoFactorSettings = ({ returnTo }: TwoFactorSettingsProps) => {
+  const { user } = useAuth();
+  const { showMessage } = useMessage(5000);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isEnabled = user?.mfaEnabled === true;
+  const continueTo = returnTo && isSafeRedirect(returnTo) ? returnTo : null;
+
+  const resetForm = () => {
+    setCode('');
+    setCodeError('');
+  };
+
+  const handleStart = async () => {
+    setIsWorking(true);
+    try {
+      setEnrollment(await startMfaEnrollment());
+      resetForm();
+    } catch (error) {
+      showMessage('error', getErrorMessage(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!enrollment) return;
+    try {
+      await navigator.clipboard.writeText(enrollment.recoveryCodes.join('\n'));
+      showMessage('success', 'Recovery codes copied');
+    } catch {
+      showMessage('error', 'Could not copy. Select the codes and copy them by hand.');
+    }
+  };
+
+  // Wrong codes come back as a 400; anything else is worth a toast
+  const handleCodeError = (error: unknown) => {
+    if (isApiError(error) && error.status === 400) {
+      setCodeError('That code is not valid');
+      setCode('');
+      return;
+    }
+    showMessage('error', getErrorMessage(error));
+  };
+
+  const handleConfirm = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const parsed = mfaSetupFormSchema.safeParse({ code });
+    if (!parsed.success) {
+      setCodeError(parsed.error.issues[0]?.message ?? 'Enter the 6-digit code shown in the app');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await confirmMfaEnrollment(parsed.data.code.replace(/\s/g, ''));
+      setEnrollment(null);
+      resetForm();
+      showMessage('success', 'Two-factor authentication is on');
+    } catch (error) {
+      handleCodeError(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDisable = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const parsed = mfaSignInFormSchema.safeParse({ code });
+    if (!parsed.success) {
+      setCodeError(parsed.error.issues[0]?.message ?? 'Enter the code from your authenticator app');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await disableMfa(parsed.data.code.replace(/\s/g, ''));
+      resetForm();
+      showMessage('info', 'Two-factor authentication is off');
+    } catch (error) {
+      handleCodeError(error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const codeField = (label: string, placeholder: string) => (
+    <div className="form-field">
+      <label className="form-label" htmlFor="two-factor-code">
+        {label}
+        {codeError && <span className="form-error-inline">{codeError}</span>}
+      </label>
+      <input
+        id="two-factor-code"
+        className={`form-input ${codeError ? 'form-input-error' : ''}`}
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder={placeholder}
+        value={code}
+        onChange={(event) => {
+          setCode(event.target.value);
+          if (codeError) setCodeError('');
+        }}
+        disabled={isWorking}
+        aria-invalid={!!codeError}
+      />
+    </div>
+  );
+
+  return (
+    <section className="panel two-factor-panel" id="security" aria-labelledby="two-factor-title">
+      <div className="two-factor-header">
+        <h3 id="two-factor-title">Two-factor authentication</h3>
+        <span className="badge">{isEnabled ? 'On' : 'Off'}</span>
+      </div>
+
+      {isEnabled ? (
+        <>
+          <p className="form-hint">
+            Signing in asks for a code from your authenticator app after your password.
+            {continueTo && ' You can go back to where you were.'}
+          </p>
+          {continueTo && (
+            <Link className="button button-primary" href={continueTo}>
+              Continue
+            </Link>
+          )}
+          <form className="two-factor-form" onSubmit={handleDisable} noValidate>
+            {codeField('Code to turn it off', 'Code or recovery code')}
+            {user?.role === 'ADMIN' && (
+              <p className="form-hint">Admin tools are unavailable while two-factor is off.</p>
+            )}
+            <button className="button button-ghost" type="submit" disabled={isWorking}>
+              {isWorking ? 'Turning off...' : 'Turn off two-factor'}
+            </button>
+          </form>
+        </>
+      ) : enrollment ? (
+        <form className="two-factor-form" onSubmit={handleConfirm} noValidate>
+          <ol className="two-factor-steps">
+            <li>
+              <strong>Add ShopLite to your authenticator app.</strong>
+              {enrollment.qrCodeDataUri && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img className="two-factor-qr" src={enrollment.qrCodeDataUri} alt="QR code for your authenticator app" />
+              )}
+              <p className="form-hint">
+                {enrollment.qrCodeDataUri ? 'Scan the QR code, or on your phone ' : 'On your phone, '}
+                <a className="form-link" href={enrollment.otpauthUri}>
+                  open the setup link
+                </a>
+                . You can also type in the key:
+              </p>
+              <code className="two-factor-secret">{formatSecret(enrollment.secret)}</code>
+            </li>
+            <li>
+              <strong>Save your recovery codes.</strong>
+              <p className="form-hint">
+                Each code signs you in once if you lose your phone. They will not be shown again.
+              </p>
+              <ul className="recovery-codes">
+                {enrollment.recoveryCodes.map((recoveryCode) => (
+                  <li key={recoveryCode}>
+                    <code>{recoveryCode}</code>
+                  </li>
+                ))}
+              </ul>
+              <button className="button button-ghost button-sm" type="button" onClick={() => void handleCopyCodes()}>
+                Copy codes
+              </button>
+            </li>
+            <li>
+              <strong>Enter the code the app shows.</strong>
+              {codeField('Verification code', '123 456')}
+            </li>
+          </ol>
+          <div className="two-factor-actions">
+            <button className="button button-primary" type="submit" disabled={isWorking}>
+              {isWorking ? 'Checking...' : 'Turn on two-factor'}
+            </button>
+            <button
+              className="button button-ghost"
+              type="button"
+              onClick={() => {
+                setEnrollment(null);
+                resetForm();
+              }}
+              disabled={isWorking}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <p className="form-hint">
+            Protect your account with a code from an authenticator app such as Google Authenticator, 1Password or Authy.
+            {user?.role === 'ADMIN' && ' Admin tools require it.'}
+          </p>
+          <button className="button button-primary" type="button" onClick={() => void handleStart()} disabled={isWorking}>
+            {isWorking ? 'Starting...' : 'Set up two-factor'}
+          </button>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default TwoFactorSettings;
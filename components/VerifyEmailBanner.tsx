@@ -0,0 +1,39 @@
+import Link from 'next/link';
+import { useEmailVerification } from '../hooks/useEmailVerification';
+import { useMessage } from '../hooks/useMessage';
+
+/**
+ * Reminder shown to signed-in accounts that have not opened their verification link yet
+ */
+const VerifyEmailBanner = ({ className = '' }: { className?: string }) => {
+  const { needsVerification, email, resend, isSending, cooldownSeconds } = useEmailVerification();
+  const { showMessage } = useMessage(6000);
+
+  if (!needsVerification) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    const { sent, message } = await resend();
+    showMessage(sent ? 'success' : 'error', message);
+  };
+
+  return (
+    <div className={`verify-banner ${className}`.trim()} role="status">
+      <p>
+        <strong>Verify your email.</strong> We sent a link to {email || 'your inbox'}. Checkout and reviews unlock once
+        it is confirmed. <Link href="/verify-email" className="form-link">Details</Link>
+      </p>
+      <button
+        className="button button-ghost button-sm"
+        type="button"
+        onClick={() => void handleResend()}
+        disabled={isSending || cooldownSeconds > 0}
+      >
+        {isSending ? 'Sending...' : cooldownSeconds > 0 ? `Resend in ${cooldownSeconds}s` : 'Resend email'}
+      </button>
+    </div>
+  );
+};
+
+export default VerifyEmailBanner;
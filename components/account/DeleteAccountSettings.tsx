@@ -0,0 +1,139 @@
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import { useAuth } from '../../context/AuthContext';
+import { useMessage } from '../../hooks/useMessage';
+import { getFormFieldErrors } from '../../lib/formErrors';
+import { deleteAccountFormSchema, type DeleteAccountFormData } from '../../lib/validationSchemas';
+import { getErrorMessage } from '../../services/apiError';
+import { deleteMyAccount } from '../../services/users';
+
+const EMPTY_FORM: DeleteAccountFormData = { password: '', confirmation: '' };
+
+/**
+ * Permanent account deletion behind the password and a typed confirmation
+ */
+const DeleteAccountSettings = () => {
+  const router = useRouter();
+  const { signOut } = useAuth();
+  const { showMessage } = useMessage(6000);
+  const [isOpen, setIsOpen] = useState(false);
+  const [formData, setFormData] = useState<DeleteAccountFormData>(EMPTY_FORM);
+  const [errors, setErrors] = useState<Partial<DeleteAccountFormData>>({});
+  const [error, setError] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleChange = (field: keyof DeleteAccountFormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleCancel = () => {
+    setIsOpen(false);
+    setFormData(EMPTY_FORM);
+    setErrors({});
+    setError('');
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError('');
+
+    const parsed = deleteAccountFormSchema.safeParse(formData);
+    if (!parsed.success) {
+      const fieldErrors: Partial<DeleteAccountFormData> = {};
+      parsed.error.issues.forEach((issue) => {
+        const field = issue.path[0] as keyof DeleteAccountFormData | undefined;
+        if (field && !fieldErrors[field]) fieldErrors[field] = issue.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setIsDeleting(true);
+    try {
+      await deleteMyAccount({ password: parsed.data.password });
+      signOut();
+      showMessage('info', 'Your account has been deleted');
+      void router.push('/', undefined, { scroll: true });
+    } catch (err) {
+      const serverFieldErrors = getFormFieldErrors(err, ['password'] as const);
+      if (Object.keys(serverFieldErrors).length > 0) {
+        setErrors(serverFieldErrors);
+      } else {
+        setError(getErrorMessage(err));
+      }
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <section className="panel account-panel account-danger-zone" aria-labelledby="delete-account-title">
+      <h3 id="delete-account-title">Delete account</h3>
+      <p className="form-hint">
+        This removes your sign-in, saved details and preferences for good. Past orders are kept for our records.
+      </p>
+
+      {!isOpen ? (
+        <button className="button button-danger" type="button" onClick={() => setIsOpen(true)}>
+          Delete my account
+        </button>
+      ) : (
+        <form className="account-form" onSubmit={handleSubmit} noValidate>
+          {error && (
+            <div className="form-error-box" role="alert">
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="form-field">
+            <label className="form-label" htmlFor="delete-account-password">
+              Password
+              {errors.password && <span className="form-error-inline">{errors.password}</span>}
+            </label>
+            <input
+              id="delete-account-password"
+              className={`form-input ${errors.password ? 'form-input-error' : ''}`}
+              type="password"
+              value={formData.password}
+              onChange={(e) => handleChange('password', e.target.value)}
+              autoComplete="current-password"
+              disabled={isDeleting}
+              aria-invalid={!!errors.password}
+            />
+          </div>
+
+          <div className="form-field">
+            <label className="form-label" htmlFor="delete-account-confirmation">
+              Type DELETE to confirm
+              {errors.confirmation && <span className="form-error-inline">{errors.confirmation}</span>}
+            </label>
+            <input
+              id="delete-account-confirmation"
+              className={`form-input ${errors.confirmation ? 'form-input-error' : ''}`}
+              type="text"
+              value={formData.confirmation}
+              onChange={(e) => handleChange('confirmation', e.target.value)}
+              autoComplete="off"
+              disabled={isDeleting}
+              aria-invalid={!!errors.confirmation}
+            />
+          </div>
+
+          <div className="account-actions">
+            <button className="button button-danger" type="submit" disabled={isDeleting}>
+              {isDeleting ? 'Deleting...' : 'Delete permanently'}
+            </button>
+            <button className="button button-ghost" type="button" onClick={handleCancel} disabled={isDeleting}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default DeleteAccountSettings;
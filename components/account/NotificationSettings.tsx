@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { useMessage } from '../../hooks/useMessage';
+import { getErrorMessage } from '../../services/apiError';
+import { getMyNotificationPreferences, updateMyNotificationPreferences } from '../../services/users';
+import type { NotificationPreferences } from '../../types/user';
+
+const PREFERENCE_OPTIONS: Array<{ key: keyof NotificationPreferences; label: string; hint: string }> = [
+  { key: 'orderUpdates', label: 'Order updates', hint: 'Shipping and delivery news. Receipts are always sent.' },
+  { key: 'wishlistAlerts', label: 'Wishlist alerts', hint: 'When something you saved is back in stock or cheaper.' },
+  { key: 'promotions', label: 'Offers and promotions', hint: 'Sales and discount codes, a few times a month.' },
+];
+
+/**
+ * Email preferences; each switch saves as soon as it is changed
+ */
+const NotificationSettings = () => {
+  const { showMessage } = useMessage();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [savingKey, setSavingKey] = useState<keyof NotificationPreferences | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getMyNotificationPreferences({ signal: controller.signal })
+      .then(setPreferences)
+      .catch((error) => {
+        if (!controller.signal.aborted) setLoadError(getErrorMessage(error));
+      });
+    return () => controller.abort();
+  }, []);
+
+  const handleToggle = async (key: keyof NotificationPreferences) => {
+    if (!preferences) return;
+    const previous = preferences;
+    const next = { ...preferences, [key]: !preferences[key] };
+    setPreferences(next);
+    setSavingKey(key);
+    try {
+      setPreferences(await updateMyNotificationPreferences(next));
+    } catch (error) {
+      setPreferences(previous);
+      showMessage('error', getErrorMessage(error));
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <section className="panel account-panel" aria-labelledby="notification-settings-title">
+      <h3 id="notification-settings-title">Notifications</h3>
+      {loadError ? (
+        <p className="form-hint" role="alert">{loadError}</p>
+      ) : !preferences ? (
+        <p className="form-hint">Loading your preferences...</p>
+      ) : (
+        <ul className="account-preferences">
+          {PREFERENCE_OPTIONS.map((option) => (
+            <li key={option.key}>
+              <label className="account-preference">
+                <input
+                  type="checkbox"
+                  checked={preferences[option.key]}
+                  onChange={() => void handleToggle(option.key)}
+                  disabled={savingKey !== null}
+                />
+                <span>
+                  <strong>{option.label}</strong>
+                  <span className="form-hint">{option.hint}</span>
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,115 @@
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+import { useMessage } from '../../hooks/useMessage';
+import { getFormFieldErrors } from '../../lib/formErrors';
+import {
+  PASSWORD_RULES_HINT,
+  changePasswordFormSchema,
+  type ChangePasswordFormData,
+} from '../../lib/validationSchemas';
+import { getErrorMessage } from '../../services/apiError';
+import { changeMyPassword } from '../../services/users';
+
+const EMPTY_FORM: ChangePasswordFormData = { currentPassword: '', newPassword: '', confirmPassword: '' };
+
+/**
+ * Change the password from inside the account; the current one is required
+ */
+const PasswordSettings = () => {
+  const { showMessage } = useMessage(5000);
+  const [formData, setFormData] = useState<ChangePasswordFormData>(EMPTY_FORM);
+  const [errors, setErrors] = useState<Partial<ChangePasswordFormData>>({});
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [showPassword, setShowPassword] = useState(false);
+
+  const handleChange = (field: keyof ChangePasswordFormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError('');
+
+    const parsed = changePasswordFormSchema.safeParse(formData);
+    if (!parsed.success) {
+      const fieldErrors: Partial<ChangePasswordFormData> = {};
+      parsed.error.issues.forEach((issue) => {
+        const field = issue.path[0] as keyof ChangePasswordFormData | undefined;
+        if (field && !fieldErrors[field]) fieldErrors[field] = issue.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await changeMyPassword({ currentPassword: parsed.data.currentPassword, newPassword: parsed.data.newPassword });
+      setFormData(EMPTY_FORM);
+      setShowPassword(false);
+      showMessage('success', 'Password changed. Any other devices were signed out.');
+    } catch (err) {
+      const serverFieldErrors = getFormFieldErrors(err, ['currentPassword', 'newPassword'] as const, {
+        password: 'newPassword',
+      });
+      if (Object.keys(serverFieldErrors).length > 0) {
+        setErrors(serverFieldErrors);
+      } else {
+        setError(getErrorMessage(err));
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const passwordField = (field: keyof ChangePasswordFormData, label: string, autoComplete: string) => (
+    <div className="form-field">
+      <label className="form-label" htmlFor={`password-${field}`}>
+        {label}
+        {errors[field] && <span className="form-error-inline">{errors[field]}</span>}
+      </label>
+      <input
+        id={`password-${field}`}
+        className={`form-input ${errors[field] ? 'form-input-error' : ''}`}
+        type={showPassword ? 'text' : 'password'}
+        value={formData[field]}
+        onChange={(e) => handleChange(field, e.target.value)}
+        autoComplete={autoComplete}
+        disabled={isSaving}
+        aria-invalid={!!errors[field]}
+      />
+    </div>
+  );
+
+  return (
+    <section className="panel account-panel" aria-labelledby="password-settings-title">
+      <h3 id="password-settings-title">Password</h3>
+      <form className="account-form" onSubmit={handleSubmit} noValidate>
+        {error && (
+          <div className="form-error-box" role="alert">
+            <span>{error}</span>
+          </div>
+        )}
+
+        {passwordField('currentPassword', 'Current password', 'current-password')}
+        {passwordField('newPassword', 'New password', 'new-password')}
+        <p className="form-hint">{PASSWORD_RULES_HINT}</p>
+        {passwordField('confirmPassword', 'Confirm new password', 'new-password')}
+
+        <div className="account-actions">
+          <button className="button button-primary" type="submit" disabled={isSaving}>
+            {isSaving ? 'Changing...' : 'Change password'}
+          </button>
+          <button className="button button-ghost" type="button" onClick={() => setShowPassword(!showPassword)} disabled={isSaving}>
+            {showPassword ? 'Hide passwords' : 'Show passwords'}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+};
+
+export default PasswordSettings;
@@ -0,0 +1,132 @@
+import type { FormEvent } from 'react';
+import { useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { useMessage } from '../../hooks/useMessage';
+import { getFormFieldErrors } from '../../lib/formErrors';
+import { profileFormSchema, type ProfileFormData } from '../../lib/validationSchemas';
+import { getErrorMessage } from '../../services/apiError';
+import { updateMyProfile } from '../../services/users';
+import type { UpdateProfileRequest } from '../../types/api';
+
+/**
+ * Username and email; a new email has to be verified again before checkout and reviews reopen
+ */
+const ProfileSettings = () => {
+  const { user, updateUser } = useAuth();
+  const { showMessage } = useMessage(6000);
+  const [formData, setFormData] = useState<ProfileFormData>({
+    username: user?.username ?? '',
+    email: user?.email ?? '',
+  });
+  const [errors, setErrors] = useState<Partial<ProfileFormData>>({});
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = (field: keyof ProfileFormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError('');
+
+    const parsed = profileFormSchema.safeParse(formData);
+    if (!parsed.success) {
+      const fieldErrors: Partial<ProfileFormData> = {};
+      parsed.error.issues.forEach((issue) => {
+        const field = issue.path[0] as keyof ProfileFormData | undefined;
+        if (field && !fieldErrors[field]) fieldErrors[field] = issue.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    // Only what changed is sent, so an unchanged email never triggers a new verification
+    const changes: UpdateProfileRequest = {};
+    if (parsed.data.username !== user?.username) changes.username = parsed.data.username;
+    if (parsed.data.email.toLowerCase() !== user?.email.toLowerCase()) changes.email = parsed.data.email;
+    if (Object.keys(changes).length === 0) {
+      showMessage('info', 'Nothing to save');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await updateMyProfile(changes);
+      updateUser(updated);
+      setFormData({ username: updated.username, email: updated.email });
+      showMessage(
+        'success',
+        changes.email
+          ? `Saved. We sent a verification link to ${updated.email}; checkout and reviews pause until you open it.`
+          : 'Profile saved'
+      );
+    } catch (err) {
+      const serverFieldErrors = getFormFieldErrors(err, ['username', 'email'] as const);
+      if (Object.keys(serverFieldErrors).length > 0) {
+        setErrors(serverFieldErrors);
+      } else {
+        setError(getErrorMessage(err));
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="panel account-panel" aria-labelledby="profile-settings-title">
+      <h3 id="profile-settings-title">Profile</h3>
+      <form className="account-form" onSubmit={handleSubmit} noValidate>
+        {error && (
+          <div className="form-error-box" role="alert">
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="form-field">
+          <label className="form-label" htmlFor="profile-username">
+            Username
+            {errors.username && <span className="form-error-inline">{errors.username}</span>}
+          </label>
+          <input
+            id="profile-username"
+            className={`form-input ${errors.username ? 'form-input-error' : ''}`}
+            type="text"
+            value={formData.username}
+            onChange={(e) => handleChange('username', e.target.value)}
+            autoComplete="username"
+            disabled={isSaving}
+            aria-invalid={!!errors.username}
+          />
+        </div>
+
+        <div className="form-field">
+          <label className="form-label" htmlFor="profile-email">
+            Email
+            {errors.email && <span className="form-error-inline">{errors.email}</span>}
+          </label>
+          <input
+            id="profile-email"
+            className={`form-input ${errors.email ? 'form-input-error' : ''}`}
+            type="email"
+            value={formData.email}
+            onChange={(e) => handleChange('email', e.target.value)}
+            autoComplete="email"
+            disabled={isSaving}
+            aria-invalid={!!errors.email}
+          />
+          <p className="form-hint">Changing it sends a new verification link to the new address.</p>
+        </div>
+
+        <button className="button button-primary" type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save profile'}
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default ProfileSettings;
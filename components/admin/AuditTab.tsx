@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { useMessage } from '../../hooks/useMessage';
+import { listAuditEntries } from '../../services/audit';
+import type { AuditEntityType, AuditEntry } from '../../types/audit';
+import { downloadCsv, toCsv } from '../../utils/csv';
+
+const ACTION_LABELS: Record<string, string> = {
+  'product.create': 'Product created',
+  'product.update': 'Product updated',
+  'product.delete': 'Product deleted',
+  'user.role': 'Role changed',
+  'user.status': 'Status changed',
+  'user.permissions': 'Permissions changed',
+  'user.delete': 'User deleted',
+  'review.moderate': 'Review moderated',
+  'promotion.create': 'Promotion created',
+  'promotion.update': 'Promotion updated',
+  'promotion.delete': 'Promotion deleted',
+  'pricing.update': 'Tax and shipping rules changed',
+  'impersonation.start': 'Viewing as customer',
+  'impersonation.end': 'Stopped viewing as customer',
+};
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  product: 'Product',
+  user: 'User',
+  review: 'Review',
+  promotion: 'Promotion',
+  pricing: 'Pricing',
+};
+
+const ENTITY_FILTER_LABELS: Record<AuditEntityType, string> = {
+  product: 'Products',
+  user: 'Users',
+  review: 'Reviews',
+  promotion: 'Promotions',
+  pricing: 'Tax and shipping',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// The pricing rules are a single document, so they have a name but no id worth showing
+const describeTarget = (entry: AuditEntry) =>
+  entry.entityType === 'pricing'
+    ? entry.entityLabel ?? ENTITY_LABELS.pricing
+    : `${ENTITY_LABELS[entry.entityType]} #${entry.entityId}${entry.entityLabel ? ` (${entry.entityLabel})` : ''}`;
+
+// Date inputs give calendar days; both ends are widened to cover the whole local day
+const startOfDay = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined);
+const endOfDay = (day: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined);
+
+const AuditTab = () => {
+  const { showMessage } = useMessage();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [actorFilter, setActorFilter] = useState('');
+  const [entityFilter, setEntityFilter] = useState<AuditEntityType | 'ALL'>('ALL');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const loadEntries = async () => {
+    if (fromDate && toDate && fromDate > toDate) {
+      showMessage('error', 'The start date must be on or before the end date');
+      return;
+    }
+    setLoading(true);
+    try {
+      const data = await listAuditEntries({
+        actor: actorFilter,
+        entityType: entityFilter === 'ALL' ? undefined : entityFilter,
+        from: startOfDay(fromDate),
+        to: endOfDay(toDate),
+      });
+      setEntries(data);
+    } catch {
+      showMessage('error', 'Unable to load the audit log');
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadEntries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Exports what the current filters show, not the whole log
+  const handleExport = () => {
+    const csv = toCsv(
+      ['Time', 'Actor', 'Action', 'Entity type', 'Entity ID', 'Target', 'Changes', 'Reason'],
+      entries.map((entry) => [
+        entry.createdAt,
+        entry.actor.username,
+        entry.action,
+        entry.entityType,
+        entry.entityId,
+        entry.entityLabel,
+        entry.changes.map((change) => `${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`).join('; '),
+        entry.reason,
+      ])
+    );
+    downloadCsv(`audit-log-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+  };
+
+  return (
+    <section className="panel">
+      <div className="panel-header">
+        <div>
+          <h3>Audit log</h3>
+          <p className="form-hint">Who changed products, users, reviews, promotions and pricing, what changed, and why.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button className="button button-ghost" type="button" onClick={handleExport} disabled={loading || entries.length === 0}>
+            Export CSV
+          </button>
+          <button className="button button-ghost" type="button" onClick={() => void loadEntries()} disabled={loading}>
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      <div className="toolbar compact flex flex-wrap gap-2">
+        <input
+          className="toolbar-input h-10 min-w-[180px] rounded-md border border-slate-300 bg-white px-3 text-sm focus:border-blue-500 focus:outline-none"
+          placeholder="Filter by admin"
+          value={actorFilter}
+          onChange={(event) => setActorFilter(event.target.value)}
+        />
+
+        <select
+          className="toolbar-input h-10 min-w-[160px] rounded-md border border-slate-300 bg-white px-3 text-sm focus:border-blue-500 focus:outline-none"
+          value={entityFilter}
+          onChange={(event) => setEntityFilter(event.target.value as typeof entityFilter)}
+        >
+          <option value="ALL">All entities</option>
+          {(Object.keys(ENTITY_FILTER_LABELS) as AuditEntityType[]).map((type) => (
+            <option key={type} value={type}>
+              {ENTITY_FILTER_LABELS[type]}
+            </option>
+          ))}
+        </select>
+
+        <input
+          className="toolbar-input h-10 rounded-md border border-slate-300 bg-white px-3 text-sm focus:border-blue-500 focus:outline-none"
+          type="date"
+          aria-label="From date"
+          value={fromDate}
+          max={toDate || undefined}
+          onChange={(event) => setFromDate(event.target.value)}
+        />
+        <input
+          className="toolbar-input h-10 rounded-md border border-slate-300 bg-white px-3 text-sm focus:border-blue-500 focus:outline-none"
+          type="date"
+          aria-label="To date"
+          value={toDate}
+          min={fromDate || undefined}
+          onChange={(event) => setToDate(event.target.value)}
+        />
+
+        <button className="button button-primary" type="button" onClick={() => void loadEntries()} disabled={loading}>
+          Apply filters
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="table-skeleton">
+          <div className="skeleton-row" />
+          <div className="skeleton-row" />
+          <div className="skeleton-row" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">🛡️</div>
+          <h3>No audit entries</h3>
+          <p>Nothing matches these filters yet.</p>
+        </div>
+      ) : (
+        <div className="table-wrapper">
+          <table className="table table-striped">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Admin</th>
+                <th>Action</th>
+                <th>Target</th>
+                <th>Changes</th>
+                <th>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="cell-sub">{new Date(entry.createdAt).toLocaleString()}</td>
+                  <td className="cell-strong">{entry.actor.username}</td>
+                  <td>
+                    <span className="pill status-neutral">{ACTION_LABELS[entry.action] ?? entry.action}</span>
+                  </td>
+                  <td>{describeTarget(entry)}</td>
+                  <td>
+                    {entry.changes.length === 0 ? (
+                      <span className="cell-sub">—</span>
+                    ) : (
+                      <ul className="audit-changes">
+                        {entry.changes.map((change) => (
+                          <li key={change.field}>
+                            <span className="cell-mono">{change.field}</span>: <del>{formatValue(change.before)}</del> →{' '}
+                            <ins>{formatValue(change.after)}</ins>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                  <td className="cell-sub">{entry.reason ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default AuditTab;
@@ -1,28 +1,25 @@
 ﻿import { useEffect, useMemo, useState } from 'react';
 import type { MessageType } from '../../hooks/useMessage';
+import { usePermission } from '../../hooks/usePermission';
+import { getErrorMessage } from '../../services/apiError';
 import type { Order } from '../../types/order';
-import type { User } from '../../types/user';
+import type { PermissionKey, User } from '../../types/user';
 import { formatCurrency } from '../../utils/format';
+import { PERMISSION_KEYS, PERMISSION_LABELS, ROLE_PERMISSION_DEFAULTS } from '../../utils/permissions';
 
 type CustomerRole = 'ADMIN' | 'USER';
 type CustomerStatus = 'ACTIVE' | 'DISABLED' | 'BANNED';
-type PermissionKey =
-  | 'users.read'
-  | 'users.write'
-  | 'roles.manage'
-  | 'permissions.manage'
-  | 'passwords.reset'
-  | 'activity.view'
-  | 'billing.view'
-  | 'security.manage';
 
 interface CustomerControlPanelProps {
   users: User[];
   orders: Order[];
   loading: boolean;
   onDeleteUser: (id: number) => Promise<void>;
-  onChangeUserRole: (id: number, role: User['role']) => Promise<User>;
-  onChangeUserStatus: (id: number, status: User['status']) => Promise<User>;
+  onChangeUserRole: (id: number, role: User['role'], reason?: string) => Promise<User>;
+  onChangeUserStatus: (id: number, status: User['status'], reason?: string) => Promise<User>;
+  onChangeUserPermissions: (id: number, permissions: PermissionKey[]) => Promise<User>;
+  // Starts a read-only "view as customer" session and leaves the admin page
+  onImpersonateUser?: (id: number, reason?: string) => Promise<void>;
   notify: (type: MessageType, text: string) => void;
 }
 
@@ -51,6 +48,8 @@ interface EditorState {
   email: string;
   role: CustomerRole;
   status: CustomerStatus;
+  // Kept in the audit log alongside any role or status change
+  reason: string;
 }
 
 interface LocalUserDraft {
@@ -63,36 +62,11 @@ const CUSTOMERS_PER_PAGE = 8;
 const DAY_IN_MS = 86400000;
 const ACTIVITY_REFERENCE_TIME = Date.now();
 
-const ROLE_PERMISSION_DEFAULTS: Record<CustomerRole, PermissionKey[]> = {
-  ADMIN: [
-    'users.read',
-    'users.write',
-    'roles.manage',
-    'permissions.manage',
-    'passwords.reset',
-    'activity.view',
-    'billing.view',
-    'security.manage',
-  ],
-  USER: ['activity.view'],
-};
-
-const PERMISSION_LABELS: Record<PermissionKey, string> = {
-  'users.read': 'View users',
-  'users.write': 'Create and edit users',
-  'roles.manage': 'Control roles',
-  'permissions.manage': 'Control permissions',
-  'passwords.reset': 'Reset passwords',
-  'activity.view': 'View user activity',
-  'billing.view': 'View billing profile',
-  'security.manage': 'Ban and security actions',
-};
-
 const roleFromApi = (role: User['role'] | string): CustomerRole =>
   role.replace(/^ROLE_/i, '').toUpperCase() === 'ADMIN' ? 'ADMIN' : 'USER';
 const toLower = (value: string) => value.trim().toLowerCase();
 const getInitial = (name: string) => (name.trim().charAt(0) || 'U').toUpperCase();
-const accessLevel = (count: number) => (count >= 7 ? 'Full access' : count >= 4 ? 'Elevated' : 'Basic');
+const accessLevel = (count: number) => (count >= PERMISSION_KEYS.length ? 'Full access' : count >= 4 ? 'Elevated' : 'Basic');
 const formatDateTime = (date: string | null) => {
   if (!date) return 'No activity';
   const parsed = new Date(date);
@@ -105,7 +79,16 @@ const roleLabel: Record<CustomerRole, string> = {
   USER: 'User',
 };
 
-const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUserRole, onChangeUserStatus, notify }: CustomerControlPanelProps) => {
+const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUserRole, onChangeUserStatus, onChangeUserPermissions, onImpersonateUser, notify }: CustomerControlPanelProps) => {
+  // What the signed-in admin may do here; the API enforces the same rules
+  const canWriteUsers = usePermission('users.write');
+  const canManageRoles = usePermission('roles.manage');
+  const canManagePermissions = usePermission('permissions.manage');
+  const canResetPasswords = usePermission('passwords.reset');
+  const canViewActivity = usePermission('activity.view');
+  const canManageSecurity = usePermission('security.manage');
+  const canImpersonate = usePermission('users.impersonate') && !!onImpersonateUser;
+
   const statusToneClass: Record<CustomerStatus, string> = {
     ACTIVE: 'bg-emerald-100 text-emerald-700 ring-emerald-200',
     DISABLED: 'bg-amber-100 text-amber-700 ring-amber-200',
@@ -126,6 +109,7 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
   const [busyDeleteId, setBusyDeleteId] = useState<number | null>(null);
   const [busyRoleId, setBusyRoleId] = useState<number | null>(null);
   const [busyStatusId, setBusyStatusId] = useState<number | null>(null);
+  const [busyPermissionId, setBusyPermissionId] = useState<number | null>(null);
   const [deleteConfirmUserId, setDeleteConfirmUserId] = useState<number | null>(null);
   const [confirmBulkDelete, setConfirmBulkDelete] = useState(false);
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
@@ -140,6 +124,9 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
   const [editor, setEditor] = useState<EditorState | null>(null);
   const [permissionUserId, setPermissionUserId] = useState<number | null>(null);
   const [activityUserId, setActivityUserId] = useState<number | null>(null);
+  const [impersonateUserId, setImpersonateUserId] = useState<number | null>(null);
+  const [impersonationReason, setImpersonationReason] = useState('');
+  const [isStartingImpersonation, setIsStartingImpersonation] = useState(false);
 
   useEffect(() => {
     if (!openActionUserId) return;
@@ -183,7 +170,7 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
         source: 'remote' as const,
         role,
         status: statusOverrides[user.id] ?? user.status,
-        permissions: permissionOverrides[user.id] ?? ROLE_PERMISSION_DEFAULTS[role],
+        permissions: permissionOverrides[user.id] ?? (roleOverrides[user.id] ? undefined : user.permissions) ?? ROLE_PERMISSION_DEFAULTS[role],
         activity: { ...activity, lastSeenAt: activityOverrides[user.id]?.lastSeenAt ?? activity.lastSeenAt },
       };
     });
@@ -246,6 +233,15 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
     [activityUserId, customerRows]
   );
 
+  const impersonateTarget = useMemo(
+    () => customerRows.find((row) => row.id === impersonateUserId) ?? null,
+    [customerRows, impersonateUserId]
+  );
+
+  // Only active customer accounts that exist on the server can be viewed
+  const canImpersonateRow = (row: CustomerViewModel) =>
+    canImpersonate && row.source === 'remote' && row.role === 'USER' && row.status === 'ACTIVE';
+
   const activityTimeline = useMemo(() => {
     if (!activityUserId) return [];
     return orders
@@ -275,9 +271,9 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
 
     const previousRole = target.role;
     setRoleOverrides((prev) => ({ ...prev, [id]: role }));
-    setPermissionOverrides((prev) => (prev[id] ? prev : { ...prev, [id]: ROLE_PERMISSION_DEFAULTS[role] }));
 
     if (target.source === 'local') {
+      setPermissionOverrides((prev) => (prev[id] ? prev : { ...prev, [id]: ROLE_PERMISSION_DEFAULTS[role] }));
       notify('success', `Role updated to ${roleLabel[role]}.`);
       return;
     }
@@ -371,10 +367,21 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
     }
   };
 
-  const runAction = (action: 'edit' | 'reset' | 'activity' | 'permissions' | 'delete', row: CustomerViewModel) => {
+  const startImpersonation = async (row: CustomerViewModel) => {
+    if (!onImpersonateUser) return;
+    setIsStartingImpersonation(true);
+    try {
+      await onImpersonateUser(row.id, impersonationReason.trim() || undefined);
+    } catch (error) {
+      notify('error', getErrorMessage(error));
+      setIsStartingImpersonation(false);
+    }
+  };
+
+  const runAction = (action: 'edit' | 'reset' | 'activity' | 'permissions' | 'impersonate' | 'delete', row: CustomerViewModel) => {
     setOpenActionUserId(null);
     if (action === 'edit') {
-      setEditor({ mode: 'edit', id: row.id, username: row.username, email: row.email, role: row.role, status: row.status });
+      setEditor({ mode: 'edit', id: row.id, username: row.username, email: row.email, role: row.role, status: row.status, reason: '' });
       return;
     }
     if (action === 'reset') {
@@ -389,6 +396,11 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
       setPermissionUserId(row.id);
       return;
     }
+    if (action === 'impersonate') {
+      setImpersonationReason('');
+      setImpersonateUserId(row.id);
+      return;
+    }
     setDeleteConfirmUserId(row.id);
   };
 
@@ -412,6 +424,7 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
 
     if (!editor.id) return;
     const editingId = editor.id;
+    const reason = editor.reason.trim() || undefined;
     const existing = customerRows.find((row) => row.id === editingId);
     if (!existing) return;
 
@@ -426,7 +439,7 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
       } else {
         setBusyRoleId(editingId);
         try {
-          await onChangeUserRole(editingId, editor.role);
+          await onChangeUserRole(editingId, editor.role, reason);
           setRoleOverrides((prev) => {
             const next = { ...prev };
             delete next[editingId];
@@ -447,7 +460,7 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
       } else {
         setBusyStatusId(editingId);
         try {
-          await onChangeUserStatus(editingId, editor.status);
+          await onChangeUserStatus(editingId, editor.status, reason);
           setStatusOverrides((prev) => {
             const next = { ...prev };
             delete next[editingId];
@@ -484,13 +497,30 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
     if (deleted === 0) notify('error', 'No users were deleted.');
   };
 
-  const togglePermission = (userId: number, permission: PermissionKey) => {
-    const role = roleOverrides[userId] ?? customerRows.find((row) => row.id === userId)?.role ?? 'USER';
-    const current = permissionOverrides[userId] ?? ROLE_PERMISSION_DEFAULTS[role];
+  const togglePermission = async (userId: number, permission: PermissionKey) => {
+    const target = customerRows.find((row) => row.id === userId);
+    if (!target) return;
+    const current = target.permissions;
     const next = current.includes(permission)
       ? current.filter((item) => item !== permission)
       : [...current, permission];
     setPermissionOverrides((prev) => ({ ...prev, [userId]: next }));
+    if (target.source === 'local') return;
+
+    setBusyPermissionId(userId);
+    try {
+      await onChangeUserPermissions(userId, next);
+      setPermissionOverrides((prev) => {
+        const remaining = { ...prev };
+        delete remaining[userId];
+        return remaining;
+      });
+    } catch {
+      setPermissionOverrides((prev) => ({ ...prev, [userId]: current }));
+      notify('error', 'Unable to update permissions.');
+    } finally {
+      setBusyPermissionId(null);
+    }
   };
 
   return (
@@ -500,13 +530,15 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
           <h3 className="text-xl font-semibold text-slate-900">Customers</h3>
           <p className="form-hint text-sm text-slate-500">Monitor customer accounts and status.</p>
         </div>
-        <button
-          className="button button-primary rounded-full px-4 py-2 text-sm font-medium"
-          type="button"
-          onClick={() => setEditor({ mode: 'create', id: null, username: '', email: '', role: 'USER', status: 'ACTIVE' })}
-        >
-          Create user
-        </button>
+        {canWriteUsers && (
+          <button
+            className="button button-primary rounded-full px-4 py-2 text-sm font-medium"
+            type="button"
+            onClick={() => setEditor({ mode: 'create', id: null, username: '', email: '', role: 'USER', status: 'ACTIVE', reason: '' })}
+          >
+            Create user
+          </button>
+        )}
       </div>
       <div className="customer-kpi-grid mb-4 grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
         <article className="customer-kpi-card grid gap-1 rounded-xl border border-slate-200 bg-slate-50 p-4"><p>Total users</p><strong>{summary.total}</strong><span>{summary.activeWeek} active this week</span></article>
@@ -539,9 +571,9 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
 
       <div className="customer-bulk-bar mb-4 flex flex-wrap items-center gap-2 rounded-lg border border-dashed border-slate-300 bg-slate-50 p-3">
         <span>{selectedIds.length} selected</span>
-        <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => selectedIds.length && setStatusOverrides((prev) => ({ ...prev, ...Object.fromEntries(selectedIds.map((id) => [id, 'DISABLED'])) }))}>Disable selected</button>
-        <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => selectedIds.length && setStatusOverrides((prev) => ({ ...prev, ...Object.fromEntries(selectedIds.map((id) => [id, 'BANNED'])) }))}>Ban selected</button>
-        <button className="button button-danger rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => selectedIds.length && setConfirmBulkDelete(true)} disabled={isBulkDeleting || selectedIds.length === 0}>{isBulkDeleting ? 'Deleting...' : 'Delete selected'}</button>
+        <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => selectedIds.length && setStatusOverrides((prev) => ({ ...prev, ...Object.fromEntries(selectedIds.map((id) => [id, 'DISABLED'])) }))} disabled={!canManageSecurity}>Disable selected</button>
+        <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => selectedIds.length && setStatusOverrides((prev) => ({ ...prev, ...Object.fromEntries(selectedIds.map((id) => [id, 'BANNED'])) }))} disabled={!canManageSecurity}>Ban selected</button>
+        <button className="button button-danger rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => selectedIds.length && setConfirmBulkDelete(true)} disabled={!canWriteUsers || isBulkDeleting || selectedIds.length === 0}>{isBulkDeleting ? 'Deleting...' : 'Delete selected'}</button>
       </div>
 
       {loading ? (
@@ -561,7 +593,7 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
                   <tr key={row.id} className="customer-row transition-colors hover:bg-blue-50/50">
                     <td><input type="checkbox" checked={selectedIds.includes(row.id)} onChange={() => toggleSelection(row.id)} /></td>
                     <td><div className="customer-user-cell flex items-center gap-3"><div className="customer-avatar" aria-hidden="true">{getInitial(row.username)}</div><div><div className="customer-name">{row.username}</div><div className="customer-email">{row.email}</div><div className="customer-id">ID: {row.id}</div></div></div></td>
-                    <td><select className="toolbar-input customer-inline-select h-10 w-36 rounded-md border border-slate-300 bg-white px-3 text-sm focus:border-blue-500 focus:outline-none" value={row.role} onChange={(event) => void updateRole(row.id, event.target.value as CustomerRole)} disabled={busyRoleId === row.id}><option value="ADMIN">Admin</option><option value="USER">User</option></select></td>
+                    <td><select className="toolbar-input customer-inline-select h-10 w-36 rounded-md border border-slate-300 bg-white px-3 text-sm focus:border-blue-500 focus:outline-none" value={row.role} onChange={(event) => void updateRole(row.id, event.target.value as CustomerRole)} disabled={!canManageRoles || busyRoleId === row.id}><option value="ADMIN">Admin</option><option value="USER">User</option></select></td>
                     <td><div className="customer-status-pill flex items-center gap-2"><span className={`inline-flex items-center gap-1.5 rounded-full px-3 py-1.5 text-xs font-semibold ring-1 ${statusToneClass[row.status]}`}>{row.status === 'BANNED' && <span aria-label="banned">🚫</span>}{row.status}</span></div></td>
                     <td><div className="cell-strong">{row.activity.orders} orders</div><div className="cell-sub">{formatCurrency(row.activity.spent)} spent</div><div className="cell-sub">Last seen: {formatDateTime(row.activity.lastSeenAt)}</div></td>
                     <td><span className={`customer-role-chip inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ring-1 ${roleToneClass[row.role]}`}>{roleLabel[row.role]}</span><div className="cell-sub">Permissions: {accessLevel(row.permissions.length)}</div></td>
@@ -579,19 +611,24 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
                         </button>
                         {openActionUserId === row.id && (
                           <div className={`customer-action-menu${shouldOpenUp ? ' is-up' : ''} rounded-lg border border-slate-200 bg-white shadow-xl`} role="menu" style={{ zIndex: 9999 }}>
-                            <button type="button" className="w-full px-4 py-2.5 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors flex items-center gap-2" onClick={() => runAction('edit', row)}>✏️ Edit user</button>
-                            <button type="button" className="w-full px-4 py-2.5 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors flex items-center gap-2" onClick={() => runAction('reset', row)}>🔑 Reset password</button>
-                            <button type="button" className="w-full px-4 py-2.5 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors flex items-center gap-2" onClick={() => runAction('activity', row)}>📊 View activity</button>
-                            <button type="button" className="w-full px-4 py-2.5 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors flex items-center gap-2" onClick={() => runAction('permissions', row)}>🔐 Control permissions</button>
+                            {canWriteUsers && <button type="button" className="w-full px-4 py-2.5 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors flex items-center gap-2" onClick={() => runAction('edit', row)}>✏️ Edit user</button>}
+                            {canResetPasswords && <button type="button" className="w-full px-4 py-2.5 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors flex items-center gap-2" onClick={() => runAction('reset', row)}>🔑 Reset password</button>}
+                            {canViewActivity && <button type="button" className="w-full px-4 py-2.5 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors flex items-center gap-2" onClick={() => runAction('activity', row)}>📊 View activity</button>}
+                            <button type="button" className="w-full px-4 py-2.5 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors flex items-center gap-2" onClick={() => runAction('permissions', row)}>🔐 {canManagePermissions ? 'Control permissions' : 'View permissions'}</button>
+                            {canImpersonateRow(row) && <button type="button" className="w-full px-4 py-2.5 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors flex items-center gap-2" onClick={() => runAction('impersonate', row)}>👁️ View as customer</button>}
                             <div className="border-t border-slate-200 my-1" />
                             <div className="px-2 py-1.5">
                               <p className="text-xs font-medium text-slate-500 px-2 py-1.5">Change Status</p>
-                              <button type="button" className={`w-full text-left text-xs font-medium rounded px-2 py-1.5 flex items-center gap-2 transition-colors ${row.status === 'ACTIVE' ? 'bg-emerald-100 text-emerald-700' : 'text-slate-600 hover:bg-slate-100'}`} onClick={() => void updateStatus(row.id, 'ACTIVE')} disabled={busyStatusId === row.id}>✓ Active</button>
-                              <button type="button" className={`w-full text-left text-xs font-medium rounded px-2 py-1.5 flex items-center gap-2 transition-colors ${row.status === 'DISABLED' ? 'bg-amber-100 text-amber-700' : 'text-slate-600 hover:bg-slate-100'}`} onClick={() => void updateStatus(row.id, 'DISABLED')} disabled={busyStatusId === row.id}>⊘ Disabled</button>
-                              <button type="button" className={`w-full text-left text-xs font-medium rounded px-2 py-1.5 flex items-center gap-2 transition-colors ${row.status === 'BANNED' ? 'bg-rose-100 text-rose-700' : 'text-slate-600 hover:bg-slate-100'}`} onClick={() => void updateStatus(row.id, 'BANNED')} disabled={busyStatusId === row.id}>🚫 Banned</button>
+                              <button type="button" className={`w-full text-left text-xs font-medium rounded px-2 py-1.5 flex items-center gap-2 transition-colors ${row.status === 'ACTIVE' ? 'bg-emerald-100 text-emerald-700' : 'text-slate-600 hover:bg-slate-100'}`} onClick={() => void updateStatus(row.id, 'ACTIVE')} disabled={!canManageSecurity || busyStatusId === row.id}>✓ Active</button>
+                              <button type="button" className={`w-full text-left text-xs font-medium rounded px-2 py-1.5 flex items-center gap-2 transition-colors ${row.status === 'DISABLED' ? 'bg-amber-100 text-amber-700' : 'text-slate-600 hover:bg-slate-100'}`} onClick={() => void updateStatus(row.id, 'DISABLED')} disabled={!canManageSecurity || busyStatusId === row.id}>⊘ Disabled</button>
+                              <button type="button" className={`w-full text-left text-xs font-medium rounded px-2 py-1.5 flex items-center gap-2 transition-colors ${row.status === 'BANNED' ? 'bg-rose-100 text-rose-700' : 'text-slate-600 hover:bg-slate-100'}`} onClick={() => void updateStatus(row.id, 'BANNED')} disabled={!canManageSecurity || busyStatusId === row.id}>🚫 Banned</button>
                             </div>
-                            <div className="border-t border-slate-200 my-1" />
-                            <button type="button" className="w-full text-left px-4 py-2.5 text-sm text-rose-600 hover:bg-rose-50 transition-colors flex items-center gap-2" onClick={() => runAction('delete', row)} disabled={busyDeleteId === row.id}>{busyDeleteId === row.id ? '⏳ Deleting...' : '🗑️ Delete user'}</button>
+                            {canWriteUsers && (
+                              <>
+                                <div className="border-t border-slate-200 my-1" />
+                                <button type="button" className="w-full text-left px-4 py-2.5 text-sm text-rose-600 hover:bg-rose-50 transition-colors flex items-center gap-2" onClick={() => runAction('delete', row)} disabled={busyDeleteId === row.id}>{busyDeleteId === row.id ? '⏳ Deleting...' : '🗑️ Delete user'}</button>
+                              </>
+                            )}
                           </div>
                         )}
                       </div>
@@ -609,17 +646,18 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
               <article key={row.id} className="customer-mobile-card rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
                 <div className="customer-mobile-head"><div className="customer-user-cell"><div className="customer-avatar" aria-hidden="true">{getInitial(row.username)}</div><div><div className="customer-name">{row.username}</div><div className="customer-email">{row.email}</div><div className="customer-id">ID: {row.id}</div></div></div><input type="checkbox" checked={selectedIds.includes(row.id)} onChange={() => toggleSelection(row.id)} /></div>
                 <div className="customer-mobile-grid grid gap-3 sm:grid-cols-2">
-                  <label className="form-label"><span>Role</span><select className="form-input mt-1 h-10 rounded-md border border-slate-300 px-3 text-sm focus:border-blue-500 focus:outline-none" value={row.role} onChange={(event) => void updateRole(row.id, event.target.value as CustomerRole)} disabled={busyRoleId === row.id}><option value="ADMIN">Admin</option><option value="USER">User</option></select></label>
-                  <div className="form-label"><span>Status</span><div className="mt-1 flex gap-1.5 flex-wrap"><button className={`px-2.5 py-1.5 rounded-full text-xs font-semibold ring-1 transition-all ${row.status === 'ACTIVE' ? statusToneClass['ACTIVE'] : 'bg-slate-100 text-slate-600 ring-slate-300 hover:bg-emerald-50'}`} onClick={() => void updateStatus(row.id, 'ACTIVE')} disabled={busyStatusId === row.id}>✓ Active</button><button className={`px-2.5 py-1.5 rounded-full text-xs font-semibold ring-1 transition-all ${row.status === 'DISABLED' ? statusToneClass['DISABLED'] : 'bg-slate-100 text-slate-600 ring-slate-300 hover:bg-amber-50'}`} onClick={() => void updateStatus(row.id, 'DISABLED')} disabled={busyStatusId === row.id}>⊘ Disabled</button><button className={`px-2.5 py-1.5 rounded-full text-xs font-semibold ring-1 transition-all ${row.status === 'BANNED' ? statusToneClass['BANNED'] : 'bg-slate-100 text-slate-600 ring-slate-300 hover:bg-rose-50'}`} onClick={() => void updateStatus(row.id, 'BANNED')} disabled={busyStatusId === row.id}>🚫 Banned</button></div></div>
+                  <label className="form-label"><span>Role</span><select className="form-input mt-1 h-10 rounded-md border border-slate-300 px-3 text-sm focus:border-blue-500 focus:outline-none" value={row.role} onChange={(event) => void updateRole(row.id, event.target.value as CustomerRole)} disabled={!canManageRoles || busyRoleId === row.id}><option value="ADMIN">Admin</option><option value="USER">User</option></select></label>
+                  <div className="form-label"><span>Status</span><div className="mt-1 flex gap-1.5 flex-wrap"><button className={`px-2.5 py-1.5 rounded-full text-xs font-semibold ring-1 transition-all ${row.status === 'ACTIVE' ? statusToneClass['ACTIVE'] : 'bg-slate-100 text-slate-600 ring-slate-300 hover:bg-emerald-50'}`} onClick={() => void updateStatus(row.id, 'ACTIVE')} disabled={!canManageSecurity || busyStatusId === row.id}>✓ Active</button><button className={`px-2.5 py-1.5 rounded-full text-xs font-semibold ring-1 transition-all ${row.status === 'DISABLED' ? statusToneClass['DISABLED'] : 'bg-slate-100 text-slate-600 ring-slate-300 hover:bg-amber-50'}`} onClick={() => void updateStatus(row.id, 'DISABLED')} disabled={!canManageSecurity || busyStatusId === row.id}>⊘ Disabled</button><button className={`px-2.5 py-1.5 rounded-full text-xs font-semibold ring-1 transition-all ${row.status === 'BANNED' ? statusToneClass['BANNED'] : 'bg-slate-100 text-slate-600 ring-slate-300 hover:bg-rose-50'}`} onClick={() => void updateStatus(row.id, 'BANNED')} disabled={!canManageSecurity || busyStatusId === row.id}>🚫 Banned</button></div></div>
                 </div>
                 <div className="customer-mobile-meta flex flex-wrap items-center gap-2"><span className={`customer-role-chip inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ring-1 ${roleToneClass[row.role]}`}>{roleLabel[row.role]}</span><span className={`inline-flex items-center gap-1.5 rounded-full px-3 py-1.5 text-xs font-semibold ring-1 ${statusToneClass[row.status]}`}>{row.status === 'BANNED' && <span aria-label="banned">🚫</span>}{row.status}</span></div>
                 <div className="cell-sub">{row.activity.orders} orders • {formatCurrency(row.activity.spent)} spent</div>
                 <div className="cell-sub">Last seen: {formatDateTime(row.activity.lastSeenAt)}</div>
                 <div className="customer-mobile-actions grid gap-2 sm:grid-cols-2">
-                  <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => runAction('activity', row)}>View activity</button>
+                  {canViewActivity && <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => runAction('activity', row)}>View activity</button>}
                   <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => runAction('permissions', row)}>Permissions</button>
-                  <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => runAction('edit', row)}>Edit</button>
-                  <button className="button button-danger rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => runAction('delete', row)}>Delete</button>
+                  {canImpersonateRow(row) && <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => runAction('impersonate', row)}>View as customer</button>}
+                  {canWriteUsers && <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => runAction('edit', row)}>Edit</button>}
+                  {canWriteUsers && <button className="button button-danger rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => runAction('delete', row)}>Delete</button>}
                 </div>
               </article>
             ))}
@@ -667,8 +705,11 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
             <div className="customer-modal-grid grid gap-3 md:grid-cols-2">
               <label className="form-label"><span>Full name</span><input className="form-input mt-1 h-10 rounded-md border border-slate-300 px-3 text-sm focus:border-blue-500 focus:outline-none" value={editor.username} onChange={(event) => setEditor((prev) => (prev ? { ...prev, username: event.target.value } : prev))} /></label>
               <label className="form-label"><span>Email</span><input className="form-input mt-1 h-10 rounded-md border border-slate-300 px-3 text-sm focus:border-blue-500 focus:outline-none" type="email" value={editor.email} onChange={(event) => setEditor((prev) => (prev ? { ...prev, email: event.target.value } : prev))} /></label>
-              <label className="form-label"><span>Role</span><select className="form-input mt-1 h-10 rounded-md border border-slate-300 px-3 text-sm focus:border-blue-500 focus:outline-none" value={editor.role} onChange={(event) => setEditor((prev) => (prev ? { ...prev, role: event.target.value as CustomerRole } : prev))}><option value="ADMIN">Admin</option><option value="USER">User</option></select></label>
-              <label className="form-label"><span>Status</span><select className="form-input mt-1 h-10 rounded-md border border-slate-300 px-3 text-sm focus:border-blue-500 focus:outline-none" value={editor.status} onChange={(event) => setEditor((prev) => (prev ? { ...prev, status: event.target.value as CustomerStatus } : prev))}><option value="ACTIVE">Active</option><option value="DISABLED">Disabled</option><option value="BANNED">Banned</option></select></label>
+              <label className="form-label"><span>Role</span><select className="form-input mt-1 h-10 rounded-md border border-slate-300 px-3 text-sm focus:border-blue-500 focus:outline-none" value={editor.role} onChange={(event) => setEditor((prev) => (prev ? { ...prev, role: event.target.value as CustomerRole } : prev))} disabled={!canManageRoles}><option value="ADMIN">Admin</option><option value="USER">User</option></select></label>
+              <label className="form-label"><span>Status</span><select className="form-input mt-1 h-10 rounded-md border border-slate-300 px-3 text-sm focus:border-blue-500 focus:outline-none" value={editor.status} onChange={(event) => setEditor((prev) => (prev ? { ...prev, status: event.target.value as CustomerStatus } : prev))} disabled={!canManageSecurity}><option value="ACTIVE">Active</option><option value="DISABLED">Disabled</option><option value="BANNED">Banned</option></select></label>
+              {editor.mode === 'edit' && (
+                <label className="form-label md:col-span-2"><span>Reason for role or status change (optional)</span><input className="form-input mt-1 h-10 rounded-md border border-slate-300 px-3 text-sm focus:border-blue-500 focus:outline-none" value={editor.reason} maxLength={200} placeholder="Kept in the audit log" onChange={(event) => setEditor((prev) => (prev ? { ...prev, reason: event.target.value } : prev))} /></label>
+              )}
             </div>
             <div className="form-actions flex flex-wrap justify-end gap-2">
               <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => setEditor(null)}>Cancel</button>
@@ -682,11 +723,11 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
         <div className="customer-modal-backdrop fixed inset-0 z-[90] grid place-items-center bg-slate-900/50 p-4 backdrop-blur-sm" role="presentation" onClick={() => setPermissionUserId(null)}>
           <div className="customer-modal grid w-full max-w-3xl gap-4 rounded-xl border border-slate-200 bg-white p-6 shadow-2xl" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
             <h4 className="text-lg font-semibold text-slate-900">Permissions: {permissionTarget.username}</h4>
-            <p className="form-hint">Enable or revoke individual access rules.</p>
+            <p className="form-hint">{canManagePermissions ? 'Enable or revoke individual access rules. Changes apply at their next sign-in or session refresh.' : 'You can view these access rules but not change them.'}</p>
             <div className="customer-permissions-grid grid gap-2 md:grid-cols-2">
-              {(Object.keys(PERMISSION_LABELS) as PermissionKey[]).map((key) => (
+              {PERMISSION_KEYS.map((key) => (
                 <label key={key} className="customer-permission-item flex items-center gap-2 rounded-md border border-slate-200 bg-slate-50 p-3 text-sm">
-                  <input type="checkbox" checked={permissionTarget.permissions.includes(key)} onChange={() => togglePermission(permissionTarget.id, key)} />
+                  <input type="checkbox" checked={permissionTarget.permissions.includes(key)} onChange={() => void togglePermission(permissionTarget.id, key)} disabled={!canManagePermissions || busyPermissionId === permissionTarget.id} />
                   <span>{PERMISSION_LABELS[key]}</span>
                 </label>
               ))}
@@ -696,6 +737,20 @@ const CustomerControlPanel = ({ users, orders, loading, onDeleteUser, onChangeUs
         </div>
       )}
 
+      {impersonateTarget && (
+        <div className="customer-modal-backdrop fixed inset-0 z-[90] grid place-items-center bg-slate-900/50 p-4 backdrop-blur-sm" role="presentation" onClick={() => setImpersonateUserId(null)}>
+          <div className="customer-modal customer-confirm-modal grid w-full max-w-xl gap-4 rounded-xl border border-slate-200 bg-white p-6 shadow-2xl" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+            <h4 className="text-lg font-semibold text-slate-900">View as {impersonateTarget.username}</h4>
+            <p className="form-hint">You will see the shop exactly as this customer does for up to 15 minutes. Nothing can be ordered, posted or changed on their behalf, and the session is recorded in the audit log.</p>
+            <label className="form-label"><span>Reason (optional)</span><input className="form-input mt-1 h-10 rounded-md border border-slate-300 px-3 text-sm focus:border-blue-500 focus:outline-none" placeholder="e.g. support ticket #1234" value={impersonationReason} onChange={(event) => setImpersonationReason(event.target.value)} maxLength={200} /></label>
+            <div className="form-actions flex flex-wrap justify-end gap-2">
+              <button className="button button-ghost rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => setImpersonateUserId(null)} disabled={isStartingImpersonation}>Cancel</button>
+              <button className="button button-primary rounded-full px-3 py-1.5 text-sm" type="button" onClick={() => void startImpersonation(impersonateTarget)} disabled={isStartingImpersonation}>{isStartingImpersonation ? 'Starting...' : 'View as customer'}</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {activityTarget && (
         <div className="customer-modal-backdrop fixed inset-0 z-[90] grid place-items-center bg-slate-900/50 p-4 backdrop-blur-sm" role="presentation" onClick={() => setActivityUserId(null)}>
           <div className="customer-modal grid w-full max-w-3xl gap-4 rounded-xl border border-slate-200 bg-white p-6 shadow-2xl" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
@@ -0,0 +1,367 @@
+import { useEffect, useState } from 'react';
+import { useFieldArray, useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { mutate } from 'swr';
+import { useMessage } from '../../hooks/useMessage';
+import { PRICING_KEY } from '../../hooks/usePricing';
+import { pricingFormSchema, type PricingFormData } from '../../lib/validationSchemas';
+import { applyApiFieldErrors } from '../../lib/formErrors';
+import { getErrorMessage } from '../../services/apiError';
+import { getPricingRules, updatePricingRules } from '../../services/pricing';
+import type { PricingRules } from '../../types/pricing';
+import { SHIPPING_COUNTRIES } from '../../utils/pricing';
+
+const PRICING_FORM_FIELDS = [
+  'defaultTaxRate',
+  'taxRates',
+  'shippingBasis',
+  'shippingRates',
+  'defaultItemWeight',
+  'freeShipping',
+] as const;
+
+const toFormData = (rules: PricingRules): PricingFormData => ({
+  defaultTaxRate: String(rules.defaultTaxRate),
+  taxRates: rules.taxRates.map((rate) => ({
+    country: rate.country,
+    postalPrefix: rate.postalPrefix ?? '',
+    rate: String(rate.rate),
+    label: rate.label,
+  })),
+  shippingBasis: rules.shippingBasis,
+  shippingRates: rules.shippingRates.map((rate) => ({
+    upTo: rate.upTo === null ? '' : String(rate.upTo),
+    amount: String(rate.amount),
+  })),
+  defaultItemWeight: String(rules.defaultItemWeight),
+  freeShipping: rules.freeShipping.map((rule) => ({
+    minSubtotal: String(rule.minSubtotal),
+    countries: rule.countries.join(', '),
+  })),
+});
+
+const toRequest = (data: PricingFormData): Omit<PricingRules, 'updatedAt'> => ({
+  defaultTaxRate: Number(data.defaultTaxRate),
+  taxRates: data.taxRates.map((rate) => ({
+    country: rate.country,
+    postalPrefix: rate.postalPrefix.trim().toUpperCase() || null,
+    rate: Number(rate.rate),
+    label: rate.label.trim(),
+  })),
+  shippingBasis: data.shippingBasis,
+  shippingRates: data.shippingRates.map((rate) => ({
+    upTo: rate.upTo.trim() ? Number(rate.upTo) : null,
+    amount: Number(rate.amount),
+  })),
+  defaultItemWeight: Number(data.defaultItemWeight),
+  freeShipping: data.freeShipping.map((rule) => ({
+    minSubtotal: Number(rule.minSubtotal),
+    countries: rule.countries
+      .split(',')
+      .map((country) => country.trim().toUpperCase())
+      .filter(Boolean),
+  })),
+});
+
+const PricingTab = () => {
+  const { showMessage } = useMessage();
+  const [loading, setLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isDirty },
+    reset,
+    setError,
+    control,
+  } = useForm<PricingFormData>({
+    resolver: zodResolver(pricingFormSchema),
+  });
+  const taxRates = useFieldArray({ control, name: 'taxRates' });
+  const shippingRates = useFieldArray({ control, name: 'shippingRates' });
+  const freeShipping = useFieldArray({ control, name: 'freeShipping' });
+  const shippingBasis = useWatch({ control, name: 'shippingBasis' });
+  const unit = shippingBasis === 'WEIGHT' ? 'kg' : '$';
+
+  const applyRules = (rules: PricingRules) => {
+    reset(toFormData(rules));
+    setUpdatedAt(rules.updatedAt);
+  };
+
+  const loadRules = async () => {
+    setLoading(true);
+    try {
+      applyRules(await getPricingRules());
+    } catch {
+      showMessage('error', 'Unable to load tax and shipping rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadRules();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const onSubmit = async (data: PricingFormData) => {
+    setIsSaving(true);
+    try {
+      const saved = await updatePricingRules(toRequest(data));
+      applyRules(saved);
+      // Carts open in this tab pick up the new totals straight away
+      void mutate(PRICING_KEY, saved, { revalidate: false });
+      showMessage('success', 'Tax and shipping rules saved');
+    } catch (err) {
+      if (applyApiFieldErrors(err, setError, PRICING_FORM_FIELDS)) {
+        showMessage('error', 'Please fix the highlighted fields.');
+      } else {
+        showMessage('error', getErrorMessage(err) || 'Unable to save tax and shipping rules');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const listError = (error?: { message?: string; root?: { message?: string } }) => {
+    const message = error?.message ?? error?.root?.message;
+    return message ? <span className="form-error">{message}</span> : null;
+  };
+
+  return (
+    <section className="panel">
+      <div className="panel-header">
+        <div>
+          <h3>Tax &amp; shipping</h3>
+          <p className="form-hint">
+            The cart, checkout and every new order are priced with these rules.
+            {updatedAt && ` Last changed ${new Date(updatedAt).toLocaleString()}.`}
+          </p>
+        </div>
+        <button className="button button-ghost" type="button" onClick={() => void loadRules()} disabled={loading || isSaving}>
+          {loading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {loading && taxRates.fields.length === 0 && shippingRates.fields.length === 0 ? (
+        <div className="table-skeleton">
+          <div className="skeleton-row" />
+          <div className="skeleton-row" />
+          <div className="skeleton-row" />
+        </div>
+      ) : (
+        <form className="admin-form" onSubmit={handleSubmit(onSubmit)} noValidate>
+          <h4>Tax</h4>
+          <label className="form-label">
+            <span>Default tax rate (%) *</span>
+            <input className="form-input" type="number" step="0.001" min="0" max="100" {...register('defaultTaxRate')} />
+            {errors.defaultTaxRate && <span className="form-error">{errors.defaultTaxRate.message}</span>}
+          </label>
+          <p className="form-hint">
+            Used until the shopper enters an address, and for addresses no rate below covers. Within a country the rate
+            with the longest matching postal prefix wins.
+          </p>
+          {taxRates.fields.length > 0 && (
+            <div className="table-wrapper">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Country</th>
+                    <th>Postal prefix</th>
+                    <th>Rate (%)</th>
+                    <th>Name</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {taxRates.fields.map((field, index) => (
+                    <tr key={field.id}>
+                      <td>
+                        <select className="form-input" {...register(`taxRates.${index}.country`)}>
+                          <option value="">Choose...</option>
+                          {Object.entries(SHIPPING_COUNTRIES).map(([code, name]) => (
+                            <option key={code} value={code}>
+                              {name}
+                            </option>
+                          ))}
+                        </select>
+                        {errors.taxRates?.[index]?.country && (
+                          <span className="form-error">{errors.taxRates[index].country.message}</span>
+                        )}
+                      </td>
+                      <td>
+                        <input className="form-input" placeholder="Whole country" {...register(`taxRates.${index}.postalPrefix`)} />
+                        {errors.taxRates?.[index]?.postalPrefix && (
+                          <span className="form-error">{errors.taxRates[index].postalPrefix.message}</span>
+                        )}
+                      </td>
+                      <td>
+                        <input className="form-input" type="number" step="0.001" min="0" max="100" {...register(`taxRates.${index}.rate`)} />
+                        {errors.taxRates?.[index]?.rate && (
+                          <span className="form-error">{errors.taxRates[index].rate.message}</span>
+                        )}
+                      </td>
+                      <td>
+                        <input className="form-input" placeholder="e.g. VAT" {...register(`taxRates.${index}.label`)} />
+                        {errors.taxRates?.[index]?.label && (
+                          <span className="form-error">{errors.taxRates[index].label.message}</span>
+                        )}
+                      </td>
+                      <td>
+                        <button className="button button-ghost button-sm" type="button" onClick={() => taxRates.remove(index)}>
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {listError(errors.taxRates)}
+          <div>
+            <button
+              className="button button-ghost button-sm"
+              type="button"
+              onClick={() => taxRates.append({ country: '', postalPrefix: '', rate: '', label: '' })}
+            >
+              Add tax rate
+            </button>
+          </div>
+
+          <h4>Shipping</h4>
+          <div className="form-grid">
+            <label className="form-label">
+              <span>Price shipping by *</span>
+              <select className="form-input" {...register('shippingBasis')}>
+                <option value="SUBTOTAL">Order subtotal</option>
+                <option value="WEIGHT">Order weight</option>
+              </select>
+            </label>
+            <label className="form-label">
+              <span>Default item weight (kg) *</span>
+              <input className="form-input" type="number" step="0.01" min="0" {...register('defaultItemWeight')} />
+              {errors.defaultItemWeight && <span className="form-error">{errors.defaultItemWeight.message}</span>}
+            </label>
+          </div>
+          <p className="form-hint">
+            The first rate whose limit covers the order applies; leave the limit empty for &quot;and above&quot;. Products
+            without a weight count as the default item weight.
+          </p>
+          <div className="table-wrapper">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>{shippingBasis === 'WEIGHT' ? 'Weight up to (kg)' : 'Subtotal up to ($)'}</th>
+                  <th>Price ($)</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {shippingRates.fields.map((field, index) => (
+                  <tr key={field.id}>
+                    <td>
+                      <input
+                        className="form-input"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder={`No limit (${unit})`}
+                        {...register(`shippingRates.${index}.upTo`)}
+                      />
+                      {errors.shippingRates?.[index]?.upTo && (
+                        <span className="form-error">{errors.shippingRates[index].upTo.message}</span>
+                      )}
+                    </td>
+                    <td>
+                      <input className="form-input" type="number" step="0.01" min="0" {...register(`shippingRates.${index}.amount`)} />
+                      {errors.shippingRates?.[index]?.amount && (
+                        <span className="form-error">{errors.shippingRates[index].amount.message}</span>
+                      )}
+                    </td>
+                    <td>
+                      <button className="button button-ghost button-sm" type="button" onClick={() => shippingRates.remove(index)}>
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {listError(errors.shippingRates)}
+          <div>
+            <button className="button button-ghost button-sm" type="button" onClick={() => shippingRates.append({ upTo: '', amount: '' })}>
+              Add shipping rate
+            </button>
+          </div>
+
+          <h4>Free shipping</h4>
+          <p className="form-hint">
+            Shipping is free once the discounted subtotal reaches the minimum. Leave countries empty to apply everywhere,
+            or list codes such as US, CA.
+          </p>
+          {freeShipping.fields.length > 0 && (
+            <div className="table-wrapper">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Minimum subtotal ($)</th>
+                    <th>Countries</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {freeShipping.fields.map((field, index) => (
+                    <tr key={field.id}>
+                      <td>
+                        <input className="form-input" type="number" step="0.01" min="0" {...register(`freeShipping.${index}.minSubtotal`)} />
+                        {errors.freeShipping?.[index]?.minSubtotal && (
+                          <span className="form-error">{errors.freeShipping[index].minSubtotal.message}</span>
+                        )}
+                      </td>
+                      <td>
+                        <input className="form-input" placeholder="Everywhere" {...register(`freeShipping.${index}.countries`)} />
+                        {errors.freeShipping?.[index]?.countries && (
+                          <span className="form-error">{errors.freeShipping[index].countries.message}</span>
+                        )}
+                      </td>
+                      <td>
+                        <button className="button button-ghost button-sm" type="button" onClick={() => freeShipping.remove(index)}>
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {listError(errors.freeShipping)}
+          <div>
+            <button
+              className="button button-ghost button-sm"
+              type="button"
+              onClick={() => freeShipping.append({ minSubtotal: '', countries: '' })}
+            >
+              Add free shipping rule
+            </button>
+          </div>
+
+          <div className="form-actions">
+            <button className="button button-ghost" type="button" onClick={() => void loadRules()} disabled={isSaving || !isDirty}>
+              Discard changes
+            </button>
+            <button className="button button-primary" type="submit" disabled={isSaving || !isDirty}>
+              {isSaving ? 'Saving...' : 'Save rules'}
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default PricingTab;
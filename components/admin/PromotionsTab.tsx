@@ -0,0 +1,450 @@
+import { useEffect, useState } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMessage } from '../../hooks/useMessage';
+import { promotionFormSchema, type PromotionFormData } from '../../lib/validationSchemas';
+import { applyApiFieldErrors } from '../../lib/formErrors';
+import { getErrorMessage } from '../../services/apiError';
+import { createPromotion, deletePromotion, listPromotions, updatePromotion } from '../../services/promotions';
+import type { Promotion, PromotionRequest, PromotionType } from '../../types/promotion';
+import { formatCurrency } from '../../utils/format';
+import { describePromotion } from '../../utils/promotions';
+
+const PROMOTION_FORM_FIELDS = [
+  'code',
+  'description',
+  'type',
+  'value',
+  'buyQuantity',
+  'getQuantity',
+  'minSpend',
+  'productIds',
+  'categories',
+  'startsAt',
+  'expiresAt',
+  'usageLimit',
+] as const;
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+  PERCENTAGE: 'Percentage off',
+  FIXED_AMOUNT: 'Fixed amount off',
+  FREE_SHIPPING: 'Free shipping',
+  BUY_X_GET_Y: 'Buy X, get Y free',
+};
+
+const EMPTY_FORM: PromotionFormData = {
+  code: '',
+  description: '',
+  type: 'PERCENTAGE',
+  value: '',
+  buyQuantity: '',
+  getQuantity: '',
+  minSpend: '',
+  productIds: '',
+  categories: '',
+  startsAt: '',
+  expiresAt: '',
+  usageLimit: '',
+  active: true,
+};
+
+// Date inputs give calendar days; a promotion starts at the beginning of its first day and ends after its last
+const startOfDay = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : null);
+const endOfDay = (day: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : null);
+const toDayInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const toFormData = (promotion: Promotion): PromotionFormData => ({
+  code: promotion.code,
+  description: promotion.description ?? '',
+  type: promotion.type,
+  value: promotion.type === 'PERCENTAGE' || promotion.type === 'FIXED_AMOUNT' ? String(promotion.value) : '',
+  buyQuantity: promotion.buyQuantity === null ? '' : String(promotion.buyQuantity),
+  getQuantity: promotion.getQuantity === null ? '' : String(promotion.getQuantity),
+  minSpend: promotion.minSpend === null ? '' : String(promotion.minSpend),
+  productIds: promotion.productIds.join(', '),
+  categories: promotion.categories.join(', '),
+  startsAt: toDayInput(promotion.startsAt),
+  expiresAt: toDayInput(promotion.expiresAt),
+  usageLimit: promotion.usageLimit === null ? '' : String(promotion.usageLimit),
+  active: promotion.active,
+});
+
+// Days left as they were keep the saved time, so an edit elsewhere does not move the dates
+const toRequest = (data: PromotionFormData, original?: Promotion): PromotionRequest => ({
+  code: data.code.toUpperCase(),
+  description: data.description.trim() || null,
+  type: data.type,
+  value: data.type === 'PERCENTAGE' || data.type === 'FIXED_AMOUNT' ? Number(data.value) : 0,
+  buyQuantity: data.type === 'BUY_X_GET_Y' ? Number(data.buyQuantity) : null,
+  getQuantity: data.type === 'BUY_X_GET_Y' ? Number(data.getQuantity) : null,
+  minSpend: data.minSpend.trim() ? Number(data.minSpend) : null,
+  productIds: splitList(data.productIds).map(Number),
+  categories: splitList(data.categories),
+  startsAt:
+    original && toDayInput(original.startsAt) === data.startsAt ? original.startsAt : startOfDay(data.startsAt),
+  expiresAt:
+    original && toDayInput(original.expiresAt) === data.expiresAt ? original.expiresAt : endOfDay(data.expiresAt),
+  usageLimit: data.usageLimit.trim() ? Number(data.usageLimit) : null,
+  active: data.active,
+});
+
+const toPromotionRequest = (promotion: Promotion): PromotionRequest => ({
+  code: promotion.code,
+  description: promotion.description,
+  type: promotion.type,
+  value: promotion.value,
+  buyQuantity: promotion.buyQuantity,
+  getQuantity: promotion.getQuantity,
+  minSpend: promotion.minSpend,
+  productIds: promotion.productIds,
+  categories: promotion.categories,
+  startsAt: promotion.startsAt,
+  expiresAt: promotion.expiresAt,
+  active: promotion.active,
+  usageLimit: promotion.usageLimit,
+});
+
+const statusOf = (promotion: Promotion, now: number): { label: string; tone: string } => {
+  if (!promotion.active) return { label: 'Inactive', tone: 'status-neutral' };
+  if (promotion.expiresAt && Date.parse(promotion.expiresAt) <= now) return { label: 'Expired', tone: 'status-danger' };
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+    return { label: 'Used up', tone: 'status-danger' };
+  }
+  if (promotion.startsAt && Date.parse(promotion.startsAt) > now) return { label: 'Scheduled', tone: 'status-info' };
+  return { label: 'Active', tone: 'status-success' };
+};
+
+const describeConditions = (promotion: Promotion) => {
+  const conditions = [
+    promotion.minSpend !== null ? `Min. spend ${formatCurrency(promotion.minSpend)}` : null,
+    promotion.productIds.length > 0 ? `Products #${promotion.productIds.join(', #')}` : null,
+    promotion.categories.length > 0 ? promotion.categories.join(', ') : null,
+  ].filter(Boolean);
+  return conditions.length > 0 ? conditions.join(' · ') : 'Whole catalog';
+};
+
+const PromotionsTab = () => {
+  const { showMessage } = useMessage();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadedAt, setLoadedAt] = useState(0);
+  // null while the editor is closed, 'new' for a promotion that does not exist yet
+  const [editing, setEditing] = useState<Promotion | 'new' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [workingId, setWorkingId] = useState<number | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+    control,
+  } = useForm<PromotionFormData>({
+    resolver: zodResolver(promotionFormSchema),
+    defaultValues: EMPTY_FORM,
+  });
+  const type = useWatch({ control, name: 'type' });
+
+  const loadPromotions = async () => {
+    setLoading(true);
+    try {
+      setPromotions(await listPromotions());
+      setLoadedAt(Date.now());
+    } catch {
+      showMessage('error', 'Unable to load promotions');
+      setPromotions([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadPromotions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const openEditor = (promotion: Promotion | 'new') => {
+    reset(promotion === 'new' ? EMPTY_FORM : toFormData(promotion));
+    setEditing(promotion);
+  };
+
+  const closeEditor = () => {
+    reset(EMPTY_FORM);
+    setEditing(null);
+  };
+
+  const onSubmit = async (data: PromotionFormData) => {
+    setIsSaving(true);
+    try {
+      if (editing && editing !== 'new') {
+        await updatePromotion(editing.id, toRequest(data, editing));
+        showMessage('success', 'Promotion updated');
+      } else {
+        await createPromotion(toRequest(data));
+        showMessage('success', 'Promotion created');
+      }
+      closeEditor();
+      await loadPromotions();
+    } catch (err) {
+      if (applyApiFieldErrors(err, setError, PROMOTION_FORM_FIELDS)) {
+        showMessage('error', 'Please fix the highlighted fields.');
+      } else {
+        showMessage('error', getErrorMessage(err) || 'Unable to save promotion');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (promotion: Promotion) => {
+    setWorkingId(promotion.id);
+    try {
+      await updatePromotion(promotion.id, { ...toPromotionRequest(promotion), active: !promotion.active });
+      showMessage('success', promotion.active ? `${promotion.code} deactivated` : `${promotion.code} activated`);
+      await loadPromotions();
+    } catch (err) {
+      showMessage('error', getErrorMessage(err) || 'Unable to update promotion');
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    setWorkingId(promotion.id);
+    try {
+      await deletePromotion(promotion.id);
+      showMessage('success', `${promotion.code} deleted`);
+      setConfirmDeleteId(null);
+      if (editing !== 'new' && editing?.id === promotion.id) closeEditor();
+      await loadPromotions();
+    } catch (err) {
+      showMessage('error', getErrorMessage(err) || 'Unable to delete promotion');
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  return (
+    <section className="panel">
+      <div className="panel-header">
+        <div>
+          <h3>Promotions</h3>
+          <p className="form-hint">Promo codes shoppers can apply in the cart and at checkout.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button className="button button-primary" type="button" onClick={() => openEditor('new')} disabled={editing === 'new'}>
+            New promotion
+          </button>
+          <button className="button button-ghost" type="button" onClick={() => void loadPromotions()} disabled={loading}>
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      {editing !== null && (
+        <form className="admin-form" onSubmit={handleSubmit(onSubmit)} noValidate>
+          <h4>{editing === 'new' ? 'New promotion' : `Edit ${editing.code}`}</h4>
+          <div className="form-grid">
+            <label className="form-label">
+              <span>Code *</span>
+              <input className="form-input" placeholder="e.g. SUMMER20" {...register('code')} />
+              {errors.code && <span className="form-error">{errors.code.message}</span>}
+            </label>
+            <label className="form-label">
+              <span>Type *</span>
+              <select className="form-input" {...register('type')}>
+                {(Object.keys(TYPE_LABELS) as PromotionType[]).map((option) => (
+                  <option key={option} value={option}>
+                    {TYPE_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {(type === 'PERCENTAGE' || type === 'FIXED_AMOUNT') && (
+              <label className="form-label">
+                <span>{type === 'PERCENTAGE' ? 'Percent off *' : 'Amount off *'}</span>
+                <input className="form-input" type="number" step="0.01" min="0" {...register('value')} />
+                {errors.value && <span className="form-error">{errors.value.message}</span>}
+              </label>
+            )}
+            {type === 'BUY_X_GET_Y' && (
+              <>
+                <label className="form-label">
+                  <span>Buy *</span>
+                  <input className="form-input" type="number" min="1" {...register('buyQuantity')} />
+                  {errors.buyQuantity && <span className="form-error">{errors.buyQuantity.message}</span>}
+                </label>
+                <label className="form-label">
+                  <span>Get free *</span>
+                  <input className="form-input" type="number" min="1" {...register('getQuantity')} />
+                  {errors.getQuantity && <span className="form-error">{errors.getQuantity.message}</span>}
+                </label>
+              </>
+            )}
+          </div>
+
+          <label className="form-label">
+            <span>Description</span>
+            <input className="form-input" placeholder="Shown to shoppers once the code is applied" {...register('description')} />
+            {errors.description && <span className="form-error">{errors.description.message}</span>}
+          </label>
+
+          <div className="form-grid">
+            <label className="form-label">
+              <span>Minimum spend</span>
+              <input className="form-input" type="number" step="0.01" min="0" placeholder="No minimum" {...register('minSpend')} />
+              {errors.minSpend && <span className="form-error">{errors.minSpend.message}</span>}
+            </label>
+            <label className="form-label">
+              <span>Product ids</span>
+              <input className="form-input" placeholder="e.g. 4, 6" {...register('productIds')} />
+              {errors.productIds && <span className="form-error">{errors.productIds.message}</span>}
+            </label>
+            <label className="form-label">
+              <span>Categories</span>
+              <input className="form-input" placeholder="e.g. Office, Home" {...register('categories')} />
+            </label>
+          </div>
+          <p className="form-hint">Leave products and categories empty to cover the whole catalog.</p>
+
+          <div className="form-grid">
+            <label className="form-label">
+              <span>Starts</span>
+              <input className="form-input" type="date" {...register('startsAt')} />
+              {errors.startsAt && <span className="form-error">{errors.startsAt.message}</span>}
+            </label>
+            <label className="form-label">
+              <span>Expires</span>
+              <input className="form-input" type="date" {...register('expiresAt')} />
+              {errors.expiresAt && <span className="form-error">{errors.expiresAt.message}</span>}
+            </label>
+            <label className="form-label">
+              <span>Usage limit</span>
+              <input className="form-input" type="number" min="1" placeholder="Unlimited" {...register('usageLimit')} />
+              {errors.usageLimit && <span className="form-error">{errors.usageLimit.message}</span>}
+            </label>
+          </div>
+
+          <label className="form-label flex items-center gap-2">
+            <input type="checkbox" {...register('active')} />
+            <span>Active</span>
+          </label>
+
+          <div className="form-actions">
+            <button className="button button-ghost" type="button" onClick={closeEditor} disabled={isSaving}>
+              Cancel
+            </button>
+            <button className="button button-primary" type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : editing === 'new' ? 'Create promotion' : 'Save changes'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading && promotions.length === 0 ? (
+        <div className="table-skeleton">
+          <div className="skeleton-row" />
+          <div className="skeleton-row" />
+          <div className="skeleton-row" />
+        </div>
+      ) : promotions.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">🏷️</div>
+          <h3>No promotions yet</h3>
+          <p>Create a promo code to offer a discount.</p>
+        </div>
+      ) : (
+        <div className="table-wrapper">
+          <table className="table table-striped">
+            <thead>
+              <tr>
+                <th>Code</th>
+                <th>Discount</th>
+                <th>Applies to</th>
+                <th>Valid</th>
+                <th>Used</th>
+                <th>Status</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {promotions.map((promotion) => {
+                const status = statusOf(promotion, loadedAt);
+                return (
+                  <tr key={promotion.id}>
+                    <td>
+                      <span className="cell-strong cell-mono">{promotion.code}</span>
+                      {promotion.description && <div className="cell-sub">{promotion.description}</div>}
+                    </td>
+                    <td>{describePromotion(promotion)}</td>
+                    <td className="cell-sub">{describeConditions(promotion)}</td>
+                    <td className="cell-sub">
+                      {promotion.startsAt ? new Date(promotion.startsAt).toLocaleDateString() : 'Now'} –{' '}
+                      {promotion.expiresAt ? new Date(promotion.expiresAt).toLocaleDateString() : 'No expiry'}
+                    </td>
+                    <td>
+                      {promotion.usageCount}
+                      {promotion.usageLimit !== null && ` / ${promotion.usageLimit}`}
+                    </td>
+                    <td>
+                      <span className={`pill ${status.tone}`}>{status.label}</span>
+                    </td>
+                    <td>
+                      <div className="flex flex-wrap gap-2">
+                        <button className="button button-ghost button-sm" type="button" onClick={() => openEditor(promotion)}>
+                          Edit
+                        </button>
+                        <button
+                          className="button button-ghost button-sm"
+                          type="button"
+                          onClick={() => void handleToggleActive(promotion)}
+                          disabled={workingId === promotion.id}
+                        >
+                          {promotion.active ? 'Deactivate' : 'Activate'}
+                        </button>
+                        <button
+                          className="button button-danger button-sm"
+                          type="button"
+                          onClick={() => setConfirmDeleteId(promotion.id)}
+                          disabled={workingId === promotion.id}
+                        >
+                          {workingId === promotion.id && confirmDeleteId === promotion.id ? 'Deleting...' : 'Delete'}
+                        </button>
+                      </div>
+                      {confirmDeleteId === promotion.id && (
+                        <div className="confirm-inline">
+                          <span>Delete {promotion.code}?</span>
+                          <button className="button button-primary" type="button" onClick={() => void handleDelete(promotion)}>
+                            Confirm
+                          </button>
+                          <button className="button button-ghost" type="button" onClick={() => setConfirmDeleteId(null)}>
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default PromotionsTab;
@@ -1,9 +1,11 @@
 import { useEffect, useState } from 'react';
 import { useMessage } from '../../hooks/useMessage';
+import { usePermission } from '../../hooks/usePermission';
 import { listAdminReviews, moderateReview, type AdminReview, type ReviewStatus } from '../../services/reviews';
 
 const ReviewsTab = () => {
   const { showMessage } = useMessage();
+  const canModerate = usePermission('reviews.moderate');
   const [adminReviews, setAdminReviews] = useState<AdminReview[]>([]);
   const [reviewsLoading, setReviewsLoading] = useState(false);
   const [reviewsStatusFilter, setReviewsStatusFilter] = useState<ReviewStatus | 'ALL'>('PENDING');
@@ -151,6 +153,7 @@ const ReviewsTab = () => {
                         <input
                           className="toolbar-input h-10 min-w-[220px] rounded-md border border-slate-300 bg-white px-3 text-sm focus:border-blue-500 focus:outline-none"
                           placeholder="Moderation reason (optional)"
+                          disabled={!canModerate}
                           value={reviewModerationReason[String(review.id)] ?? ''}
                           onChange={(event) =>
                             setReviewModerationReason((prev) => ({ ...prev, [String(review.id)]: event.target.value }))
@@ -161,7 +164,7 @@ const ReviewsTab = () => {
                             className="button button-primary"
                             type="button"
                             onClick={() => void handleModerateReview(review, 'APPROVED')}
-                            disabled={working || review.status === 'APPROVED'}
+                            disabled={!canModerate || working || review.status === 'APPROVED'}
                           >
                             {working && review.status !== 'APPROVED' ? 'Working...' : 'Approve'}
                           </button>
@@ -169,7 +172,7 @@ const ReviewsTab = () => {
                             className="button button-danger"
                             type="button"
                             onClick={() => void handleModerateReview(review, 'REJECTED')}
-                            disabled={working || review.status === 'REJECTED'}
+                            disabled={!canModerate || working || review.status === 'REJECTED'}
                           >
                             Reject
                           </button>
@@ -177,7 +180,7 @@ const ReviewsTab = () => {
                             className="button button-ghost"
                             type="button"
                             onClick={() => void handleModerateReview(review, 'HIDDEN')}
-                            disabled={working || review.status === 'HIDDEN'}
+                            disabled={!canModerate || working || review.status === 'HIDDEN'}
                           >
                             Hide
                           </button>
@@ -6,144 +6,157 @@ import {
   ReactNode,
   useCallback,
 } from 'react';
+import type { MfaChallenge } from '../types/api';
 import type { User } from '../types/user';
-import { signIn as apiSignIn, signUp as apiSignUp } from '../services/auth';
-import { getErrorMessage } from '../services/apiError';
 import {
-  getAuthToken,
-  storeAuthToken,
-  clearAuthToken,
-  isTokenExpired,
-  getRoleFromToken,
-  getIdentityFromToken,
-} from '../utils/auth';
+  completeMfaSignIn as apiCompleteMfaSignIn,
+  endImpersonation as apiEndImpersonation,
+  getSession,
+  isMfaChallenge,
+  refreshSession,
+  signIn as apiSignIn,
+  signOut as apiSignOut,
+  signUp as apiSignUp,
+  startImpersonation as apiStartImpersonation,
+} from '../services/auth';
+import { getErrorMessage, isApiError } from '../services/apiError';
+import { clearOutbox } from '../services/outbox';
+import { clearStoredSession, getStoredSession, isAuthStorageKey, isImpersonating, updateStoredUser } from '../utils/auth';
+import { subscribeToAuthChanges } from '../utils/authChannel';
+import { config } from '../lib/config';
+import { useIdleTimer } from '../hooks/useIdleTimer';
 
 /**
  * Authentication Context
- * Manages global authentication state including login, logout, and token management
+ * Manages global authentication state; the session itself lives in httpOnly cookies behind pages/api
  */
 
+// Why a session ended without the user signing out in this tab
+export type SessionEndReason = 'expired' | 'idle' | 'elsewhere';
+
+// setTimeout overflows past ~24.8 days and fires immediately
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Switching identity reloads the page, so nothing cached for one (SWR, the cart) leaks into the other
+const IMPERSONATION_START_PATH = '/dashboard';
+const IMPERSONATION_RETURN_PATH = '/admin';
+
 export interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
-  signIn: (username: string, password: string) => Promise<void>;
+  expiresAt: string | null;
+  // True from config.session.expiryWarningMs before expiresAt until the session is extended or ends
+  isSessionExpiring: boolean;
+  sessionEndReason: SessionEndReason | null;
+  extendSession: () => Promise<boolean>;
+  clearSessionEndReason: () => void;
+  // Resolves with the challenge when the account still has to enter a two-factor code, null once signed in
+  signIn: (username: string, password: string) => Promise<MfaChallenge | null>;
+  completeMfaSignIn: (mfaToken: string, code: string) => Promise<void>;
   signUp: (username: string, email: string, password: string) => Promise<void>;
   signOut: () => void;
+  // Merge changes made in the account settings into this tab and the cached auth_user
+  updateUser: (changes: Partial<User>) => void;
+  // Admin "view as customer": a read-only session as userId until returnToAdmin or its time runs out
+  impersonate: (userId: number, reason?: string) => Promise<void>;
+  returnToAdmin: () => Promise<void>;
   clearError: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const USER_KEY = 'auth_user';
-
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  // The expiresAt the warning was raised for; a refresh moves expiresAt on and dismisses it
+  const [warnedFor, setWarnedFor] = useState<string | null>(null);
+  const [sessionEndReason, setSessionEndReason] = useState<SessionEndReason | null>(null);
 
-  // Initialize auth state from localStorage on mount
+  // Paint from the cached identity, then let /session confirm who the cookie belongs to
   useEffect(() => {
-    const initAuth = () => {
-      const token = getAuthToken();
-      const storedUser = localStorage.getItem(USER_KEY);
-
-      if (token && !isTokenExpired(token)) {
-        const tokenIdentity = getIdentityFromToken(token);
-        try {
-          if (storedUser) {
-            const parsedUser = JSON.parse(storedUser) as User;
-            // Ensure role is always extracted from token as backup
-            if (!parsedUser.role) {
-              parsedUser.role = getRoleFromToken(token) || 'USER';
-            }
-            if (!parsedUser.status) {
-              parsedUser.status = 'ACTIVE';
-            }
-            if (!parsedUser.username && tokenIdentity.username) {
-              parsedUser.username = tokenIdentity.username;
-            }
-            if (!parsedUser.email && tokenIdentity.email) {
-              parsedUser.email = tokenIdentity.email;
-            }
-            if (!parsedUser.id && tokenIdentity.id) {
-              parsedUser.id = tokenIdentity.id;
-            }
-            localStorage.setItem(USER_KEY, JSON.stringify(parsedUser));
-            setUser(parsedUser);
-          } else {
-            // Token exists but no stored user - create from token
-            const roleFromToken = getRoleFromToken(token) || 'USER';
-            const fallbackName = tokenIdentity.username || tokenIdentity.email || '';
-            const userData: User = {
-              id: tokenIdentity.id || 0,
-              email: tokenIdentity.email,
-              username: fallbackName,
-              role: roleFromToken,
-              status: 'ACTIVE',
-            };
-            setUser(userData);
-          }
-        } catch {
-          // Invalid stored user, clear auth
-          clearAuthToken();
-          localStorage.removeItem(USER_KEY);
+    let cancelled = false;
+
+    const syncFromStorage = () => {
+      const stored = getStoredSession();
+      setUser(stored?.user ?? null);
+      setExpiresAt(stored?.expiresAt || null);
+    };
+
+    const initAuth = async () => {
+      syncFromStorage();
+      try {
+        const session = await getSession();
+        if (!cancelled) setUser(session.user);
+      } catch (err) {
+        // Offline or server trouble keeps the cached identity; only a 401 means nobody is signed in
+        if (!cancelled && isApiError(err) && err.status === 401) {
+          const wasImpersonating = isImpersonating(getStoredSession()?.user ?? null);
+          clearStoredSession();
           setUser(null);
+          // A lapsed impersonation is not renewed; ending it is what brings the admin's own session back
+          if (wasImpersonating) {
+            await apiEndImpersonation()
+              .then(() => window.location.assign(IMPERSONATION_RETURN_PATH))
+              .catch(() => undefined);
+          }
         }
-      } else if (token && isTokenExpired(token)) {
-        // Token expired, clear auth
-        clearAuthToken();
-        localStorage.removeItem(USER_KEY);
-        setUser(null);
-      } else {
-        setUser(null);
+      } finally {
+        if (!cancelled) setIsLoading(false);
       }
-
-      setIsLoading(false);
     };
 
-    initAuth();
+    void initAuth();
 
-    // Listen for storage changes from other tabs
-    const handleStorageChange = () => {
-      initAuth();
+    const handleStorage = (event: StorageEvent) => {
+      if (isAuthStorageKey(event.key)) syncFromStorage();
     };
 
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
+    // Another tab signed in, renewed or signed out; protected pages redirect as soon as user changes
+    const unsubscribe = subscribeToAuthChanges((message) => {
+      if (message.type === 'signedOut' && getStoredSession() === null) {
+        setSessionEndReason((current) => current ?? 'elsewhere');
+      }
+      syncFromStorage();
+    });
+
+    // Refreshes made by the API middleware in this tab come through authSessionUpdated
+    window.addEventListener('storage', handleStorage);
+    window.addEventListener('authSessionUpdated', syncFromStorage);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+      window.removeEventListener('authSessionUpdated', syncFromStorage);
+    };
   }, []);
 
   const signIn = useCallback(async (username: string, password: string) => {
     setIsLoading(true);
     setError(null);
     try {
-      const response = await apiSignIn({ username, password });
-      
-      // Store token using utility
-      storeAuthToken(response.token, { role: response.role, expiresAt: response.expiresAt });
-      
-      // Extract role from token if not in response
-      const roleFromResponse = response.role as 'USER' | 'ADMIN' | undefined;
-      const roleFromToken = getRoleFromToken(response.token);
-      const finalRole = roleFromResponse || roleFromToken || 'USER';
-      
-      // Store user info
-      const tokenIdentity = getIdentityFromToken(response.token);
-      const normalizedEmail =
-        username.includes('@') ? username : tokenIdentity.email;
-      const normalizedUsername = username || tokenIdentity.username;
-
-      const userData: User = {
-        id: tokenIdentity.id || 0,
-        email: normalizedEmail || '',
-        username: normalizedUsername || '',
-        role: finalRole,
-        status: 'ACTIVE',
-      };
-      localStorage.setItem(USER_KEY, JSON.stringify(userData));
-      
-      setUser(userData);
+      const result = await apiSignIn({ username, password });
+      if (isMfaChallenge(result)) return result;
+      setUser(result.user);
+      return null;
+    } catch (err) {
+      const message = getErrorMessage(err);
+      setError(message);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const completeMfaSignIn = useCallback(async (mfaToken: string, code: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const session = await apiCompleteMfaSignIn({ mfaToken, code });
+      setUser(session.user);
     } catch (err) {
       const message = getErrorMessage(err);
       setError(message);
@@ -157,28 +170,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setIsLoading(true);
     setError(null);
     try {
-      const response = await apiSignUp({ username, email, password });
-      
-      // Store token using utility
-      storeAuthToken(response.token, { role: response.role, expiresAt: response.expiresAt });
-      
-      // Extract role from token if not in response
-      const roleFromResponse = response.role as 'USER' | 'ADMIN' | undefined;
-      const roleFromToken = getRoleFromToken(response.token);
-      const finalRole = roleFromResponse || roleFromToken || 'USER';
-      
-      // Store user info
-      const tokenIdentity = getIdentityFromToken(response.token);
-      const userData: User = {
-        id: tokenIdentity.id || 0,
-        email,
-        username,
-        role: finalRole,
-        status: 'ACTIVE',
-      };
-      localStorage.setItem(USER_KEY, JSON.stringify(userData));
-      
-      setUser(userData);
+      const session = await apiSignUp({ username, email, password });
+      setUser(session.user);
     } catch (err) {
       const message = getErrorMessage(err);
       setError(message);
@@ -189,10 +182,92 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const signOut = useCallback(() => {
-    clearAuthToken();
-    localStorage.removeItem(USER_KEY);
     setUser(null);
+    setExpiresAt(null);
+    setError(null);
+    void apiSignOut().catch((err) => {
+      console.error('[Auth] sign-out request failed', err);
+    });
+  }, []);
+
+  const updateUser = useCallback((changes: Partial<User>) => {
+    setUser((current) => (current ? { ...current, ...changes } : current));
+    const stored = getStoredSession();
+    if (stored) updateStoredUser({ ...stored.user, ...changes });
+  }, []);
+
+  const endSession = useCallback(
+    (reason: SessionEndReason) => {
+      setSessionEndReason(reason);
+      signOut();
+    },
+    [signOut]
+  );
+
+  const impersonate = useCallback(async (userId: number, reason?: string) => {
+    await apiStartImpersonation({ userId, reason });
+    window.location.assign(IMPERSONATION_START_PATH);
+  }, []);
+
+  const returnToAdmin = useCallback(async () => {
+    try {
+      await apiEndImpersonation();
+      window.location.assign(IMPERSONATION_RETURN_PATH);
+    } catch (err) {
+      console.error('[Auth] could not return to the admin session', err);
+      endSession('expired');
+    }
+  }, [endSession]);
+
+  // The refresh could not renew the session, so there is nothing to revoke: /auth/logout would only throw away
+  // a refresh token that is still good (say the exchange failed on a dropped connection) and the next visit can use
+  const expireSession = useCallback(() => {
+    setSessionEndReason('expired');
+    setUser(null);
+    setExpiresAt(null);
     setError(null);
+    clearStoredSession();
+    clearOutbox();
+  }, []);
+
+  const extendSession = useCallback(async () => {
+    // A successful refresh stores the new expiresAt, which reschedules the warning below
+    const renewed = await refreshSession();
+    if (!renewed) expireSession();
+    return renewed;
+  }, [expireSession]);
+
+  // Warn ahead of expiresAt; when it passes without an answer, renew quietly and only end the session if that fails
+  useEffect(() => {
+    if (!user || !expiresAt) return;
+    const expiresAtMs = Date.parse(expiresAt);
+    const remainingMs = expiresAtMs - Date.now();
+    if (Number.isNaN(expiresAtMs) || remainingMs > MAX_TIMER_DELAY_MS) return;
+
+    // An impersonation cannot be extended; when its time is up the admin goes back to their own session
+    if (user.impersonator) {
+      const returnTimer = window.setTimeout(() => void returnToAdmin(), Math.max(0, remainingMs));
+      return () => window.clearTimeout(returnTimer);
+    }
+
+    const warnTimer = window.setTimeout(
+      () => setWarnedFor(expiresAt),
+      Math.max(0, remainingMs - config.session.expiryWarningMs)
+    );
+    const expireTimer = window.setTimeout(() => void extendSession(), Math.max(0, remainingMs));
+    return () => {
+      window.clearTimeout(warnTimer);
+      window.clearTimeout(expireTimer);
+    };
+  }, [user, expiresAt, extendSession, returnToAdmin]);
+
+  // Optional policy: admins are signed out after config.session.adminIdleTimeoutMs without input
+  const handleIdle = useCallback(() => endSession('idle'), [endSession]);
+  const idleTimeoutMs = user?.role === 'ADMIN' && config.session.adminIdleTimeoutMs > 0 ? config.session.adminIdleTimeoutMs : null;
+  useIdleTimer(idleTimeoutMs, handleIdle);
+
+  const clearSessionEndReason = useCallback(() => {
+    setSessionEndReason(null);
   }, []);
 
   const clearError = useCallback(() => {
@@ -204,9 +279,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isAuthenticated: !!user,
     isLoading,
     error,
+    expiresAt,
+    isSessionExpiring: !!user && !!expiresAt && warnedFor === expiresAt,
+    sessionEndReason,
+    extendSession,
+    clearSessionEndReason,
     signIn,
+    completeMfaSignIn,
     signUp,
     signOut,
+    updateUser,
+    impersonate,
+    returnToAdmin,
     clearError,
   };
 
@@ -7,9 +7,89 @@ import {
   useState,
   type ReactNode,
 } from 'react';
-import type { CartItem, Product } from '../types/product';
+import useSWR from 'swr';
+import type { CartChange, CartItem, Product } from '../types/product';
+import type { DiscountLine, PromotionRules } from '../types/promotion';
+import { ApiError, isApiError } from '../services/apiError';
+import { getCart, mergeCart, saveCart, toCartRequest } from '../services/cart';
+import { queueIfOffline } from '../services/outbox';
+import { getProduct } from '../services/products';
+import { checkPromoCode } from '../services/promotions';
+import { isImpersonating } from '../utils/auth';
+import { diffCartItems, reconcileCartItems } from '../utils/cart';
+import { applyPromotion, describePromotionProblem, sumDiscounts } from '../utils/promotions';
+import { useAuth } from './AuthContext';
 
+// Guests only; a signed-in cart lives on the server
 const CART_KEY = 'cart_items';
+const ACCOUNT_CART_KEY = '/cart';
+// The applied promo code's rules, kept per browser for guests and accounts alike
+const PROMOTION_KEY = 'cart_promotion';
+// Codes the server no longer honours; any other refusal may go away as the cart changes
+const WITHDRAWN_PROMOTION_CODES = ['PROMOTION_NOT_FOUND', 'PROMOTION_USED_UP'];
+
+/**
+ * True for the SWR key of the signed-in account's cart
+ */
+export const isAccountCartKey = (key: unknown) => Array.isArray(key) && key[0] === ACCOUNT_CART_KEY;
+
+const readGuestCart = (): CartItem[] => {
+  try {
+    const value = window.localStorage.getItem(CART_KEY);
+    return value ? (JSON.parse(value) as CartItem[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeGuestCart = (items: CartItem[]) => {
+  try {
+    window.localStorage.setItem(CART_KEY, JSON.stringify(items));
+  } catch {
+    // ignore
+  }
+};
+
+const readPromotion = (): PromotionRules | null => {
+  try {
+    const value = window.localStorage.getItem(PROMOTION_KEY);
+    return value ? (JSON.parse(value) as PromotionRules) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writePromotion = (promotion: PromotionRules | null) => {
+  try {
+    if (promotion) window.localStorage.setItem(PROMOTION_KEY, JSON.stringify(promotion));
+    else window.localStorage.removeItem(PROMOTION_KEY);
+  } catch {
+    // ignore
+  }
+};
+
+const addToItems = (items: CartItem[], product: Product, quantity: number) => {
+  const max = product.stock;
+  const existing = items.find((it) => it.product.id === product.id);
+  if (existing) {
+    return items.map((it) =>
+      it.product.id === product.id
+        ? { ...it, quantity: Math.min(it.quantity + quantity, max) }
+        : it,
+    );
+  }
+  return [...items, { product, quantity: Math.min(quantity, max) }];
+};
+
+const setItemQuantity = (items: CartItem[], productId: number, quantity: number) => {
+  const item = items.find((it) => it.product.id === productId);
+  if (!item) return items;
+  const safe = Math.min(quantity, item.product.stock);
+  if (safe <= 0) return items.filter((it) => it.product.id !== productId);
+  return items.map((it) =>
+    it.product.id === productId ? { ...it, quantity: safe } : it,
+  );
+};
 
 interface CartContextType {
   items: CartItem[];
@@ -19,38 +99,60 @@ interface CartContextType {
   removeItem: (productId: number) => void;
   updateQuantity: (productId: number, quantity: number) => void;
   clear: () => void;
+  // True while an admin views the shop as this customer; the cart can be looked at but every change is ignored
+  readOnly: boolean;
+  // False until the guest cart has been read or the account cart has arrived
+  isLoaded: boolean;
+  // Found by revalidate and not yet acknowledged; ordering should wait until they have been seen
+  changes: CartChange[];
+  // Bring every line up to date with the live catalog and resolve with what changed
+  revalidate: () => Promise<CartChange[]>;
+  acknowledgeChanges: () => void;
+  // Rules of the applied promo code, kept even while the cart does not qualify for it
+  promotion: PromotionRules | null;
+  // What the promo code takes off the cart as it is now; empty while it does not qualify
+  discounts: DiscountLine[];
+  discountTotal: number;
+  // Why the applied code gives nothing right now, or why it was withdrawn
+  promotionNotice: string | null;
+  // Rejects with the server's reason when the code cannot be used on this cart
+  applyPromoCode: (code: string) => Promise<void>;
+  removePromoCode: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 export function CartProvider({ children }: { children: ReactNode }) {
-  const [items, setItems] = useState<CartItem[]>([]);
+  const { user } = useAuth();
+  const [guestItems, setGuestItems] = useState<CartItem[]>([]);
   const [hydrated, setHydrated] = useState(false);
+  const [changes, setChanges] = useState<CartChange[]>([]);
+  const [promotion, setPromotion] = useState<PromotionRules | null>(null);
+  const [withdrawnNotice, setWithdrawnNotice] = useState<string | null>(null);
+  const accountId = user?.id ?? null;
+  const readOnly = isImpersonating(user);
 
   useEffect(() => {
-    try {
-      const value = window.localStorage.getItem(CART_KEY);
-      if (value) setItems(JSON.parse(value) as CartItem[]);
-    } catch {
-      // ignore
-    }
+    setGuestItems(readGuestCart());
+    setPromotion(readPromotion());
     setHydrated(true);
   }, []);
 
   useEffect(() => {
     if (!hydrated) return;
-    try {
-      window.localStorage.setItem(CART_KEY, JSON.stringify(items));
-    } catch {
-      // ignore
-    }
-  }, [items, hydrated]);
+    writeGuestCart(guestItems);
+  }, [guestItems, hydrated]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    writePromotion(promotion);
+  }, [promotion, hydrated]);
 
   useEffect(() => {
     const onStorage = (event: StorageEvent) => {
       if (event.key !== CART_KEY) return;
       try {
-        setItems(event.newValue ? (JSON.parse(event.newValue) as CartItem[]) : []);
+        setGuestItems(event.newValue ? (JSON.parse(event.newValue) as CartItem[]) : []);
       } catch {
         // ignore
       }
@@ -59,38 +161,161 @@ export function CartProvider({ children }: { children: ReactNode }) {
     return () => window.removeEventListener('storage', onStorage);
   }, []);
 
-  const addItem = useCallback((product: Product, quantity = 1) => {
-    setItems((prev) => {
-      const max = product.stock;
-      const existing = prev.find((it) => it.product.id === product.id);
-      if (existing) {
-        return prev.map((it) =>
-          it.product.id === product.id
-            ? { ...it, quantity: Math.min(it.quantity + quantity, max) }
-            : it,
+  // A guest cart left in this browser is folded into the account the first time it loads, then emptied
+  const { data: accountItems, mutate } = useSWR<CartItem[]>(
+    accountId !== null ? [ACCOUNT_CART_KEY, accountId] : null,
+    async () => {
+      const guest = readGuestCart();
+      if (guest.length === 0 || readOnly) return getCart();
+      const merged = await mergeCart(toCartRequest(guest));
+      writeGuestCart([]);
+      setGuestItems([]);
+      return merged;
+    },
+  );
+
+  // Shown straight away and confirmed by the server; adds are merged there so another device's lines are kept
+  const changeAccountCart = useCallback(
+    (apply: (items: CartItem[]) => CartItem[], added?: CartItem) => {
+      // The customer's cart is not the admin's to change, whatever the UI lets through
+      if (readOnly) return;
+      // Replacing a cart that has not loaded yet would wipe what the server holds
+      if (!added && accountItems === undefined) return;
+      let next: CartItem[] = [];
+      void mutate(
+        async () => {
+          const payload = added ? toCartRequest([added]) : toCartRequest(next);
+          try {
+            return await (added ? mergeCart(payload) : saveCart(payload));
+          } catch (err) {
+            // Offline changes stay in the cart and are sent once the connection returns
+            if (queueIfOffline(err, { kind: 'saveCart', payload, merge: !!added })) return next;
+            throw err;
+          }
+        },
+        {
+          optimisticData: (committed, displayed) => (next = apply(displayed ?? committed ?? [])),
+          rollbackOnError: true,
+          revalidate: false,
+        },
+      ).catch((err) => {
+        console.error('[Cart] could not save the cart', err);
+      });
+    },
+    [accountItems, mutate, readOnly],
+  );
+
+  const addItem = useCallback(
+    (product: Product, quantity = 1) => {
+      if (accountId === null) {
+        setGuestItems((prev) => addToItems(prev, product, quantity));
+        return;
+      }
+      changeAccountCart((items) => addToItems(items, product, quantity), { product, quantity });
+    },
+    [accountId, changeAccountCart],
+  );
+
+  const removeItem = useCallback(
+    (productId: number) => {
+      const apply = (items: CartItem[]) => items.filter((it) => it.product.id !== productId);
+      if (accountId === null) setGuestItems(apply);
+      else changeAccountCart(apply);
+    },
+    [accountId, changeAccountCart],
+  );
+
+  const updateQuantity = useCallback(
+    (productId: number, quantity: number) => {
+      const apply = (items: CartItem[]) => setItemQuantity(items, productId, quantity);
+      if (accountId === null) setGuestItems(apply);
+      else changeAccountCart(apply);
+    },
+    [accountId, changeAccountCart],
+  );
+
+  // An emptied cart, whether cleared or ordered, leaves no code behind for the next one
+  const clear = useCallback(() => {
+    if (accountId === null) setGuestItems([]);
+    else changeAccountCart(() => []);
+    setPromotion(null);
+    setWithdrawnNotice(null);
+  }, [accountId, changeAccountCart]);
+
+  // The guest cart stays on screen until the account cart (with it merged in) arrives
+  const items = accountId === null ? guestItems : accountItems ?? guestItems;
+
+  // Picks up an admin's edits to the applied code, and drops it once the server stops honouring it
+  const refreshPromotion = useCallback(
+    async (lines: CartItem[]) => {
+      if (!promotion || lines.length === 0) return;
+      try {
+        setPromotion(await checkPromoCode({ code: promotion.code, items: toCartRequest(lines).items }));
+      } catch (err) {
+        if (err instanceof ApiError && err.code !== undefined && WITHDRAWN_PROMOTION_CODES.includes(err.code)) {
+          setPromotion(null);
+          setWithdrawnNotice(err.message);
+        }
+      }
+    },
+    [promotion],
+  );
+
+  const revalidate = useCallback(async () => {
+    const previous = items;
+    if (previous.length === 0) return [];
+    await refreshPromotion(previous);
+
+    let found: CartChange[];
+    try {
+      if (accountId === null) {
+        const products = await Promise.all(
+          previous.map((item) =>
+            getProduct(item.product.id).catch((err: unknown) => {
+              if (isApiError(err) && err.status === 404) return null;
+              throw err;
+            }),
+          ),
         );
+        const live = new Map(previous.map((item, index) => [item.product.id, products[index]]));
+        found = diffCartItems(previous, reconcileCartItems(previous, live));
+        setGuestItems((current) => reconcileCartItems(current, live));
+      } else {
+        // The server reads the account cart against the live catalog already
+        const current = await getCart();
+        found = diffCartItems(previous, current);
+        await mutate(current, { revalidate: false });
       }
-      return [...prev, { product, quantity: Math.min(quantity, max) }];
-    });
-  }, []);
+    } catch (err) {
+      // The server still checks stock when the order is placed
+      console.error('[Cart] could not check the cart against the catalog', err);
+      return [];
+    }
 
-  const removeItem = useCallback((productId: number) => {
-    setItems((prev) => prev.filter((it) => it.product.id !== productId));
-  }, []);
+    if (found.length > 0) {
+      setChanges((prev) => [
+        ...prev.filter((old) => !found.some((change) => change.kind === old.kind && change.product.id === old.product.id)),
+        ...found,
+      ]);
+    }
+    return found;
+  }, [accountId, items, mutate, refreshPromotion]);
 
-  const updateQuantity = useCallback((productId: number, quantity: number) => {
-    setItems((prev) => {
-      const item = prev.find((it) => it.product.id === productId);
-      if (!item) return prev;
-      const safe = Math.min(quantity, item.product.stock);
-      if (safe <= 0) return prev.filter((it) => it.product.id !== productId);
-      return prev.map((it) =>
-        it.product.id === productId ? { ...it, quantity: safe } : it,
-      );
-    });
-  }, []);
+  const acknowledgeChanges = useCallback(() => setChanges([]), []);
 
-  const clear = useCallback(() => setItems([]), []);
+  const applyPromoCode = useCallback(
+    async (code: string) => {
+      const rules = await checkPromoCode({ code: code.trim(), items: toCartRequest(items).items });
+      setPromotion(rules);
+      setWithdrawnNotice(null);
+    },
+    [items],
+  );
+
+  const removePromoCode = useCallback(() => {
+    setPromotion(null);
+    setWithdrawnNotice(null);
+  }, []);
 
   const itemCount = useMemo(
     () => items.reduce((sum, it) => sum + it.quantity, 0),
@@ -101,6 +326,12 @@ export function CartProvider({ children }: { children: ReactNode }) {
     [items],
   );
 
+  // Worked out from the live lines on every render, so the summary follows quantity changes straight away
+  const promotionResult = promotion ? applyPromotion(promotion, items) : null;
+  const discounts = promotionResult?.discount ? [promotionResult.discount] : [];
+  const promotionNotice =
+    promotion && promotionResult?.problem ? describePromotionProblem(promotionResult.problem, promotion) : withdrawnNotice;
+
   const value: CartContextType = {
     items,
     itemCount,
@@ -109,6 +340,17 @@ export function CartProvider({ children }: { children: ReactNode }) {
     removeItem,
     updateQuantity,
     clear,
+    readOnly,
+    isLoaded: accountId === null ? hydrated : accountItems !== undefined,
+    changes,
+    revalidate,
+    acknowledgeChanges,
+    promotion,
+    discounts,
+    discountTotal: sumDiscounts(discounts),
+    promotionNotice,
+    applyPromoCode,
+    removePromoCode,
   };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { resendVerificationEmail } from '../services/auth';
+import { ApiError, getErrorMessage } from '../services/apiError';
+import { needsEmailVerification } from '../utils/auth';
+
+// Survives a reload so the resend button cannot be used to get around the cooldown
+const RESEND_AVAILABLE_AT_KEY = 'verification_resend_available_at';
+
+const readAvailableAt = () => {
+  if (typeof window === 'undefined') return 0;
+  return Number(localStorage.getItem(RESEND_AVAILABLE_AT_KEY)) || 0;
+};
+
+const retryAfterSeconds = (error: unknown) => {
+  if (!(error instanceof ApiError) || error.status !== 429) return null;
+  const fromBody = Number(error.data?.retryAfterSeconds);
+  if (Number.isFinite(fromBody) && fromBody > 0) return fromBody;
+  return error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : 60;
+};
+
+/**
+ * Verification state of the signed-in account plus the resend action and its cooldown
+ */
+export function useEmailVerification() {
+  const { user } = useAuth();
+  const email = user?.email ?? '';
+  const [availableAt, setAvailableAt] = useState(readAvailableAt);
+  const [now, setNow] = useState(() => Date.now());
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (availableAt <= Date.now()) return;
+    const intervalId = window.setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= availableAt) window.clearInterval(intervalId);
+    }, 1000);
+    return () => window.clearInterval(intervalId);
+  }, [availableAt]);
+
+  const startCooldown = useCallback((seconds: number) => {
+    const until = Date.now() + seconds * 1000;
+    localStorage.setItem(RESEND_AVAILABLE_AT_KEY, String(until));
+    setNow(Date.now());
+    setAvailableAt(until);
+  }, []);
+
+  /**
+   * Resolves with a message for the caller to show; a running cooldown is reported rather than thrown
+   */
+  const resend = useCallback(async (): Promise<{ sent: boolean; message: string }> => {
+    setIsSending(true);
+    try {
+      const { cooldownSeconds } = await resendVerificationEmail();
+      startCooldown(cooldownSeconds);
+      return { sent: true, message: `We sent a new verification link to ${email || 'your email'}.` };
+    } catch (error) {
+      const waitSeconds = retryAfterSeconds(error);
+      if (waitSeconds !== null) {
+        startCooldown(waitSeconds);
+        return { sent: false, message: `Please wait ${waitSeconds}s before requesting another email.` };
+      }
+      return { sent: false, message: getErrorMessage(error) };
+    } finally {
+      setIsSending(false);
+    }
+  }, [startCooldown, email]);
+
+  return {
+    needsVerification: needsEmailVerification(user),
+    email,
+    resend,
+    isSending,
+    cooldownSeconds: Math.max(0, Math.ceil((availableAt - now) / 1000)),
+  };
+}
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'] as const;
+// A busy mouse should not reschedule the timer hundreds of times a second
+const ACTIVITY_THROTTLE_MS = 1000;
+// Activity in any tab counts, so a tab left in the background does not sign out one that is in use
+const SHARED_ACTIVITY_KEY = 'last_activity_at';
+const SHARED_ACTIVITY_THROTTLE_MS = 15 * 1000;
+
+const readSharedActivity = () => {
+  try {
+    return Number(localStorage.getItem(SHARED_ACTIVITY_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+};
+
+const writeSharedActivity = (timestamp: number) => {
+  try {
+    localStorage.setItem(SHARED_ACTIVITY_KEY, String(timestamp));
+  } catch {
+    // storage disabled; each tab keeps its own timer
+  }
+};
+
+/**
+ * Calls `onIdle` once the user has gone `timeoutMs` without touching the page in any tab.
+ * Pass null to switch it off.
+ */
+export function useIdleTimer(timeoutMs: number | null, onIdle: () => void) {
+  const onIdleRef = useRef(onIdle);
+
+  useEffect(() => {
+    onIdleRef.current = onIdle;
+  }, [onIdle]);
+
+  useEffect(() => {
+    if (!timeoutMs || timeoutMs <= 0) return;
+    const limitMs = timeoutMs;
+
+    let lastActivity = Date.now();
+    let lastShared = 0;
+    let timerId = 0;
+
+    const schedule = (delayMs: number) => {
+      window.clearTimeout(timerId);
+      timerId = window.setTimeout(check, delayMs);
+    };
+
+    // Timers in background tabs are throttled, so compare against the clock instead of trusting the delay
+    function check() {
+      const idleFor = Date.now() - Math.max(lastActivity, readSharedActivity());
+      if (idleFor >= limitMs) {
+        onIdleRef.current();
+        return;
+      }
+      schedule(limitMs - idleFor);
+    }
+
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastActivity < ACTIVITY_THROTTLE_MS) return;
+      lastActivity = now;
+      if (now - lastShared >= SHARED_ACTIVITY_THROTTLE_MS) {
+        lastShared = now;
+        writeSharedActivity(now);
+      }
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') check();
+    };
+
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    schedule(limitMs);
+
+    return () => {
+      window.clearTimeout(timerId);
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [timeoutMs]);
+}
@@ -2,14 +2,37 @@ import { useState, useCallback } from 'react';
 import useSWR from 'swr';
 import type { Order } from '../types/order';
 import type { OrderRequest } from '../types/api';
-import { listOrders, listAllOrders, createOrder, getRecentOrders, getRecentOrdersAll } from '../services/orders';
-import { getErrorMessage } from '../services/apiError';
+import {
+  listOrders,
+  listAllOrders,
+  createOrder,
+  getDuplicateOrderId,
+  getRecentOrders,
+  getRecentOrdersAll,
+} from '../services/orders';
+import { getErrorMessage, isAbortError } from '../services/apiError';
+import { queueIfOffline } from '../services/outbox';
 import { useMessage } from './useMessage';
+import { useRequestSignal } from './useRequestSignal';
+import { clearCheckoutAttempt, getCheckoutIdempotencyKey } from '../utils/checkoutAttempt';
+import { needsEmailVerification } from '../utils/auth';
+import { useAuth } from '../context/AuthContext';
+
+/**
+ * How a checkout ended: placed now, already placed by an earlier attempt with the same key, or queued while offline
+ */
+export type CheckoutOutcome =
+  | { status: 'created'; order: Order }
+  | { status: 'duplicate'; orderId: number }
+  | { status: 'queued' };
 
 export function useOrders() {
   const { showMessage } = useMessage();
+  const { user } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [ordersError, setOrdersError] = useState<string | null>(null);
+  const nextOrdersSignal = useRequestSignal();
+  const nextRecentSignal = useRequestSignal();
 
   // Fetch all orders with error handling
   const {
@@ -20,13 +43,16 @@ export function useOrders() {
   } = useSWR<Order[]>(
     '/orders/all',
     async () => {
+      const signal = nextOrdersSignal();
       try {
-        return await listAllOrders();
+        return await listAllOrders({ signal });
       } catch (err) {
+        if (isAbortError(err)) throw err;
         console.warn('Admin orders endpoint not available, falling back to user orders:', err);
         try {
-          return await listOrders();
+          return await listOrders({ signal });
         } catch (fallbackErr) {
+          if (isAbortError(fallbackErr)) throw fallbackErr;
           const message = getErrorMessage(fallbackErr);
           setOrdersError(message);
           console.warn('Orders endpoint not available:', fallbackErr);
@@ -42,13 +68,16 @@ export function useOrders() {
   const { data: recentOrders = [] } = useSWR<Order[]>(
     '/orders/all/recent',
     async () => {
+      const signal = nextRecentSignal();
       try {
-        return await getRecentOrdersAll(5);
+        return await getRecentOrdersAll(5, { signal });
       } catch (err) {
+        if (isAbortError(err)) throw err;
         console.warn('Admin recent orders endpoint not available, falling back to user recent orders:', err);
         try {
-          return await getRecentOrders(5);
+          return await getRecentOrders(5, { signal });
         } catch (fallbackErr) {
+          if (isAbortError(fallbackErr)) throw fallbackErr;
           console.warn('Recent orders endpoint not available:', fallbackErr);
           return [];
         }
@@ -57,20 +86,44 @@ export function useOrders() {
   );
 
   const checkout = useCallback(
-    async (items: OrderRequest['items']) => {
+    async (
+      items: OrderRequest['items'],
+      details: Omit<OrderRequest, 'items'> = {}
+    ): Promise<CheckoutOutcome | null> => {
       if (!items || items.length === 0) {
         showMessage('error', 'Cart is empty');
         return null;
       }
+      if (needsEmailVerification(user)) {
+        showMessage('error', 'Please verify your email address before placing an order.');
+        return null;
+      }
 
+      // Same key for every retry and reload of this order until the server confirms it
+      const request: OrderRequest = { items, ...details };
+      const idempotencyKey = getCheckoutIdempotencyKey(request);
       setIsLoading(true);
       try {
-        const order = await createOrder({ items });
+        const order = await createOrder(request, { idempotencyKey });
+        clearCheckoutAttempt();
         showMessage('success', `Order #${order.id} created successfully!`);
         await mutate(); // Refresh orders list
         setOrdersError(null);
-        return order;
+        return { status: 'created', order };
       } catch (err) {
+        const existingOrderId = getDuplicateOrderId(err);
+        if (existingOrderId !== null) {
+          clearCheckoutAttempt();
+          showMessage('info', `This order was already placed as #${existingOrderId}.`);
+          await mutate();
+          return { status: 'duplicate', orderId: existingOrderId };
+        }
+        if (queueIfOffline(err, { kind: 'createOrder', payload: request, idempotencyKey })) {
+          // The outbox owns the key now; a new cart gets a new attempt
+          clearCheckoutAttempt();
+          showMessage('info', "You're offline. Your order is saved and will be placed when you reconnect.");
+          return { status: 'queued' };
+        }
         const message = getErrorMessage(err);
         showMessage('error', message);
         setOrdersError(message);
@@ -79,14 +132,14 @@ export function useOrders() {
         setIsLoading(false);
       }
     },
-    [showMessage, mutate]
+    [showMessage, mutate, user]
   );
 
   return {
     orders,
     recentOrders,
     isLoading: isLoading || isOrdersLoading,
-    error: error ?? ordersError,
+    error: (error && !isAbortError(error) ? error : null) ?? ordersError,
     checkout,
     mutate,
   };
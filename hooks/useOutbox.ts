@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { getOutboxEntries, type OutboxEntry } from '../services/outbox';
+
+/**
+ * Mutations waiting in the offline outbox, kept in sync across components and tabs
+ */
+export function useOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => {
+    const update = () => setEntries(getOutboxEntries());
+    update();
+    window.addEventListener('outboxUpdated', update);
+    window.addEventListener('storage', update);
+    return () => {
+      window.removeEventListener('outboxUpdated', update);
+      window.removeEventListener('storage', update);
+    };
+  }, []);
+
+  return { entries, pendingCount: entries.length };
+}
@@ -0,0 +1,12 @@
+import { useAuth } from '../context/AuthContext';
+import type { PermissionKey } from '../types/user';
+import { hasPermission } from '../utils/permissions';
+
+/**
+ * True when the signed-in user holds every permission given.
+ * Permissions come from the session, so a change made by another admin shows up after the next token refresh.
+ */
+export function usePermission(permission: PermissionKey | PermissionKey[]) {
+  const { user } = useAuth();
+  return hasPermission(user, permission);
+}
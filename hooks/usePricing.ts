@@ -0,0 +1,50 @@
+import useSWR from 'swr';
+import { useCart } from '../context/CartContext';
+import { getPricingRules } from '../services/pricing';
+import { getErrorMessage, isAbortError } from '../services/apiError';
+import type { PricingRules, ShippingAddress } from '../types/pricing';
+import { priceOrder } from '../utils/pricing';
+
+export const PRICING_KEY = '/pricing';
+
+/**
+ * The shop's tax and shipping rules, shared by every screen that shows a total
+ */
+export function usePricingRules() {
+  const { data, error, isLoading, mutate } = useSWR<PricingRules>(PRICING_KEY, () => getPricingRules());
+  return {
+    rules: data ?? null,
+    loading: isLoading,
+    error: error && !isAbortError(error) ? getErrorMessage(error) : null,
+    reload: mutate,
+  };
+}
+
+/**
+ * The cart priced for `address`, with its promo code applied; null until the rules have loaded.
+ * Without an address the default tax rate stands in and the breakdown is marked as estimated.
+ * When the rules fail to load, `error` says why and `retry` asks for them again.
+ */
+export function useOrderPricing(address: ShippingAddress | null = null) {
+  const { items, discounts } = useCart();
+  const { rules, error, reload } = usePricingRules();
+  const breakdown = rules ? priceOrder(rules, items, discounts, address) : null;
+
+  // Reads the rules again right before ordering; false when the total on screen no longer holds
+  const confirmTotal = async () => {
+    if (!breakdown) return false;
+    try {
+      const fresh = await reload();
+      return !fresh || Math.abs(priceOrder(fresh, items, discounts, address).total - breakdown.total) < 0.01;
+    } catch {
+      // The server checks the total again when the order is placed
+      return true;
+    }
+  };
+
+  const retry = () => {
+    reload().catch((err: unknown) => console.error('[Pricing] could not reload the rules', err));
+  };
+
+  return { breakdown, error, retry, confirmTotal };
+}
@@ -0,0 +1,89 @@
+import { useCallback, useState } from 'react';
+import { useSWRConfig } from 'swr';
+import { createProduct, updateProduct, deleteProduct, type SaveProductPayload } from '../services/products';
+import { getErrorMessage } from '../services/apiError';
+import { queueIfOffline } from '../services/outbox';
+import { isProductPageKey } from './useProductPage';
+
+/**
+ * Custom hook for product write operations
+ * Lists are read page by page through useProductPage; every change here refetches the cached pages.
+ */
+export function useProductMutations() {
+  const [isMutating, setIsMutating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { mutate: mutateCache } = useSWRConfig();
+  // Server-side pages cannot be patched locally, so they are refetched after every change
+  const revalidatePages = useCallback(() => void mutateCache(isProductPageKey), [mutateCache]);
+
+  const loadProducts = useCallback(async () => {
+    await mutateCache(isProductPageKey);
+  }, [mutateCache]);
+
+  const createNewProduct = useCallback(
+    async (payload: SaveProductPayload) => {
+      setError(null);
+      setIsMutating(true);
+      try {
+        const newProduct = await createProduct(payload);
+        revalidatePages();
+        return newProduct;
+      } catch (err) {
+        const message = getErrorMessage(err);
+        setError(message);
+        throw err;
+      } finally {
+        setIsMutating(false);
+      }
+    },
+    [revalidatePages]
+  );
+
+  const updateExistingProduct = useCallback(
+    async (id: number, payload: SaveProductPayload, reason?: string) => {
+      setError(null);
+      setIsMutating(true);
+      try {
+        const updated = await updateProduct(id, payload, reason);
+        revalidatePages();
+        return updated;
+      } catch (err) {
+        // Offline edits are sent once the connection returns; the pages catch up after the replay
+        if (queueIfOffline(err, { kind: 'updateProduct', productId: id, payload })) {
+          return null;
+        }
+        const message = getErrorMessage(err);
+        setError(message);
+        throw err;
+      } finally {
+        setIsMutating(false);
+      }
+    },
+    [revalidatePages]
+  );
+
+  const deleteExistingProduct = useCallback(async (id: number, reason?: string) => {
+    setError(null);
+    setIsMutating(true);
+    try {
+      await deleteProduct(id, reason);
+      revalidatePages();
+    } catch (err) {
+      const message = getErrorMessage(err);
+      setError(message);
+      throw err;
+    } finally {
+      setIsMutating(false);
+    }
+  }, [revalidatePages]);
+
+  return {
+    loading: isMutating,
+    error,
+    loadProducts,
+    createNewProduct,
+    updateExistingProduct,
+    deleteExistingProduct,
+  };
+}
@@ -0,0 +1,37 @@
+import useSWR from 'swr';
+import type { ProductPage, ProductQuery } from '../types/product';
+import { listProducts } from '../services/products';
+import { getErrorMessage, isAbortError } from '../services/apiError';
+import { useRequestSignal } from './useRequestSignal';
+
+const PRODUCT_PAGE_KEY = '/products?page';
+
+/**
+ * True for the SWR keys used by useProductPage, so mutations can revalidate every cached page at once
+ */
+export const isProductPageKey = (key: unknown) => Array.isArray(key) && key[0] === PRODUCT_PAGE_KEY;
+
+/**
+ * One server-side page of the catalog for `query`.
+ * The previous page stays on screen while the next one loads, so paging and filtering do not flash empty states.
+ */
+export function useProductPage(query: ProductQuery) {
+  const nextSignal = useRequestSignal();
+
+  const { data, error, isLoading, isValidating, mutate } = useSWR<ProductPage>(
+    [PRODUCT_PAGE_KEY, query],
+    () => listProducts(query, { signal: nextSignal() }),
+    { keepPreviousData: true }
+  );
+
+  return {
+    page: data,
+    items: data?.items ?? [],
+    total: data?.total ?? 0,
+    facets: data?.facets,
+    loading: isLoading,
+    refreshing: isValidating,
+    error: error && !isAbortError(error) ? getErrorMessage(error) : null,
+    reload: mutate,
+  };
+}
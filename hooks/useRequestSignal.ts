@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Hands out AbortSignals for a component's data loaders.
+ * Each call cancels the previous request, and unmounting cancels whatever is still in flight.
+ */
+export function useRequestSignal() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    },
+    []
+  );
+
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+}
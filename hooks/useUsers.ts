@@ -1,17 +1,22 @@
 import { useCallback } from 'react';
 import useSWR from 'swr';
-import type { User } from '../types/user';
-import { listUsers, deleteUser, updateUserRole, updateUserStatus } from '../services/users';
-import { getErrorMessage } from '../services/apiError';
+import type { PermissionKey, User } from '../types/user';
+import { listUsers, deleteUser, updateUserPermissions, updateUserRole, updateUserStatus } from '../services/users';
+import { getErrorMessage, isAbortError } from '../services/apiError';
+import { usePermission } from './usePermission';
+import { useRequestSignal } from './useRequestSignal';
 
 export function useUsers() {
+  const nextSignal = useRequestSignal();
+  // Admins without users.read would only get a 403 back
+  const canReadUsers = usePermission('users.read');
   const { data, error: fetchError, isLoading, mutate } = useSWR<User[]>(
-    '/users',
-    async () => listUsers(),
+    canReadUsers ? '/users' : null,
+    async () => listUsers({ signal: nextSignal() }),
   );
 
   const users = data ?? [];
-  const error = fetchError ? getErrorMessage(fetchError) : null;
+  const error = fetchError && !isAbortError(fetchError) ? getErrorMessage(fetchError) : null;
 
   const loadUsers = useCallback(async () => {
     await mutate();
@@ -30,10 +35,11 @@ export function useUsers() {
   );
 
   const changeUserRole = useCallback(
-    async (id: number, role: User['role']) => {
-      const updated = await updateUserRole(id, role);
+    async (id: number, role: User['role'], reason?: string) => {
+      const updated = await updateUserRole(id, role, reason);
       await mutate(
-        (current = []) => current.map((u) => (u.id === id ? { ...u, role: updated.role } : u)),
+        (current = []) =>
+          current.map((u) => (u.id === id ? { ...u, role: updated.role, permissions: updated.permissions } : u)),
         { revalidate: false },
       );
       return updated;
@@ -42,8 +48,8 @@ export function useUsers() {
   );
 
   const changeUserStatus = useCallback(
-    async (id: number, status: User['status']) => {
-      const updated = await updateUserStatus(id, status);
+    async (id: number, status: User['status'], reason?: string) => {
+      const updated = await updateUserStatus(id, status, reason);
       await mutate(
         (current = []) => current.map((u) => (u.id === id ? { ...u, status: updated.status } : u)),
         { revalidate: false },
@@ -53,6 +59,18 @@ export function useUsers() {
     [mutate],
   );
 
+  const changeUserPermissions = useCallback(
+    async (id: number, permissions: PermissionKey[]) => {
+      const updated = await updateUserPermissions(id, permissions);
+      await mutate(
+        (current = []) => current.map((u) => (u.id === id ? { ...u, permissions: updated.permissions } : u)),
+        { revalidate: false },
+      );
+      return updated;
+    },
+    [mutate],
+  );
+
   return {
     users,
     loading: isLoading,
@@ -61,5 +79,6 @@ export function useUsers() {
     removeUser,
     changeUserRole,
     changeUserStatus,
+    changeUserPermissions,
   };
 }
@@ -0,0 +1,323 @@
+import { z } from 'zod';
+import { ApiError } from '../services/apiError';
+import type { AuditEntry } from '../types/audit';
+import type { LoginResponse, MfaChallenge, MfaEnrollment, SessionResponse } from '../types/api';
+import type { Order, OrderItem } from '../types/order';
+import type { CartItem, Product, ProductFacets } from '../types/product';
+import type { PricingRules } from '../types/pricing';
+import type { DiscountLine, Promotion, PromotionRules } from '../types/promotion';
+import type { Review } from '../types/review';
+import type { NotificationPreferences, User } from '../types/user';
+import { parsePermissions } from '../utils/permissions';
+
+/**
+ * Runtime schemas for API responses
+ * Every service parses backend payloads through these, so shape drift fails loudly
+ * in one place and the rest of the app only ever sees the normalized types.
+ */
+
+export const normalizeRole = (role?: string | null): User['role'] =>
+  (role ?? '').replace(/^ROLE_/i, '').toUpperCase() === 'ADMIN' ? 'ADMIN' : 'USER';
+
+export const normalizeStatus = (status?: string | null): User['status'] => {
+  const normalized = (status ?? 'ACTIVE').trim().toUpperCase();
+  if (normalized === 'DISABLED' || normalized === 'BANNED') return normalized;
+  return 'ACTIVE';
+};
+
+const ORDER_STATUSES = ['PENDING', 'PAID', 'SHIPPED', 'COMPLETED', 'CANCELLED'] as const;
+
+const normalizeOrderStatus = (status?: string | null): Order['status'] => {
+  const normalized = (status ?? '').trim().toUpperCase();
+  return ORDER_STATUSES.find((candidate) => candidate === normalized);
+};
+
+const optionalText = z.string().nullish();
+
+// Pick the first non-empty string; the backend has used several names for the same field
+const firstText = (...values: Array<string | null | undefined>) =>
+  values.find((value): value is string => typeof value === 'string' && value.trim().length > 0);
+
+export const productSchema: z.ZodType<Product> = z.object({
+  id: z.coerce.number(),
+  name: z.string(),
+  description: optionalText,
+  tags: optionalText,
+  features: optionalText,
+  price: z.coerce.number(),
+  stock: z.coerce.number(),
+  imageUrl: optionalText,
+  categories: optionalText,
+  weight: z.coerce.number().nullish(),
+});
+
+const facetCountSchema = z.object({ value: z.coerce.string(), count: z.coerce.number() });
+
+export const productFacetsSchema: z.ZodType<ProductFacets> = z.object({
+  categories: z.array(facetCountSchema).default([]),
+  tags: z.array(facetCountSchema).default([]),
+  priceRange: z.object({ min: z.coerce.number(), max: z.coerce.number() }).nullish().transform((value) => value ?? null),
+  inStock: z.coerce.number().default(0),
+  outOfStock: z.coerce.number().default(0),
+});
+
+const EMPTY_FACETS: ProductFacets = { categories: [], tags: [], priceRange: null, inStock: 0, outOfStock: 0 };
+
+/**
+ * Spring Data Page of products, normalized to count pages from 1.
+ * Items are left unparsed here and validated one by one with parseResponseList.
+ */
+export const productPageSchema = z
+  .object({
+    content: z.array(z.unknown()),
+    totalElements: z.coerce.number(),
+    number: z.coerce.number().default(0),
+    size: z.coerce.number(),
+    facets: productFacetsSchema.nullish(),
+  })
+  .transform((raw) => ({
+    content: raw.content,
+    total: raw.totalElements,
+    page: raw.number + 1,
+    size: raw.size,
+    facets: raw.facets ?? EMPTY_FACETS,
+  }));
+
+export const cartSchema: z.ZodType<CartItem[]> = z
+  .object({
+    items: z.array(z.object({ product: productSchema, quantity: z.coerce.number().int().positive() })),
+  })
+  .transform((raw) => raw.items);
+
+export const userSchema: z.ZodType<User> = z
+  .object({
+    id: z.coerce.number(),
+    username: z.string(),
+    email: z.string().nullish(),
+    role: z.string().nullish(),
+    status: z.string().nullish(),
+    emailVerified: z.boolean().nullish(),
+    mfaEnabled: z.boolean().nullish(),
+    permissions: z.array(z.string()).nullish(),
+    impersonator: z.object({ id: z.coerce.number(), username: z.string() }).nullish(),
+  })
+  .transform((raw) => ({
+    id: raw.id,
+    username: raw.username,
+    email: raw.email ?? '',
+    role: normalizeRole(raw.role),
+    status: normalizeStatus(raw.status),
+    ...(typeof raw.emailVerified === 'boolean' ? { emailVerified: raw.emailVerified } : {}),
+    ...(typeof raw.mfaEnabled === 'boolean' ? { mfaEnabled: raw.mfaEnabled } : {}),
+    ...(raw.permissions ? { permissions: parsePermissions(raw.permissions) } : {}),
+    ...(raw.impersonator ? { impersonator: raw.impersonator } : {}),
+  }));
+
+// Missing flags keep the default: order updates on, marketing off
+export const notificationPreferencesSchema: z.ZodType<NotificationPreferences> = z.object({
+  orderUpdates: z.boolean().default(true),
+  wishlistAlerts: z.boolean().default(false),
+  promotions: z.boolean().default(false),
+});
+
+export const orderItemSchema: z.ZodType<OrderItem> = z.object({
+  id: z.coerce.number(),
+  product: productSchema,
+  quantity: z.coerce.number(),
+  price: z.coerce.number(),
+});
+
+export const discountLineSchema: z.ZodType<DiscountLine> = z.object({
+  code: z.string(),
+  label: z.string(),
+  amount: z.coerce.number(),
+  freeShipping: z.boolean().nullish().transform((value) => value ?? false),
+});
+
+export const orderSchema: z.ZodType<Order> = z
+  .object({
+    id: z.coerce.number(),
+    userId: z.coerce.number().nullish(),
+    total: z.coerce.number(),
+    createdAt: z.string(),
+    items: z.array(orderItemSchema).nullish(),
+    discounts: z.array(discountLineSchema).nullish(),
+    shipping: z.coerce.number().nullish(),
+    tax: z.coerce.number().nullish(),
+    user: userSchema.nullish(),
+    status: z.string().nullish(),
+    customerName: optionalText,
+    customerEmail: optionalText,
+    username: optionalText,
+    user_email: optionalText,
+    userEmail: optionalText,
+    useremail: optionalText,
+  })
+  .transform((raw) => ({
+    id: raw.id,
+    userId: raw.userId ?? raw.user?.id ?? 0,
+    total: raw.total,
+    createdAt: raw.createdAt,
+    items: raw.items ?? [],
+    discounts: raw.discounts ?? [],
+    shipping: raw.shipping ?? 0,
+    tax: raw.tax ?? 0,
+    user: raw.user ?? undefined,
+    status: normalizeOrderStatus(raw.status),
+    customerName: firstText(raw.username, raw.customerName, raw.user?.username),
+    customerEmail: firstText(raw.user_email, raw.userEmail, raw.useremail, raw.user?.email, raw.customerEmail),
+  }));
+
+const reviewFields = {
+  id: z.union([z.number(), z.string()]),
+  productId: z.coerce.number(),
+  rating: z.coerce.number().min(1).max(5),
+  title: z.string().nullish().transform((value) => value ?? ''),
+  comment: z.string().nullish().transform((value) => value ?? ''),
+  createdAt: z.string(),
+  reviewerName: z.string().nullish().transform((value) => firstText(value) ?? 'Anonymous'),
+  verifiedPurchase: z.boolean().nullish().transform((value) => value ?? false),
+  helpfulCount: z.coerce.number().optional(),
+};
+
+export const reviewSchema: z.ZodType<Review> = z.object(reviewFields);
+
+export const adminReviewSchema = z.object({
+  ...reviewFields,
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'HIDDEN']),
+  helpfulCount: z.coerce.number().nullish().transform((value) => value ?? 0),
+});
+
+export const reviewSummarySchema = z.object({
+  productId: z.coerce.number(),
+  averageRating: z.coerce.number().default(0),
+  reviewCount: z.coerce.number().default(0),
+  count1: z.coerce.number().default(0),
+  count2: z.coerce.number().default(0),
+  count3: z.coerce.number().default(0),
+  count4: z.coerce.number().default(0),
+  count5: z.coerce.number().default(0),
+});
+
+export const auditEntrySchema: z.ZodType<AuditEntry> = z.object({
+  id: z.coerce.number(),
+  actor: z.object({ id: z.coerce.number(), username: z.string() }),
+  action: z.string(),
+  entityType: z.enum(['product', 'user', 'review', 'promotion', 'pricing']),
+  entityId: z.coerce.string(),
+  entityLabel: z.string().nullish().transform((value) => value ?? null),
+  changes: z
+    .array(z.object({ field: z.string(), before: z.unknown(), after: z.unknown() }))
+    .nullish()
+    .transform((value) => (value ?? []).map((change) => ({ ...change, before: change.before ?? null, after: change.after ?? null }))),
+  reason: z.string().nullish().transform((value) => value ?? null),
+  createdAt: z.string(),
+});
+
+const nullableNumber = z.coerce.number().nullish().transform((value) => value ?? null);
+const nullableText = z.string().nullish().transform((value) => value || null);
+
+const promotionRuleFields = {
+  code: z.string().min(1),
+  description: nullableText,
+  type: z.enum(['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING', 'BUY_X_GET_Y']),
+  value: z.coerce.number().nullish().transform((value) => value ?? 0),
+  buyQuantity: nullableNumber,
+  getQuantity: nullableNumber,
+  minSpend: nullableNumber,
+  productIds: z.array(z.coerce.number()).nullish().transform((value) => value ?? []),
+  categories: z.array(z.string()).nullish().transform((value) => value ?? []),
+  startsAt: nullableText,
+  expiresAt: nullableText,
+};
+
+export const promotionRulesSchema: z.ZodType<PromotionRules> = z.object(promotionRuleFields);
+
+export const promotionSchema: z.ZodType<Promotion> = z.object({
+  ...promotionRuleFields,
+  id: z.coerce.number(),
+  active: z.boolean(),
+  usageLimit: nullableNumber,
+  usageCount: z.coerce.number().nullish().transform((value) => value ?? 0),
+  createdAt: z.string(),
+});
+
+export const pricingRulesSchema: z.ZodType<PricingRules> = z.object({
+  defaultTaxRate: z.coerce.number(),
+  taxRates: z.array(
+    z.object({
+      country: z.string(),
+      postalPrefix: nullableText,
+      rate: z.coerce.number(),
+      label: z.string(),
+    })
+  ),
+  shippingBasis: z.enum(['SUBTOTAL', 'WEIGHT']),
+  shippingRates: z.array(z.object({ upTo: nullableNumber, amount: z.coerce.number() })),
+  defaultItemWeight: z.coerce.number(),
+  freeShipping: z.array(
+    z.object({
+      minSubtotal: z.coerce.number(),
+      countries: z.array(z.string()).nullish().transform((value) => value ?? []),
+    })
+  ),
+  updatedAt: nullableText,
+});
+
+export const loginResponseSchema: z.ZodType<LoginResponse> = z.object({
+  token: z.string().min(1),
+  expiresAt: z.string(),
+  tokenType: z.string().nullish().transform(() => 'Bearer' as const),
+  role: z.string().optional(),
+  refreshToken: z.string().optional(),
+});
+
+export const sessionResponseSchema: z.ZodType<SessionResponse> = z.object({
+  user: userSchema,
+  expiresAt: z.string(),
+});
+
+export const mfaChallengeSchema: z.ZodType<MfaChallenge> = z.object({
+  mfaRequired: z.literal(true),
+  mfaToken: z.string().min(1),
+});
+
+export const mfaEnrollmentSchema: z.ZodType<MfaEnrollment> = z.object({
+  secret: z.string().min(1),
+  otpauthUri: z.string().startsWith('otpauth://'),
+  qrCodeDataUri: z.string().startsWith('data:image/').optional(),
+  recoveryCodes: z.array(z.string()),
+});
+
+const reportDrift = (context: string, error: z.ZodError, data: unknown) => {
+  if (process.env.NODE_ENV === 'production') return;
+  console.error(`[API] ${context} response does not match the expected shape:\n${z.prettifyError(error)}`, data);
+};
+
+/**
+ * Validate a single response object, throwing an ApiError when it does not fit the schema
+ */
+export function parseResponse<T>(schema: z.ZodType<T>, data: unknown, context: string): T {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  reportDrift(context, result.error, data);
+  throw new ApiError(`Received unexpected ${context} data from the server.`, 0, result.error, 'schema');
+}
+
+/**
+ * Validate a list response item by item.
+ * Malformed entries are dropped (and reported in development) so one bad row does not blank the whole screen.
+ */
+export function parseResponseList<T>(schema: z.ZodType<T>, data: unknown, context: string): T[] {
+  if (!Array.isArray(data)) {
+    return parseResponse(z.array(schema), data, `${context} list`);
+  }
+
+  return data.flatMap((entry, index) => {
+    const result = schema.safeParse(entry);
+    if (result.success) return [result.data];
+    reportDrift(`${context}[${index}]`, result.error, entry);
+    return [];
+  });
+}
@@ -19,6 +19,20 @@ export const config = {
     enableErrorTracking: process.env.NEXT_PUBLIC_ENABLE_ERROR_TRACKING !== 'false',
   },
 
+  // Session timing
+  session: {
+    // How long before the access token expires to offer "stay signed in"
+    expiryWarningMs: 2 * 60 * 1000,
+    // Admins are signed out after this many minutes without input; 0 or unset turns it off
+    adminIdleTimeoutMs: (Number(process.env.NEXT_PUBLIC_ADMIN_IDLE_TIMEOUT_MINUTES) || 0) * 60 * 1000,
+  },
+
+  // Account security
+  security: {
+    // Admin pages need a session that passed two-factor sign-in; set to "false" only for local development
+    requireAdminMfa: process.env.NEXT_PUBLIC_REQUIRE_ADMIN_MFA !== 'false',
+  },
+
   // Site metadata
   site: {
     name: 'ShopLite',
@@ -0,0 +1,51 @@
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { getApiFieldErrors } from '../services/apiError';
+
+/**
+ * Helpers for showing backend validation errors next to the form fields they belong to
+ */
+
+// Backend field paths can be nested ("items[0].quantity") or use a different name than the form
+type FieldMap<K extends string> = Partial<Record<string, K>>;
+
+const resolveField = <K extends string>(field: string, fields: readonly K[], fieldMap?: FieldMap<K>): K | undefined => {
+  const mapped = fieldMap?.[field];
+  if (mapped) return mapped;
+  const root = field.split(/[.[]/)[0];
+  return fields.find((candidate) => candidate === field || candidate === root);
+};
+
+/**
+ * Collect an error's field violations for the given form fields, first message per field wins.
+ * Violations for fields the form does not have are left out.
+ */
+export function getFormFieldErrors<K extends string>(
+  error: unknown,
+  fields: readonly K[],
+  fieldMap?: FieldMap<K>
+): Partial<Record<K, string>> {
+  const result: Partial<Record<K, string>> = {};
+  getApiFieldErrors(error).forEach(({ field, message }) => {
+    const key = resolveField(field, fields, fieldMap);
+    if (key && !result[key]) result[key] = message;
+  });
+  return result;
+}
+
+/**
+ * Push an error's field violations into react-hook-form.
+ * Returns true when at least one field error was applied, so callers can skip the generic message.
+ */
+export function applyApiFieldErrors<T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: readonly Path<T>[],
+  fieldMap?: FieldMap<Path<T>>
+): boolean {
+  const fieldErrors = getFormFieldErrors(error, fields, fieldMap);
+  const entries = Object.entries(fieldErrors) as Array<[Path<T>, string]>;
+  entries.forEach(([field, message], index) => {
+    setError(field, { type: 'server', message }, { shouldFocus: index === 0 });
+  });
+  return entries.length > 0;
+}
@@ -0,0 +1,165 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { SessionResponse } from '../types/api';
+import { loginResponseSchema, mfaChallengeSchema, parseResponse } from './apiSchemas';
+import { AUTH_COOKIE, IMPERSONATOR_COOKIE, REFRESH_COOKIE, sessionFromToken } from '../utils/auth';
+
+/**
+ * Server-side half of the session, used by the routes in pages/api.
+ * Backend tokens live in httpOnly cookies and the bearer header is attached here, so browser scripts never see a token.
+ */
+
+export const BACKEND_API_URL = process.env.BACKEND_API_URL ?? 'https://backend-product-3hdb.onrender.com';
+
+// Outlives the access token on purpose; the refresh token decides when the session really ends
+const SESSION_COOKIE_MAX_AGE_S = 60 * 60 * 24 * 30;
+
+export interface BackendResult {
+  status: number;
+  body: unknown;
+}
+
+const serializeCookie = (name: string, value: string, maxAge: number) => {
+  const parts = [`${name}=${encodeURIComponent(value)}`, 'Path=/', `Max-Age=${maxAge}`, 'HttpOnly', 'SameSite=Lax'];
+  if (process.env.NODE_ENV === 'production') parts.push('Secure');
+  return parts.join('; ');
+};
+
+// Any new session of the admin's own ends an impersonation, so the parked refresh token goes too
+const setSessionCookies = (res: NextApiResponse, token: string, refreshToken?: string) => {
+  const cookies = [serializeCookie(AUTH_COOKIE, token, SESSION_COOKIE_MAX_AGE_S), serializeCookie(IMPERSONATOR_COOKIE, '', 0)];
+  if (refreshToken) cookies.push(serializeCookie(REFRESH_COOKIE, refreshToken, SESSION_COOKIE_MAX_AGE_S));
+  res.setHeader('Set-Cookie', cookies);
+};
+
+export const clearSessionCookies = (res: NextApiResponse) => {
+  res.setHeader('Set-Cookie', [
+    serializeCookie(AUTH_COOKIE, '', 0),
+    serializeCookie(REFRESH_COOKIE, '', 0),
+    serializeCookie(IMPERSONATOR_COOKIE, '', 0),
+  ]);
+};
+
+export const backendFetch = (path: string, init: RequestInit = {}) => fetch(`${BACKEND_API_URL}/api${path}`, init);
+
+const readBackendBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { message: text };
+  }
+};
+
+export const postToBackend = async (path: string, body: unknown, token?: string): Promise<BackendResult> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', Accept: 'application/json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  const response = await backendFetch(path, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body ?? {}),
+  });
+  return { status: response.status, body: await readBackendBody(response) };
+};
+
+/**
+ * Store the tokens from a backend LoginResponse and return the session the browser is allowed to see
+ */
+export const completeSession = (res: NextApiResponse, body: unknown, previousRefreshToken?: string): SessionResponse => {
+  const data = parseResponse(loginResponseSchema, body, 'login');
+  // Servers that rotate refresh tokens send a new one; otherwise keep the current one
+  setSessionCookies(res, data.token, data.refreshToken ?? previousRefreshToken);
+  return sessionFromToken(data.token, data.expiresAt, data.role);
+};
+
+/**
+ * Exchange the refresh cookie for new tokens.
+ * Resolves null, and clears the cookies, when the session cannot be renewed.
+ */
+export const renewSession = async (req: NextApiRequest, res: NextApiResponse): Promise<SessionResponse | null> => {
+  // Only the session's own refresh token renews it. An impersonation has none, and the admin's parked token is
+  // left for endImpersonationSession: renewing with it here would replay the customer's request as the admin.
+  const refreshToken = req.cookies[REFRESH_COOKIE];
+  if (!refreshToken) return null;
+
+  const { status, body } = await postToBackend('/auth/refresh', { refreshToken });
+  if (status < 200 || status >= 300) {
+    clearSessionCookies(res);
+    return null;
+  }
+  return completeSession(res, body, refreshToken);
+};
+
+/**
+ * Wrap a session route so an unreachable or misbehaving backend answers 502 instead of crashing the handler
+ */
+export const withBackend =
+  (methods: string[], handler: (req: NextApiRequest, res: NextApiResponse) => Promise<void>) =>
+  async (req: NextApiRequest, res: NextApiResponse) => {
+    if (!methods.includes(req.method ?? 'GET')) {
+      res.setHeader('Allow', methods.join(', '));
+      res.status(405).json({ message: `Method ${req.method} not allowed` });
+      return;
+    }
+
+    try {
+      await handler(req, res);
+    } catch (error) {
+      console.error(`[BFF] ${req.method} ${req.url} failed`, error);
+      if (!res.headersSent) {
+        res.status(502).json({ message: 'The server could not be reached. Please try again.' });
+      }
+    }
+  };
+
+/**
+ * Forward a sign-in or sign-up to the backend and swap the returned tokens for session cookies
+ */
+export const forwardCredentials = async (req: NextApiRequest, res: NextApiResponse, path: string) => {
+  const { status, body } = await postToBackend(path, req.body);
+  if (status < 200 || status >= 300) {
+    // Bad credentials and validation errors pass through untouched so the forms can show them
+    res.status(status).json(body ?? {});
+    return;
+  }
+  // Two-factor accounts get a challenge instead of tokens; no session exists until /auth/mfa/verify succeeds
+  const challenge = mfaChallengeSchema.safeParse(body);
+  if (challenge.success) {
+    res.status(status).json(challenge.data);
+    return;
+  }
+  res.status(status).json(completeSession(res, body));
+};
+
+/**
+ * Swap the admin's session for the short-lived customer session the backend issued.
+ * The impersonation session gets no refresh token of its own; the admin's waits in IMPERSONATOR_COOKIE.
+ */
+export const startImpersonationSession = (res: NextApiResponse, body: unknown, adminRefreshToken: string): SessionResponse => {
+  const data = parseResponse(loginResponseSchema, body, 'impersonation');
+  res.setHeader('Set-Cookie', [
+    serializeCookie(AUTH_COOKIE, data.token, SESSION_COOKIE_MAX_AGE_S),
+    serializeCookie(REFRESH_COOKIE, '', 0),
+    serializeCookie(IMPERSONATOR_COOKIE, adminRefreshToken, SESSION_COOKIE_MAX_AGE_S),
+  ]);
+  return sessionFromToken(data.token, data.expiresAt, data.role);
+};
+
+/**
+ * Bring the admin's own session back with the parked refresh token.
+ * Resolves null, and clears every session cookie, when there is nothing to return to.
+ */
+export const endImpersonationSession = async (req: NextApiRequest, res: NextApiResponse): Promise<SessionResponse | null> => {
+  const adminRefreshToken = req.cookies[IMPERSONATOR_COOKIE];
+  if (!adminRefreshToken) {
+    clearSessionCookies(res);
+    return null;
+  }
+
+  const { status, body } = await postToBackend('/auth/refresh', { refreshToken: adminRefreshToken });
+  if (status < 200 || status >= 300) {
+    clearSessionCookies(res);
+    return null;
+  }
+  return completeSession(res, body, adminRefreshToken);
+};
@@ -21,14 +21,113 @@ export const productFormSchema = z.object({
     .or(z.number())
     .refine(val => !isNaN(Number(val)) && Number(val) >= 0, 'Stock cannot be negative'),
   imageUrl: z.string().url('Image URL must be valid').optional().nullable(),
+  weight: z
+    .string()
+    .or(z.number())
+    .optional()
+    .nullable()
+    .refine(val => val === undefined || val === null || val === '' || (!isNaN(Number(val)) && Number(val) > 0), 'Weight must be greater than 0'),
 });
 
 export type ProductFormData = z.infer<typeof productFormSchema>;
 
+// Promotion form schema; numbers stay strings until submit so empty optional fields mean "no limit"
+const optionalAmount = (message: string) =>
+  z.string().refine((val) => val.trim() === '' || (!isNaN(Number(val)) && Number(val) > 0), message);
+
+export const promotionFormSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9_-]{3,32}$/, 'Use 3 to 32 letters, numbers, dashes or underscores'),
+    description: z.string().max(255, 'Description must be less than 255 characters'),
+    type: z.enum(['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING', 'BUY_X_GET_Y']),
+    value: z.string(),
+    buyQuantity: z.string(),
+    getQuantity: z.string(),
+    minSpend: optionalAmount('Minimum spend must be greater than 0'),
+    productIds: z.string().refine((val) => /^(\s*\d+\s*(,\s*\d+\s*)*)?$/.test(val), 'List product ids separated by commas'),
+    categories: z.string(),
+    startsAt: z.string(),
+    expiresAt: z.string(),
+    usageLimit: z.string().refine((val) => val.trim() === '' || /^[1-9]\d*$/.test(val.trim()), 'Usage limit must be a whole number above 0'),
+    active: z.boolean(),
+  })
+  .refine((data) => data.type !== 'PERCENTAGE' || (Number(data.value) > 0 && Number(data.value) <= 100), {
+    message: 'Percentage must be above 0 and at most 100',
+    path: ['value'],
+  })
+  .refine((data) => data.type !== 'FIXED_AMOUNT' || Number(data.value) > 0, {
+    message: 'Amount must be greater than 0',
+    path: ['value'],
+  })
+  .refine((data) => data.type !== 'BUY_X_GET_Y' || /^[1-9]\d*$/.test(data.buyQuantity.trim()), {
+    message: 'Buy quantity must be a whole number above 0',
+    path: ['buyQuantity'],
+  })
+  .refine((data) => data.type !== 'BUY_X_GET_Y' || /^[1-9]\d*$/.test(data.getQuantity.trim()), {
+    message: 'Free quantity must be a whole number above 0',
+    path: ['getQuantity'],
+  })
+  .refine((data) => !data.startsAt || !data.expiresAt || data.expiresAt > data.startsAt, {
+    message: 'Expiry must be after the start date',
+    path: ['expiresAt'],
+  });
+
+export type PromotionFormData = z.infer<typeof promotionFormSchema>;
+
+// Pricing form schema; each list is edited as a table of rows
+const percent = (message: string) =>
+  z.string().refine((val) => val.trim() !== '' && Number(val) >= 0 && Number(val) <= 100, message);
+const requiredAmount = (message: string) =>
+  z.string().refine((val) => val.trim() !== '' && Number(val) >= 0, message);
+
+export const pricingFormSchema = z.object({
+  defaultTaxRate: percent('Default tax rate must be between 0 and 100'),
+  taxRates: z.array(
+    z.object({
+      country: z.string().min(1, 'Choose a country'),
+      postalPrefix: z.string().regex(/^[A-Za-z0-9 ]*$/, 'Use letters and numbers only'),
+      rate: percent('Rate must be between 0 and 100'),
+      label: z.string().trim().min(1, 'Give the tax a name').max(60, 'Name must be less than 60 characters'),
+    })
+  ),
+  shippingBasis: z.enum(['SUBTOTAL', 'WEIGHT']),
+  shippingRates: z
+    .array(
+      z.object({
+        upTo: optionalAmount('Upper limit must be greater than 0'),
+        amount: requiredAmount('Price must be 0 or more'),
+      })
+    )
+    .min(1, 'Add at least one shipping rate')
+    .refine((rates) => rates.filter((rate) => rate.upTo.trim() === '').length <= 1, 'Only one shipping rate can be open-ended'),
+  defaultItemWeight: z.string().refine((val) => Number(val) > 0, 'Default weight must be greater than 0'),
+  freeShipping: z.array(
+    z.object({
+      minSubtotal: requiredAmount('Minimum must be 0 or more'),
+      countries: z.string().refine((val) => /^(\s*[A-Za-z]{2}\s*(,\s*[A-Za-z]{2}\s*)*)?$/.test(val), 'List country codes separated by commas'),
+    })
+  ),
+});
+
+export type PricingFormData = z.infer<typeof pricingFormSchema>;
+
+// Password strength rules, shared by every form that sets a password
+export const PASSWORD_RULES_HINT = 'At least 8 characters, 1 uppercase letter, 1 number';
+
+export const passwordSchema = z
+  .string()
+  .min(1, 'Password is required')
+  .min(8, 'Password must be at least 8 characters')
+  .regex(/[A-Z]/, 'Password must contain an uppercase letter')
+  .regex(/[0-9]/, 'Password must contain a number');
+
 // User registration schema
 export const registerFormSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z.string().min(8, 'Password must be at least 8 characters'),
+  password: passwordSchema,
   confirmPassword: z.string(),
   name: z.string().min(1, 'Name is required'),
 }).refine(data => data.password === data.confirmPassword, {
@@ -46,6 +145,79 @@ export const loginFormSchema = z.object({
 
 export type LoginFormData = z.infer<typeof loginFormSchema>;
 
+// Forgot-password schema
+export const forgotPasswordFormSchema = z.object({
+  email: z.string().min(1, 'Email is required').email('Please enter a valid email address'),
+});
+
+export type ForgotPasswordFormData = z.infer<typeof forgotPasswordFormSchema>;
+
+// Reset-password schema
+export const resetPasswordFormSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string().min(1, 'Please confirm your new password'),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+export type ResetPasswordFormData = z.infer<typeof resetPasswordFormSchema>;
+
+// Account settings schemas
+export const profileFormSchema = z.object({
+  username: z.string().trim().min(3, 'Username must be at least 3 characters').max(50, 'Username must be less than 50 characters'),
+  email: z.string().trim().min(1, 'Email is required').email('Please enter a valid email address'),
+});
+
+export type ProfileFormData = z.infer<typeof profileFormSchema>;
+
+export const changePasswordFormSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'Enter your current password'),
+    newPassword: passwordSchema,
+    confirmPassword: z.string().min(1, 'Please confirm your new password'),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: 'Choose a password different from the current one',
+    path: ['newPassword'],
+  });
+
+export type ChangePasswordFormData = z.infer<typeof changePasswordFormSchema>;
+
+export const deleteAccountFormSchema = z.object({
+  password: z.string().min(1, 'Enter your password to confirm'),
+  confirmation: z.string().refine((value) => value.trim() === 'DELETE', 'Type DELETE to confirm'),
+});
+
+export type DeleteAccountFormData = z.infer<typeof deleteAccountFormSchema>;
+
+// Two-factor schemas: sign-in and turning 2FA off also take a recovery code, setup needs the app's code
+export const mfaSignInFormSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Enter the code from your authenticator app')
+    .regex(/^(\d{3} ?\d{3}|[a-z0-9]{5}-[a-z0-9]{5})$/i, 'Enter a 6-digit code or a recovery code'),
+});
+
+export type MfaSignInFormData = z.infer<typeof mfaSignInFormSchema>;
+
+export const mfaSetupFormSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Enter the code from your authenticator app')
+    .regex(/^\d{3} ?\d{3}$/, 'Enter the 6-digit code shown in the app'),
+});
+
+export type MfaSetupFormData = z.infer<typeof mfaSetupFormSchema>;
+
 // Search/filter schema
 export const searchFormSchema = z.object({
   query: z.string(),
@@ -1,7 +1,5 @@
 import type { NextConfig } from 'next';
 
-const backendApiUrl = process.env.BACKEND_API_URL ?? 'https://backend-product-3hdb.onrender.com';
-
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   images: {
@@ -12,14 +10,6 @@ const nextConfig: NextConfig = {
       },
     ],
   },
-  async rewrites() {
-    return [
-      {
-        source: '/api/:path*',
-        destination: `${backendApiUrl}/api/:path*`,
-      },
-    ];
-  },
 };
 
 export default nextConfig;
@@ -10,13 +10,19 @@ import Footer from '../components/Footer';
 import { AuthProvider } from '../context/AuthContext';
 import { MessageProvider } from '../hooks/useMessage';
 import Toast from '../components/Toast';
+import OutboxSync from '../components/OutboxSync';
+import SessionExpiryModal from '../components/SessionExpiryModal';
+import ImpersonationBanner from '../components/ImpersonationBanner';
 import ErrorBoundary from '../components/ErrorBoundary';
 import { useRouter } from 'next/router';
 import { CartProvider } from '../context/CartContext';
+import { installDefaultApiMiddleware } from '../services/apiMiddleware';
+
+installDefaultApiMiddleware();
 
 function MyApp({ Component, pageProps }: AppProps) {
   const router = useRouter();
-  const hidePublicChrome = router.pathname.startsWith('/admin') || router.pathname.startsWith('/dashboard');
+  const hidePublicChrome = router.pathname.startsWith('/admin') || router.pathname.startsWith('/dashboard') || router.pathname.startsWith('/account');
 
   return (
     <AuthProvider>
@@ -26,8 +32,11 @@ function MyApp({ Component, pageProps }: AppProps) {
             <meta name="viewport" content="width=device-width, initial-scale=1.0" />
           </Head>
           <div className="page-wrapper">
+            <ImpersonationBanner />
             {!hidePublicChrome && <Navbar />}
             <Toast />
+            <OutboxSync />
+            <SessionExpiryModal />
             <ErrorBoundary>
               <Component {...pageProps} />
             </ErrorBoundary>
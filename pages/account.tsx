@@ -0,0 +1,64 @@
+import type { NextPage } from 'next';
+import Link from 'next/link';
+import ProtectedRoute from '../components/ProtectedRoute';
+import VerifyEmailBanner from '../components/VerifyEmailBanner';
+import DeleteAccountSettings from '../components/account/DeleteAccountSettings';
+import NotificationSettings from '../components/account/NotificationSettings';
+import PasswordSettings from '../components/account/PasswordSettings';
+import ProfileSettings from '../components/account/ProfileSettings';
+import { useAuth } from '../context/AuthContext';
+import { isImpersonating } from '../utils/auth';
+
+const AccountPage: NextPage = () => {
+  const { user } = useAuth();
+  const isReadOnly = isImpersonating(user);
+
+  return (
+    <ProtectedRoute>
+      <main className="layout">
+        <div className="section-title">
+          <div>
+            <h1 className="page-title">Account settings</h1>
+            <p className="page-subtitle">Update your details, password and the emails you get from us.</p>
+          </div>
+          <div className="dashboard-actions">
+            <Link className="button button-ghost" href="/dashboard">
+              Back to dashboard
+            </Link>
+          </div>
+        </div>
+
+        <VerifyEmailBanner className="dashboard-verify-banner" />
+
+        {isReadOnly && (
+          <div className="verify-banner dashboard-verify-banner" role="status">
+            <p>Account changes are turned off while viewing as a customer.</p>
+          </div>
+        )}
+
+        {/* A disabled fieldset switches off every control inside it */}
+        <fieldset className="account-fieldset" disabled={isReadOnly}>
+          <div className="account-grid">
+            {/* Keyed by account so the form starts from the signed-in user's details */}
+            <ProfileSettings key={user?.id ?? 'anonymous'} />
+            <PasswordSettings />
+            <NotificationSettings />
+            <section className="panel account-panel" aria-labelledby="account-security-title">
+              <h3 id="account-security-title">Two-factor authentication</h3>
+              <p className="form-hint">
+                {user?.mfaEnabled ? 'On. Signing in asks for a code from your authenticator app.' : 'Off. Add a code from an authenticator app to every sign-in.'}
+              </p>
+              <Link className="button button-ghost" href="/dashboard#security">
+                Manage two-factor
+              </Link>
+            </section>
+          </div>
+        </fieldset>
+
+        {!isReadOnly && <DeleteAccountSettings />}
+      </main>
+    </ProtectedRoute>
+  );
+};
+
+export default AccountPage;
@@ -4,23 +4,41 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
+import Can from '../../components/Can';
 import ProtectedRoute from '../../components/ProtectedRoute';
 import CustomerControlPanel from '../../components/admin/CustomerControlPanel';
+import AuditTab from '../../components/admin/AuditTab';
+import PromotionsTab from '../../components/admin/PromotionsTab';
+import PricingTab from '../../components/admin/PricingTab';
 import ReviewsTab from '../../components/admin/ReviewsTab';
-import { useProducts } from '../../hooks/useProducts';
+import { useProductMutations } from '../../hooks/useProductMutations';
+import { useProductPage } from '../../hooks/useProductPage';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
 import { useUsers } from '../../hooks/useUsers';
 import { useOrders } from '../../hooks/useOrders';
 import { useMessage } from '../../hooks/useMessage';
+import { usePermission } from '../../hooks/usePermission';
+import { useAuth } from '../../context/AuthContext';
 import { productFormSchema, type ProductFormData } from '../../lib/validationSchemas';
+import { applyApiFieldErrors } from '../../lib/formErrors';
+import { getErrorMessage } from '../../services/apiError';
+import { getProduct } from '../../services/products';
 import type { Order } from '../../types/order';
+import type { ProductQuery } from '../../types/product';
+import type { PermissionKey } from '../../types/user';
 import { formatCurrency } from '../../utils/format';
+import { hasPermission } from '../../utils/permissions';
 
-const navItems = [
+// Tabs with a permission are hidden from admins who lack it; the others disable what they cannot change
+const navItems: Array<{ label: string; icon: string; target: string; permission?: PermissionKey }> = [
   { label: 'Dashboard', icon: '📊', target: 'dashboard' },
   { label: 'Products',  icon: '📦', target: 'products' },
-  { label: 'Orders',    icon: '🧾', target: 'orders' },
-  { label: 'Customers', icon: '👥', target: 'customers' },
+  { label: 'Orders',    icon: '🧾', target: 'orders', permission: 'orders.read' },
+  { label: 'Customers', icon: '👥', target: 'customers', permission: 'users.read' },
   { label: 'Reviews',   icon: '⭐', target: 'reviews' },
+  { label: 'Promotions', icon: '🏷️', target: 'promotions', permission: 'promotions.manage' },
+  { label: 'Tax & shipping', icon: '🚚', target: 'pricing', permission: 'pricing.manage' },
+  { label: 'Audit log', icon: '🛡️', target: 'audit', permission: 'audit.read' },
 ];
 
 const orderStatusColor: Record<string, string> = {
@@ -31,42 +49,32 @@ const orderStatusColor: Record<string, string> = {
   CANCELLED: 'status-danger',
 };
 
-const getOrderStatus = (order: Order) => (order as { status?: string }).status ?? 'PENDING';
-
-// Prefer provided username/customer name, then user.username/email (cover snake_case & camelCase variants)
-const getOrderCustomerLabel = (order: Order) =>
-  order.username ??
-  order.customerName ??
-  order.user?.username ??
-  order.user_email ??
-  (order as { userEmail?: string }).userEmail ??
-  (order as { useremail?: string }).useremail ??
-  order.user?.email ??
-  order.customerEmail ??
-  'Customer';
-
-// Prefer associated user email, then customer email field if present (handle multiple casings)
-const getOrderCustomerEmail = (order: Order) =>
-  order.user_email ??
-  (order as { userEmail?: string }).userEmail ??
-  (order as { useremail?: string }).useremail ??
-  order.user?.email ??
-  order.customerEmail ??
-  '';
+const getOrderStatus = (order: Order) => order.status ?? 'PENDING';
+
+const getOrderCustomerLabel = (order: Order) => order.customerName ?? order.customerEmail ?? 'Customer';
+
+const getOrderCustomerEmail = (order: Order) => order.customerEmail ?? '';
 
 const PRODUCTS_PER_PAGE = 8;
+const LOW_STOCK_THRESHOLD = 5;
+// Restocking covers at most this many low-stock products at a time (the server's largest page)
+const LOW_STOCK_FETCH_LIMIT = 100;
 const ORDERS_PER_PAGE = 5;
 const PRODUCT_CATEGORY_SUGGESTIONS = ['Electronics', 'Accessories', 'Home', 'Office', 'Gaming', 'Essentials'];
 const PRODUCT_TAG_SUGGESTIONS = ['New', 'Edition', 'Discount', 'Top'];
+const PRODUCT_FORM_FIELDS = ['name', 'description', 'tags', 'features', 'categories', 'price', 'stock', 'imageUrl', 'weight'] as const;
 
 const AdminPage: NextPage = () => {
-  const { products, loading: productsLoading, loadProducts, createNewProduct, updateExistingProduct, deleteExistingProduct } = useProducts();
-  const { users, loading: usersLoading, loadUsers, removeUser, changeUserRole, changeUserStatus } = useUsers();
+  const { loading: productsLoading, loadProducts, createNewProduct, updateExistingProduct, deleteExistingProduct } = useProductMutations();
+  const { users, loading: usersLoading, loadUsers, removeUser, changeUserRole, changeUserStatus, changeUserPermissions } = useUsers();
   const { orders, isLoading: ordersLoading } = useOrders();
   const { showMessage } = useMessage();
+  const { user, impersonate } = useAuth();
+  const canWriteCatalog = usePermission('catalog.write');
+  const visibleNavItems = navItems.filter((item) => !item.permission || hasPermission(user, item.permission));
 
   const [productSearch, setProductSearch] = useState('');
-  const [activeNav, setActiveNav] = useState<'dashboard' | 'orders' | 'products' | 'customers' | 'reviews'>('dashboard');
+  const [activeNav, setActiveNav] = useState<'dashboard' | 'orders' | 'products' | 'customers' | 'reviews' | 'promotions' | 'pricing' | 'audit'>('dashboard');
   const [productStockFilter, setProductStockFilter] = useState<'ALL' | 'LOW' | 'HEALTHY'>('ALL');
   const [productView] = useState<'TABLE' | 'GRID'>('TABLE');
   const [dismissedLowStockAlert, setDismissedLowStockAlert] = useState(false);
@@ -78,6 +86,8 @@ const AdminPage: NextPage = () => {
   const [deletingProductId, setDeletingProductId] = useState<number | null>(null);
   const [selectedProductIds, setSelectedProductIds] = useState<number[]>([]);
   const [bulkStockValue, setBulkStockValue] = useState('');
+  // Sent with bulk stock and delete actions for the audit log
+  const [bulkReason, setBulkReason] = useState('');
   const [restockTarget, setRestockTarget] = useState('20');
   const [restockingProductId, setRestockingProductId] = useState<number | null>(null);
   const [isRestockingAll, setIsRestockingAll] = useState(false);
@@ -88,6 +98,8 @@ const AdminPage: NextPage = () => {
   const [hasAnnouncedOrders, setHasAnnouncedOrders] = useState(false);
   const [notificationOpen, setNotificationOpen] = useState(false);
   const [dismissedOrdersNotice, setDismissedOrdersNotice] = useState(false);
+  // The catalog is searched server-side, so wait for typing to pause
+  const debouncedProductSearch = useDebouncedValue(productSearch.trim());
 
   const {
     register,
@@ -95,6 +107,7 @@ const AdminPage: NextPage = () => {
     formState: { errors },
     reset,
     setValue,
+    setError,
     control,
   } = useForm<ProductFormData>({
     resolver: zodResolver(productFormSchema),
@@ -107,6 +120,7 @@ const AdminPage: NextPage = () => {
       price: '',
       stock: '',
       imageUrl: '',
+      weight: '',
     },
   });
 
@@ -135,14 +149,13 @@ const AdminPage: NextPage = () => {
   const watchedImageUrl = watchedImageUrlValue ?? '';
 
   useEffect(() => {
-    void loadProducts();
     void loadUsers();
-  }, [loadProducts, loadUsers]);
+  }, [loadUsers]);
 
   useEffect(() => {
     setProductPage(1);
     setSelectedProductIds([]);
-  }, [productSearch, productStockFilter, products.length]);
+  }, [debouncedProductSearch, productStockFilter]);
 
   useEffect(() => {
     setOrderPage(1);
@@ -179,22 +192,33 @@ const AdminPage: NextPage = () => {
   const hasNotification = notifications.length > 0;
   const ordersBadgeCount = !dismissedOrdersNotice ? (pendingOrdersCount || orders.length) : 0;
 
-  const filteredProducts = useMemo(() => {
-    const term = productSearch.trim().toLowerCase();
-    return products.filter((product) => {
-      const matchesSearch = term
-        ? `${product.name} ${product.description ?? ''} ${product.tags ?? ''} ${product.features ?? ''} ${product.categories ?? ''}`.toLowerCase().includes(term)
-        : true;
-      const isLow = product.stock <= 5;
-      const matchesStock =
-        productStockFilter === 'ALL' ? true : productStockFilter === 'LOW' ? isLow : !isLow;
-      return matchesSearch && matchesStock;
-    });
-  }, [productSearch, products, productStockFilter]);
-  const filteredLowStockCount = useMemo(
-    () => filteredProducts.filter((product) => product.stock <= 5).length,
-    [filteredProducts]
+  const productQuery = useMemo<ProductQuery>(
+    () => ({
+      q: debouncedProductSearch || undefined,
+      page: productPage,
+      size: PRODUCTS_PER_PAGE,
+      ...(productStockFilter === 'LOW' && { maxStock: LOW_STOCK_THRESHOLD }),
+      ...(productStockFilter === 'HEALTHY' && { minStock: LOW_STOCK_THRESHOLD + 1 }),
+    }),
+    [debouncedProductSearch, productPage, productStockFilter]
   );
+  const { items: pagedProducts, total: filteredProductCount, loading: productPageLoading } = useProductPage(productQuery);
+  // Only the total matters here, so ask for the smallest page
+  const { total: lowStockMatchCount } = useProductPage({
+    q: debouncedProductSearch || undefined,
+    maxStock: LOW_STOCK_THRESHOLD,
+    size: 1,
+  });
+  const filteredLowStockCount = productStockFilter === 'HEALTHY' ? 0 : lowStockMatchCount;
+  // The dashboard never loads the whole catalog: the count comes from a page total, and only low-stock products are fetched
+  const { total: catalogCount } = useProductPage({ size: 1 });
+  const { items: lowStockProducts, total: lowStockCount } = useProductPage({
+    maxStock: LOW_STOCK_THRESHOLD,
+    size: LOW_STOCK_FETCH_LIMIT,
+  });
+  const findLoadedProduct = (productId: number) =>
+    pagedProducts.find((product) => product.id === productId) ??
+    lowStockProducts.find((product) => product.id === productId);
 
   useEffect(() => {
     if (filteredLowStockCount === 0) {
@@ -231,14 +255,14 @@ const AdminPage: NextPage = () => {
 
   const summary = useMemo(() => {
     const revenue = orders.reduce((sum, order) => sum + order.total, 0);
-    const lowStock = products.filter((product) => product.stock <= 5);
     return {
       orders: orders.length,
       revenue,
-      products: products.length,
-      lowStock,
+      products: catalogCount,
+      lowStock: lowStockProducts,
+      lowStockCount,
     };
-  }, [orders, products]);
+  }, [orders, catalogCount, lowStockProducts, lowStockCount]);
 
   const lowStockShortlist = useMemo(() => summary.lowStock.slice(0, 6), [summary.lowStock]);
   const parsedRestockTarget = useMemo(() => {
@@ -340,10 +364,14 @@ const AdminPage: NextPage = () => {
       .slice(0, 6);
   }, [orders]);
 
-  const productPageCount = Math.max(1, Math.ceil(filteredProducts.length / PRODUCTS_PER_PAGE));
-  const pagedProducts = filteredProducts.slice((productPage - 1) * PRODUCTS_PER_PAGE, productPage * PRODUCTS_PER_PAGE);
-  const productRangeStart = filteredProducts.length === 0 ? 0 : (productPage - 1) * PRODUCTS_PER_PAGE + 1;
-  const productRangeEnd = Math.min(productPage * PRODUCTS_PER_PAGE, filteredProducts.length);
+  const productPageCount = Math.max(1, Math.ceil(filteredProductCount / PRODUCTS_PER_PAGE));
+  const productRangeStart = filteredProductCount === 0 ? 0 : (productPage - 1) * PRODUCTS_PER_PAGE + 1;
+  const productRangeEnd = Math.min(productPage * PRODUCTS_PER_PAGE, filteredProductCount);
+
+  // Deleting the last product on the last page would otherwise leave an empty page behind
+  useEffect(() => {
+    if (productPage > productPageCount) setProductPage(productPageCount);
+  }, [productPage, productPageCount]);
 
   const orderPageCount = Math.max(1, Math.ceil(filteredOrders.length / ORDERS_PER_PAGE));
   const pagedOrders = filteredOrders.slice((orderPage - 1) * ORDERS_PER_PAGE, orderPage * ORDERS_PER_PAGE);
@@ -353,11 +381,7 @@ const AdminPage: NextPage = () => {
     [orders, selectedOrderId]
   );
 
-  const editingProductName = useMemo(() => {
-    if (!selectedProductId) return '';
-    const match = products.find((product) => product.id === selectedProductId);
-    return match?.name ?? '';
-  }, [products, selectedProductId]);
+  const [editingProductName, setEditingProductName] = useState('');
   const categoryTokens = useMemo(
     () => watchedCategories.split(',').map((token) => token.trim()).filter(Boolean),
     [watchedCategories]
@@ -438,8 +462,9 @@ const AdminPage: NextPage = () => {
 
   const handleProductSelect = (productId: number) => {
     setSelectedProductId(productId);
-    const match = products.find((p) => p.id === productId);
+    const match = findLoadedProduct(productId);
     if (!match) return;
+    setEditingProductName(match.name);
     reset({
       name: match.name,
       description: match.description ?? '',
@@ -449,12 +474,13 @@ const AdminPage: NextPage = () => {
       price: match.price.toString(),
       stock: match.stock.toString(),
       imageUrl: match.imageUrl ?? '',
+      weight: match.weight?.toString() ?? '',
     });
   };
 
   const handleProductFormReset = () => {
     setSelectedProductId(null);
-    reset({ name: '', description: '', tags: '', features: '', categories: '', price: '', stock: '', imageUrl: '' });
+    reset({ name: '', description: '', tags: '', features: '', categories: '', price: '', stock: '', imageUrl: '', weight: '' });
   };
 
   const handleNavClick = (target: string) => {
@@ -465,7 +491,7 @@ const AdminPage: NextPage = () => {
     setIsProductSaving(true);
     try {
       if (selectedProductId) {
-        await updateExistingProduct(selectedProductId, {
+        const updated = await updateExistingProduct(selectedProductId, {
           name: data.name,
           description: data.description || null,
           tags: data.tags || null,
@@ -474,8 +500,13 @@ const AdminPage: NextPage = () => {
           price: Number(data.price),
           stock: Number(data.stock),
           imageUrl: data.imageUrl || null,
+          weight: data.weight ? Number(data.weight) : null,
         });
-        showMessage('success', 'Product updated');
+        if (updated) {
+          showMessage('success', 'Product updated');
+        } else {
+          showMessage('info', "You're offline. The product update is saved and will sync when you reconnect.");
+        }
       } else {
         await createNewProduct({
           name: data.name,
@@ -486,12 +517,17 @@ const AdminPage: NextPage = () => {
           price: Number(data.price),
           stock: Number(data.stock),
           imageUrl: data.imageUrl || null,
+          weight: data.weight ? Number(data.weight) : null,
         });
         showMessage('success', 'Product created');
       }
       handleProductFormReset();
-    } catch {
-      showMessage('error', 'Unable to save product');
+    } catch (err) {
+      if (applyApiFieldErrors(err, setError, PRODUCT_FORM_FIELDS)) {
+        showMessage('error', 'Please fix the highlighted fields.');
+      } else {
+        showMessage('error', getErrorMessage(err) || 'Unable to save product');
+      }
     } finally {
       setIsProductSaving(false);
     }
@@ -539,9 +575,11 @@ const AdminPage: NextPage = () => {
     }
     setIsBulkWorking(true);
     try {
-      await Promise.all(selectedProductIds.map((id) => deleteExistingProduct(id)));
+      const reason = bulkReason.trim() || undefined;
+      await Promise.all(selectedProductIds.map((id) => deleteExistingProduct(id, reason)));
       showMessage('success', `Deleted ${selectedProductIds.length} products.`);
       setSelectedProductIds([]);
+      setBulkReason('');
     } catch {
       showMessage('error', 'Bulk delete failed.');
     } finally {
@@ -561,10 +599,11 @@ const AdminPage: NextPage = () => {
     }
     setIsBulkWorking(true);
     try {
+      const reason = bulkReason.trim() || undefined;
+      // The selection can span pages, so each product is read fresh by id rather than from the current page
       await Promise.all(
-        selectedProductIds.map((id) => {
-          const product = products.find((item) => item.id === id);
-          if (!product) return Promise.resolve();
+        selectedProductIds.map(async (id) => {
+          const product = await getProduct(id);
           return updateExistingProduct(id, {
             name: product.name,
             description: product.description ?? null,
@@ -574,11 +613,13 @@ const AdminPage: NextPage = () => {
             price: product.price,
             stock: nextStock,
             imageUrl: product.imageUrl ?? null,
-          });
+            weight: product.weight ?? null,
+          }, reason);
         })
       );
       showMessage('success', 'Stock updated.');
       setBulkStockValue('');
+      setBulkReason('');
     } catch {
       showMessage('error', 'Bulk stock update failed.');
     } finally {
@@ -591,7 +632,7 @@ const AdminPage: NextPage = () => {
       showMessage('error', 'Set a valid restock target above 0.');
       return;
     }
-    const targetProduct = products.find((product) => product.id === productId);
+    const targetProduct = findLoadedProduct(productId);
     if (!targetProduct) {
       showMessage('error', 'Product not found.');
       return;
@@ -612,6 +653,7 @@ const AdminPage: NextPage = () => {
         price: targetProduct.price,
         stock: parsedRestockTarget,
         imageUrl: targetProduct.imageUrl ?? null,
+        weight: targetProduct.weight ?? null,
       });
       showMessage('success', `${targetProduct.name} restocked to ${parsedRestockTarget}.`);
     } catch {
@@ -645,6 +687,7 @@ const AdminPage: NextPage = () => {
             price: product.price,
             stock: parsedRestockTarget,
             imageUrl: product.imageUrl ?? null,
+            weight: product.weight ?? null,
           })
         )
       );
@@ -668,7 +711,7 @@ const AdminPage: NextPage = () => {
             </div>
           </div>
           <nav className="admin-nav gap-2" aria-label="Admin navigation">
-            {navItems.map((item) => (
+            {visibleNavItems.map((item) => (
               <button
                 key={item.label}
                 className={`admin-nav-item rounded-xl px-4 py-3 text-sm font-medium transition ${activeNav === item.target ? 'is-active' : ''}`}
@@ -684,7 +727,7 @@ const AdminPage: NextPage = () => {
             <div className="mini-card rounded-xl border border-white/10 bg-white/5 p-4">
               <div>
                 <div className="mini-label">Low stock</div>
-                <div className="mini-value">{summary.lowStock.length}</div>
+                <div className="mini-value">{summary.lowStockCount}</div>
               </div>
               <span className="pill status-warning">Alert</span>
             </div>
@@ -774,19 +817,21 @@ const AdminPage: NextPage = () => {
                     <button className="button button-ghost rounded-full border border-white/25 px-3 py-1.5 text-sm text-white" type="button" onClick={() => void loadProducts()}>
                       Sync data
                     </button>
-                    <button
-                      className="button button-primary rounded-full bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-md transition-all duration-200 hover:bg-blue-700 hover:shadow-lg"
-                      type="button"
-                      onClick={() => {
-                        handleProductFormReset();
-                        setActiveNav('products');
-                        setTimeout(() => {
-                          document.querySelector('.product-editor-form')?.scrollIntoView({ behavior: 'smooth' });
-                        }, 100);
-                      }}
-                    >
-                      + Add product
-                    </button>
+                    <Can permission="catalog.write">
+                      <button
+                        className="button button-primary rounded-full bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-md transition-all duration-200 hover:bg-blue-700 hover:shadow-lg"
+                        type="button"
+                        onClick={() => {
+                          handleProductFormReset();
+                          setActiveNav('products');
+                          setTimeout(() => {
+                            document.querySelector('.product-editor-form')?.scrollIntoView({ behavior: 'smooth' });
+                          }, 100);
+                        }}
+                      >
+                        + Add product
+                      </button>
+                    </Can>
                   </div>
                 </section>
 
@@ -804,7 +849,7 @@ const AdminPage: NextPage = () => {
                   <article className="admin-card rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
                     <div className="card-label">Products</div>
                     <div className="card-value">{summary.products}</div>
-                    <div className="card-foot">{summary.lowStock.length} low stock</div>
+                    <div className="card-foot">{summary.lowStockCount} low stock</div>
                   </article>
                   <article className="admin-card rounded-xl border border-slate-200 bg-white p-5 shadow-sm">
                     <div className="card-label">Customers</div>
@@ -924,7 +969,7 @@ const AdminPage: NextPage = () => {
                         <h3>Low stock alert</h3>
                         <p className="form-hint">Keep shelves full with one-click restock planning.</p>
                       </div>
-                      <span className="pill status-warning">{summary.lowStock.length} items</span>
+                      <span className="pill status-warning">{summary.lowStockCount} items</span>
                     </div>
                     <div className="restock-assistant">
                       <div className="restock-target">
@@ -1108,6 +1153,7 @@ const AdminPage: NextPage = () => {
                     <button
                       className="button button-primary products-header-cta"
                       type="button"
+                      disabled={!canWriteCatalog}
                       onClick={() => {
                         handleProductFormReset();
                         setTimeout(() => {
@@ -1127,8 +1173,8 @@ const AdminPage: NextPage = () => {
                         <span className="products-stat-card-label">Total products</span>
                         <span className="products-stat-card-icon">ðŸ“¦</span>
                       </div>
-                      <strong className="products-stat-card-value">{products.length}</strong>
-                      <div className="products-stat-progress"><span style={{ width: `${Math.min(100, Math.max(8, products.length * 4))}%` }} /></div>
+                      <strong className="products-stat-card-value">{catalogCount}</strong>
+                      <div className="products-stat-progress"><span style={{ width: `${Math.min(100, Math.max(8, catalogCount * 4))}%` }} /></div>
                       <p className="products-stat-note">Catalog growth is healthy.</p>
                     </article>
                     <article className={`products-stat-card products-stat-card-low ${filteredLowStockCount > 0 ? 'is-alert' : ''}`}>
@@ -1137,7 +1183,7 @@ const AdminPage: NextPage = () => {
                         <span className="products-stat-card-icon">âš ï¸</span>
                       </div>
                       <strong className="products-stat-card-value">{filteredLowStockCount}</strong>
-                      <div className="products-stat-progress"><span style={{ width: `${Math.min(100, Math.max(8, filteredProducts.length > 0 ? Math.round((filteredLowStockCount / filteredProducts.length) * 100) : 8))}%` }} /></div>
+                      <div className="products-stat-progress"><span style={{ width: `${Math.min(100, Math.max(8, filteredProductCount > 0 ? Math.round((filteredLowStockCount / filteredProductCount) * 100) : 8))}%` }} /></div>
                       <p className="products-stat-note">{filteredLowStockCount > 0 ? 'Needs attention now.' : 'All inventory is healthy.'}</p>
                     </article>
                     <article className={`products-stat-card products-stat-card-selected ${selectedProductIds.length > 0 ? 'is-selected' : ''}`}>
@@ -1194,7 +1240,7 @@ const AdminPage: NextPage = () => {
                     </div>
                     <div className="products-low-stock-actions">
                       <input className="toolbar-input" type="number" min="1" step="1" value={restockTarget} onChange={(event) => setRestockTarget(event.target.value)} aria-label="Restock target" />
-                      <button className="button button-primary" type="button" onClick={() => void handleRestockAllLowStock()} disabled={isRestockingAll || !parsedRestockTarget || restockPlan.impactedProducts === 0}>{isRestockingAll ? 'Restocking...' : 'Quick restock'}</button>
+                      <button className="button button-primary" type="button" onClick={() => void handleRestockAllLowStock()} disabled={!canWriteCatalog || isRestockingAll || !parsedRestockTarget || restockPlan.impactedProducts === 0}>{isRestockingAll ? 'Restocking...' : 'Quick restock'}</button>
                       <button className="button button-ghost" type="button" onClick={() => setDismissedLowStockAlert(true)}>Dismiss</button>
                     </div>
                   </div>
@@ -1206,25 +1252,26 @@ const AdminPage: NextPage = () => {
                     <button className="button button-ghost" type="button" onClick={() => setSelectedProductIds([])}>Clear all</button>
                     <div className="bulk-stock">
                       <input className="toolbar-input" placeholder="Set stock" value={bulkStockValue} onChange={(event) => setBulkStockValue(event.target.value)} />
-                      <button className="button button-ghost" type="button" onClick={handleBulkStockUpdate} disabled={isBulkWorking}>{isBulkWorking ? 'Updating...' : 'Update stock'}</button>
+                      <button className="button button-ghost" type="button" onClick={handleBulkStockUpdate} disabled={!canWriteCatalog || isBulkWorking}>{isBulkWorking ? 'Updating...' : 'Update stock'}</button>
                     </div>
-                    <button className="button button-danger" type="button" onClick={handleBulkDeleteProducts} disabled={isBulkWorking}>{isBulkWorking ? 'Working...' : 'Delete selected'}</button>
+                    <input className="toolbar-input" placeholder="Reason (optional)" value={bulkReason} maxLength={200} onChange={(event) => setBulkReason(event.target.value)} aria-label="Reason for the bulk change, kept in the audit log" />
+                    <button className="button button-danger" type="button" onClick={handleBulkDeleteProducts} disabled={!canWriteCatalog || isBulkWorking}>{isBulkWorking ? 'Working...' : 'Delete selected'}</button>
                   </div>
                 )}
 
-                {productsLoading ? (
+                {productsLoading || productPageLoading ? (
                   <div className="table-skeleton products-loading-state">
                     <div className="skeleton-row" />
                     <div className="skeleton-row" />
                     <div className="skeleton-row" />
                     <p className="form-hint">Loading product inventory...</p>
                   </div>
-                ) : filteredProducts.length === 0 ? (
+                ) : filteredProductCount === 0 ? (
                   <div className="empty-state empty-state-enhanced">
                     <div className="empty-state-icon">Catalog</div>
-                    <h3>{products.length === 0 ? 'No products yet' : 'No products match your filters'}</h3>
-                    <p>{products.length === 0 ? 'Create your first listing to start selling.' : 'Try changing search text or stock filters.'}</p>
-                    {products.length === 0 ? (
+                    <h3>{catalogCount === 0 ? 'No products yet' : 'No products match your filters'}</h3>
+                    <p>{catalogCount === 0 ? 'Create your first listing to start selling.' : 'Try changing search text or stock filters.'}</p>
+                    {catalogCount === 0 ? (
                       <button className="button button-primary" type="button" onClick={() => handleProductFormReset()}>
                         Add first product
                       </button>
@@ -1375,17 +1422,17 @@ const AdminPage: NextPage = () => {
                               <td className="product-actions-cell" data-label="Actions">
                                 <div className="product-actions-content">
                                   <div className="product-actions-main">
-                                    <button className="button button-ghost" type="button" onClick={() => handleProductSelect(product.id)}>
+                                    <button className="button button-ghost" type="button" onClick={() => handleProductSelect(product.id)} disabled={!canWriteCatalog}>
                                       Edit
                                     </button>
-                                    <button className="button button-ghost" type="button" onClick={() => void handleRestockSingleProduct(product.id)} disabled={restockingProductId === product.id || !parsedRestockTarget || product.stock > 5}>
+                                    <button className="button button-ghost" type="button" onClick={() => void handleRestockSingleProduct(product.id)} disabled={!canWriteCatalog || restockingProductId === product.id || !parsedRestockTarget || product.stock > 5}>
                                       Restock
                                     </button>
                                     <button
                                       className="button button-danger"
                                       type="button"
                                       onClick={() => setConfirmProductId(product.id)}
-                                      disabled={deletingProductId === product.id}
+                                      disabled={!canWriteCatalog || deletingProductId === product.id}
                                     >
                                       {deletingProductId === product.id ? 'Deleting...' : 'Delete'}
                                     </button>
@@ -1414,9 +1461,9 @@ const AdminPage: NextPage = () => {
                     </table>
                   </div>
                 )}
-                {filteredProducts.length > 0 && (
+                {filteredProductCount > 0 && (
                   <div className="table-pagination pagination-enhanced">
-                    <div className="pagination-summary">Showing {productRangeStart} - {productRangeEnd} of {filteredProducts.length} products</div>
+                    <div className="pagination-summary">Showing {productRangeStart} - {productRangeEnd} of {filteredProductCount} products</div>
                     <div className="pagination-controls">
                       <button className="button button-ghost" type="button" onClick={() => setProductPage(1)} disabled={productPage === 1}>First</button>
                       <button className="button button-ghost" type="button" onClick={() => setProductPage((page) => Math.max(1, page - 1))} disabled={productPage === 1}>Prev</button>
@@ -1528,6 +1575,11 @@ const AdminPage: NextPage = () => {
                           <input className="form-input" type="number" min="0" {...register('stock')} />
                           {errors.stock && <span className="form-error">{errors.stock.message}</span>}
                         </label>
+                        <label className="form-label">
+                          <span>Weight (kg)</span>
+                          <input className="form-input" type="number" step="0.01" min="0" placeholder="Default" {...register('weight')} />
+                          {errors.weight && <span className="form-error">{errors.weight.message}</span>}
+                        </label>
                       </div>
 
                       <label className="form-label">
@@ -1585,29 +1637,15 @@ const AdminPage: NextPage = () => {
                     <button className="button button-ghost" type="button" onClick={handleProductFormReset}>
                       Cancel
                     </button>
-                    <button className="button button-primary" type="submit" disabled={isProductSaving}>
+                    <button className="button button-primary" type="submit" disabled={!canWriteCatalog || isProductSaving}>
                       {isProductSaving ? 'Saving...' : selectedProductId ? 'Update product' : 'Create product'}
                     </button>
                   </div>
                 </form>
 
-                <button
-                  className="products-add-fab"
-                  type="button"
-                  onClick={() => {
-                    handleProductFormReset();
-                    setTimeout(() => {
-                      document.querySelector('.product-editor-form')?.scrollIntoView({ behavior: 'smooth' });
-                    }, 100);
-                  }}
-                  aria-label="Add new product"
-                >
-                  +
-                </button>
-
-                <div className="products-mobile-bar">
+                <Can permission="catalog.write">
                   <button
-                    className="products-mobile-add"
+                    className="products-add-fab"
                     type="button"
                     onClick={() => {
                       handleProductFormReset();
@@ -1615,13 +1653,29 @@ const AdminPage: NextPage = () => {
                         document.querySelector('.product-editor-form')?.scrollIntoView({ behavior: 'smooth' });
                       }, 100);
                     }}
+                    aria-label="Add new product"
                   >
-                    <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                    </svg>
-                    Add New Product
+                    +
                   </button>
-                </div>
+
+                  <div className="products-mobile-bar">
+                    <button
+                      className="products-mobile-add"
+                      type="button"
+                      onClick={() => {
+                        handleProductFormReset();
+                        setTimeout(() => {
+                          document.querySelector('.product-editor-form')?.scrollIntoView({ behavior: 'smooth' });
+                        }, 100);
+                      }}
+                    >
+                      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                      </svg>
+                      Add New Product
+                    </button>
+                  </div>
+                </Can>
               </section>
             )}
 
@@ -1786,11 +1840,18 @@ const AdminPage: NextPage = () => {
                 onDeleteUser={removeUser}
                 onChangeUserRole={changeUserRole}
                 onChangeUserStatus={changeUserStatus}
+                onChangeUserPermissions={changeUserPermissions}
+                onImpersonateUser={impersonate}
                 notify={showMessage}
               />
             )}
 
             {activeNav === 'reviews' && <ReviewsTab />}
+
+            {activeNav === 'promotions' && <PromotionsTab />}
+            {activeNav === 'pricing' && <PricingTab />}
+
+            {activeNav === 'audit' && <AuditTab />}
           </main>
         </div>
       </div>
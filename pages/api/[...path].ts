@@ -0,0 +1,55 @@
+import type { IncomingMessage } from 'http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { backendFetch } from '../../lib/session';
+import { AUTH_COOKIE } from '../../utils/auth';
+
+/**
+ * Relays every other /api request to the backend with the bearer header taken from the session cookie
+ */
+
+// The raw body is forwarded as-is, whatever its content type
+export const config = {
+  api: { bodyParser: false },
+};
+
+const FORWARDED_REQUEST_HEADERS = ['accept', 'accept-language', 'content-type', 'idempotency-key', 'if-none-match'];
+const FORWARDED_RESPONSE_HEADERS = ['cache-control', 'content-type', 'etag', 'location', 'retry-after'];
+
+const readRawBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer));
+  }
+  return Buffer.concat(chunks);
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const method = req.method ?? 'GET';
+  const headers = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === 'string') headers.set(name, value);
+  }
+
+  const token = req.cookies[AUTH_COOKIE];
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+
+  try {
+    const body = method === 'GET' || method === 'HEAD' ? undefined : await readRawBody(req);
+    const upstream = await backendFetch((req.url ?? '/').replace(/^\/api/, ''), {
+      method,
+      headers,
+      body: body && body.length > 0 ? new Uint8Array(body) : undefined,
+    });
+
+    res.status(upstream.status);
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) res.setHeader(name, value);
+    }
+    res.send(Buffer.from(await upstream.arrayBuffer()));
+  } catch (error) {
+    console.error(`[BFF] ${method} ${req.url} could not reach the backend`, error);
+    res.status(502).json({ message: 'The server could not be reached. Please try again.' });
+  }
+}
@@ -0,0 +1,18 @@
+import { endImpersonationSession, postToBackend, withBackend } from '../../../../lib/session';
+import { AUTH_COOKIE } from '../../../../utils/auth';
+
+/**
+ * Return to the admin's own session. Works after the impersonation token has expired too.
+ */
+export default withBackend(['POST'], async (req, res) => {
+  const token = req.cookies[AUTH_COOKIE];
+  // Only closes the audit entry; the admin gets their session back even if the backend has already expired it
+  if (token) await postToBackend('/admin/impersonations/end', {}, token).catch(() => undefined);
+
+  const session = await endImpersonationSession(req, res);
+  if (!session) {
+    res.status(401).json({ message: 'There is no admin session to return to. Please sign in again.', code: 'NO_IMPERSONATION' });
+    return;
+  }
+  res.status(200).json(session);
+});
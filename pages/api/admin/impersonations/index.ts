@@ -0,0 +1,21 @@
+import { postToBackend, startImpersonationSession, withBackend } from '../../../../lib/session';
+import { AUTH_COOKIE, REFRESH_COOKIE } from '../../../../utils/auth';
+
+/**
+ * Start viewing the shop as a customer. The backend checks the admin's permission and records the audit entry.
+ */
+export default withBackend(['POST'], async (req, res) => {
+  const token = req.cookies[AUTH_COOKIE];
+  const adminRefreshToken = req.cookies[REFRESH_COOKIE];
+  if (!token || !adminRefreshToken) {
+    res.status(401).json({ message: 'Authentication required', code: 'NO_SESSION' });
+    return;
+  }
+
+  const { status, body } = await postToBackend('/admin/impersonations', req.body, token);
+  if (status < 200 || status >= 300) {
+    res.status(status).json(body ?? {});
+    return;
+  }
+  res.status(200).json(startImpersonationSession(res, body, adminRefreshToken));
+});
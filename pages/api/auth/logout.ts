@@ -0,0 +1,6 @@
+import { clearSessionCookies, withBackend } from '../../../lib/session';
+
+export default withBackend(['POST'], async (_req, res) => {
+  clearSessionCookies(res);
+  res.status(204).end();
+});
@@ -0,0 +1,3 @@
+import { forwardCredentials, withBackend } from '../../../../lib/session';
+
+export default withBackend(['POST'], (req, res) => forwardCredentials(req, res, '/auth/mfa/verify'));
@@ -0,0 +1,10 @@
+import { renewSession, withBackend } from '../../../lib/session';
+
+export default withBackend(['POST'], async (req, res) => {
+  const session = await renewSession(req, res);
+  if (!session) {
+    res.status(401).json({ message: 'Your session has expired. Please sign in again.', code: 'SESSION_EXPIRED' });
+    return;
+  }
+  res.status(200).json(session);
+});
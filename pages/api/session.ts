@@ -0,0 +1,23 @@
+import { renewSession, withBackend } from '../../lib/session';
+import { AUTH_COOKIE, getTokenExpiry, isTokenExpired, sessionFromToken } from '../../utils/auth';
+
+/**
+ * Who is signed in, read from the session cookie.
+ * An expired access token is renewed here so the browser never needs to know it lapsed.
+ */
+export default withBackend(['GET'], async (req, res) => {
+  res.setHeader('Cache-Control', 'no-store');
+
+  const token = req.cookies[AUTH_COOKIE];
+  if (token && !isTokenExpired(token)) {
+    res.status(200).json(sessionFromToken(token, getTokenExpiry(token) ?? ''));
+    return;
+  }
+
+  const session = await renewSession(req, res);
+  if (!session) {
+    res.status(401).json({ message: 'Not signed in', code: 'NO_SESSION' });
+    return;
+  }
+  res.status(200).json(session);
+});
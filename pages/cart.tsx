@@ -1,18 +1,51 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import type { NextPage } from 'next';
 import Link from 'next/link';
 import Image from 'next/image';
+import { useRouter } from 'next/router';
 import { useMessage } from '../hooks/useMessage';
 import { useOrders } from '../hooks/useOrders';
+import { useEmailVerification } from '../hooks/useEmailVerification';
+import { useOrderPricing } from '../hooks/usePricing';
 import { useCart } from '../context/CartContext';
+import { useAuth } from '../context/AuthContext';
+import CartChangesPanel from '../components/CartChangesPanel';
+import OrderSummary from '../components/OrderSummary';
+import PromoCodeForm from '../components/PromoCodeForm';
 import ProtectedRoute from '../components/ProtectedRoute';
+import { isImpersonating } from '../utils/auth';
 import { formatCurrency } from '../utils/format';
 
 const CartPage: NextPage = () => {
+  const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const { showMessage } = useMessage();
   const { checkout } = useOrders();
-  const { items: cartItems, total, itemCount: totalItems, removeItem, updateQuantity, clear } = useCart();
+  const { needsVerification } = useEmailVerification();
+  const { user } = useAuth();
+  // Admins viewing as this customer can look but not order
+  const isReadOnly = isImpersonating(user);
+  const {
+    items: cartItems,
+    total,
+    itemCount: totalItems,
+    removeItem,
+    updateQuantity,
+    clear,
+    isLoaded,
+    changes,
+    revalidate,
+    discounts,
+  } = useCart();
+  // No address is known yet, so tax is an estimate at the default rate
+  const { breakdown, error: pricingError, retry: retryPricing, confirmTotal } = useOrderPricing();
+  const hasUnseenChanges = changes.length > 0;
+
+  // Lines hold a product snapshot from when they were added; bring prices and stock up to date on arrival
+  useEffect(() => {
+    if (isLoaded) void revalidate();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoaded]);
 
   const handleRemove = (productId: number) => {
     removeItem(productId);
@@ -46,13 +79,30 @@ const CartPage: NextPage = () => {
     }
     setIsLoading(true);
     try {
+      if ((await revalidate()).length > 0) {
+        showMessage('error', 'Your cart changed. Please review the updates before checking out.');
+        return;
+      }
+      if (!breakdown || !(await confirmTotal())) {
+        showMessage('error', 'Shipping or tax rates have changed. Please review the new total.');
+        return;
+      }
       const orderItems = cartItems.map((item) => ({
         productId: item.product.id,
         quantity: item.quantity,
       }));
-      await checkout(orderItems);
+      const outcome = await checkout(orderItems, {
+        ...(discounts.length > 0 ? { promoCode: discounts[0].code, discounts } : {}),
+        expectedTotal: breakdown.total,
+      });
+      if (!outcome) return;
+      // Queued orders live in the outbox now, so the cart can be emptied for every outcome
       clear();
-      showMessage('success', 'Order placed successfully!');
+      if (outcome.status === 'duplicate') {
+        void router.push({ pathname: '/dashboard', query: { order: outcome.orderId } });
+      } else if (outcome.status === 'created') {
+        showMessage('success', 'Order placed successfully!');
+      }
     } catch (err) {
       console.error('Checkout failed:', err);
     } finally {
@@ -60,11 +110,12 @@ const CartPage: NextPage = () => {
     }
   };
 
-  const freeShippingThreshold = 100;
-  const shipping = total >= freeShippingThreshold ? 0 : 9;
-  const tax = total * 0.08;
-  const grandTotal = total + shipping + tax;
-  const progressPercent = Math.min(100, (total / freeShippingThreshold) * 100);
+  const freeShippingThreshold = breakdown?.freeShippingThreshold ?? null;
+  const discountedSubtotal = breakdown ? breakdown.subtotal - breakdown.discountTotal : total;
+  const progressPercent =
+    breakdown?.freeShippingReason || !freeShippingThreshold
+      ? 100
+      : Math.min(100, (discountedSubtotal / freeShippingThreshold) * 100);
 
   const handleClearCart = () => {
     clear();
@@ -92,18 +143,23 @@ const CartPage: NextPage = () => {
               Continue shopping
             </Link>
             {cartItems.length > 0 && (
-              <button className="button button-ghost" type="button" onClick={handleClearCart}>
+              <button className="button button-ghost" type="button" onClick={handleClearCart} disabled={isReadOnly}>
                 Clear cart
               </button>
             )}
           </div>
         </section>
 
+        <CartChangesPanel />
+
         {cartItems.length === 0 ? (
           <div className="empty-state cart-empty-state">
             <div className="empty-state-icon">Cart</div>
             <h2>Your cart is empty</h2>
-            <p>Add products to build your order and unlock free shipping at {formatMoney(freeShippingThreshold)}.</p>
+            <p>
+              Add products to build your order
+              {freeShippingThreshold !== null && ` and unlock free shipping at ${formatMoney(freeShippingThreshold)}`}.
+            </p>
             <div className="empty-actions">
               <Link className="button button-primary" href="/product/featured">
                 Browse featured
@@ -121,19 +177,21 @@ const CartPage: NextPage = () => {
                 <span className="form-hint">{totalItems} unit{totalItems === 1 ? '' : 's'} selected</span>
               </div>
 
-              <div className="shipping-progress-card">
-                <div className="shipping-progress-header">
-                  <strong>Free shipping progress</strong>
-                  <span>
-                    {shipping === 0
-                      ? 'Unlocked'
-                      : `${formatMoney(freeShippingThreshold - total)} away`}
-                  </span>
-                </div>
-                <div className="shipping-progress-track" aria-hidden="true">
-                  <span style={{ width: `${progressPercent}%` }} />
+              {freeShippingThreshold !== null && (
+                <div className="shipping-progress-card">
+                  <div className="shipping-progress-header">
+                    <strong>Free shipping progress</strong>
+                    <span>
+                      {breakdown?.freeShippingReason
+                        ? 'Unlocked'
+                        : `${formatMoney(freeShippingThreshold - discountedSubtotal)} away`}
+                    </span>
+                  </div>
+                  <div className="shipping-progress-track" aria-hidden="true">
+                    <span style={{ width: `${progressPercent}%` }} />
+                  </div>
                 </div>
-              </div>
+              )}
 
               <div className="list cart-lines">
                 {cartItems.map((item) => (
@@ -166,6 +224,7 @@ const CartPage: NextPage = () => {
                         <div className="cart-qty-controls">
                           <button
                             onClick={() => handleUpdateQuantity(item.product.id, item.quantity - 1)}
+                            disabled={isReadOnly}
                             className="button button-ghost button-sm"
                             aria-label={`Decrease quantity for ${item.product.name}`}
                           >
@@ -174,6 +233,7 @@ const CartPage: NextPage = () => {
                           <span className="cart-qty-value">{item.quantity}</span>
                           <button
                             onClick={() => handleUpdateQuantity(item.product.id, item.quantity + 1)}
+                            disabled={isReadOnly}
                             className="button button-ghost button-sm"
                             aria-label={`Increase quantity for ${item.product.name}`}
                           >
@@ -186,6 +246,7 @@ const CartPage: NextPage = () => {
                     <div className="cart-item-side">
                       <button
                         onClick={() => handleRemove(item.product.id)}
+                        disabled={isReadOnly}
                         className="button button-danger button-sm"
                       >
                         Remove
@@ -198,24 +259,9 @@ const CartPage: NextPage = () => {
 
             <section className="panel cart-summary-panel">
               <h3>Order summary</h3>
-              <div className="cart-summary-breakdown">
-                <div className="cart-summary-row">
-                  <span>Subtotal</span>
-                  <strong>{formatMoney(total)}</strong>
-                </div>
-                <div className="cart-summary-row">
-                  <span>Shipping</span>
-                  <strong>{shipping === 0 ? 'Free' : formatMoney(shipping)}</strong>
-                </div>
-                <div className="cart-summary-row">
-                  <span>Estimated tax</span>
-                  <strong>{formatMoney(tax)}</strong>
-                </div>
-                <div className="cart-summary-row total">
-                  <span>Total</span>
-                  <strong>{formatMoney(grandTotal)}</strong>
-                </div>
-              </div>
+              <OrderSummary breakdown={breakdown} error={pricingError} onRetry={retryPricing} />
+
+              <PromoCodeForm disabled={isReadOnly} />
 
               <ul className="cart-benefits">
                 <li>Secure checkout with protected account flow</li>
@@ -226,7 +272,7 @@ const CartPage: NextPage = () => {
               <div className="summary-actions">
                 <button
                   onClick={handleCheckout}
-                  disabled={isLoading || cartItems.length === 0}
+                  disabled={isLoading || cartItems.length === 0 || !breakdown || needsVerification || isReadOnly || hasUnseenChanges}
                   className="button button-primary button-block"
                 >
                   {isLoading ? 'Processing...' : 'Proceed to Checkout'}
@@ -235,6 +281,13 @@ const CartPage: NextPage = () => {
                   Continue shopping
                 </Link>
               </div>
+              {needsVerification && (
+                <p className="form-hint">
+                  Verify your email address to check out. <Link href="/verify-email" className="form-link">Verify now</Link>
+                </p>
+              )}
+              {isReadOnly && <p className="form-hint">Cart changes and checkout are turned off while viewing as a customer.</p>}
+              {hasUnseenChanges && <p className="form-hint">Review the cart updates above to continue.</p>}
             </section>
           </div>
         )}
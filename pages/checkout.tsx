@@ -1,16 +1,33 @@
-﻿import { useState } from 'react';
+﻿import { useEffect, useState } from 'react';
 import type { NextPage } from 'next';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { useMessage } from '../hooks/useMessage';
 import { useOrders } from '../hooks/useOrders';
+import { useEmailVerification } from '../hooks/useEmailVerification';
+import { useOrderPricing } from '../hooks/usePricing';
 import { useCart } from '../context/CartContext';
+import { useAuth } from '../context/AuthContext';
+import CartChangesPanel from '../components/CartChangesPanel';
+import OrderSummary from '../components/OrderSummary';
+import PromoCodeForm from '../components/PromoCodeForm';
 import ProtectedRoute from '../components/ProtectedRoute';
+import { isImpersonating } from '../utils/auth';
 import { formatCurrency } from '../utils/format';
+import { SHIPPING_COUNTRIES } from '../utils/pricing';
 
 const CheckoutPage: NextPage = () => {
   const router = useRouter();
-  const { items: cartItems, total, itemCount, clear } = useCart();
+  const {
+    items: cartItems,
+    itemCount,
+    clear,
+    isLoaded,
+    changes,
+    revalidate,
+    discounts,
+  } = useCart();
+  const hasUnseenChanges = changes.length > 0;
   const [isProcessing, setIsProcessing] = useState(false);
   const [step, setStep] = useState(1);
   const [shipping, setShipping] = useState({
@@ -27,12 +44,25 @@ const CheckoutPage: NextPage = () => {
     expiry: '',
     cvc: '',
   });
+  // Tax and shipping follow the address as it is typed
+  const shippingAddress = shipping.country ? { country: shipping.country, postalCode: shipping.postal } : null;
+  const { breakdown, error: pricingError, retry: retryPricing, confirmTotal } = useOrderPricing(shippingAddress);
   const { showMessage } = useMessage();
   const { checkout } = useOrders();
+  const { needsVerification } = useEmailVerification();
+  const { user } = useAuth();
+  // Admins viewing as this customer can look but not order
+  const isReadOnly = isImpersonating(user);
+
+  // The summary should show today's prices and stock, not the ones from when items were added
+  useEffect(() => {
+    if (isLoaded) void revalidate();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoaded]);
 
   const validateStep = () => {
     if (step === 1) {
-      if (!shipping.fullName.trim() || !shipping.email.trim() || !shipping.address.trim()) {
+      if (!shipping.fullName.trim() || !shipping.email.trim() || !shipping.address.trim() || !shipping.country) {
         showMessage('error', 'Please complete your shipping details.');
         return false;
       }
@@ -69,18 +99,34 @@ const CheckoutPage: NextPage = () => {
     }
     setIsProcessing(true);
     try {
+      if ((await revalidate()).length > 0) {
+        showMessage('error', 'Your cart changed. Please review the updates before placing the order.');
+        return;
+      }
+      if (!breakdown || !(await confirmTotal())) {
+        showMessage('error', 'Shipping or tax rates have changed. Please review the new total.');
+        return;
+      }
       // Transform cart items to order request format
       const orderItems = cartItems.map((item) => ({
         productId: item.product.id,
         quantity: item.quantity,
       }));
       // Create order
-      await checkout(orderItems);
+      const outcome = await checkout(orderItems, {
+        ...(discounts.length > 0 ? { promoCode: discounts[0].code, discounts } : {}),
+        ...(shippingAddress ? { shippingAddress } : {}),
+        expectedTotal: breakdown.total,
+      });
+      if (!outcome) return;
       clear();
-      router.replace('/cart').catch((err) => console.error('Redirect failed:', err));
+      // A resent checkout lands on the order the first attempt already placed
+      const destination =
+        outcome.status === 'duplicate' ? { pathname: '/dashboard', query: { order: outcome.orderId } } : '/cart';
+      router.replace(destination).catch((err) => console.error('Redirect failed:', err));
     } catch (error) {
+      // checkout has already told the customer what went wrong
       console.error('Checkout error:', error);
-      showMessage('error', 'Failed to place order. Please try again.');
     } finally {
       setIsProcessing(false);
     }
@@ -90,6 +136,7 @@ const CheckoutPage: NextPage = () => {
     return (
       <ProtectedRoute>
         <main className="layout mx-auto max-w-6xl px-4 py-10">
+          <CartChangesPanel />
           <div className="empty-state rounded-2xl border border-slate-200 bg-white p-10 text-center shadow-sm">
             <h2>Your cart is empty</h2>
             <p>Add some items before checking out.</p>
@@ -112,6 +159,8 @@ const CheckoutPage: NextPage = () => {
           </div>
         </div>
 
+        <CartChangesPanel />
+
         <div className="checkout-steps mb-6 grid gap-3 sm:grid-cols-3">
           <div className={`checkout-step rounded-lg border px-3 py-2 text-sm font-medium ${step >= 1 ? 'is-active border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 bg-white text-slate-500'}`}>1. Shipping</div>
           <div className={`checkout-step rounded-lg border px-3 py-2 text-sm font-medium ${step >= 2 ? 'is-active border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 bg-white text-slate-500'}`}>2. Payment</div>
@@ -180,13 +229,19 @@ const CheckoutPage: NextPage = () => {
                 </div>
                 <div className="form-field grid gap-1">
                   <label className="form-label" htmlFor="country">Country</label>
-                  <input
+                  <select
                     id="country"
                     className="form-input h-10 rounded-md border border-slate-300 px-3 text-sm focus:border-blue-500 focus:outline-none"
                     value={shipping.country}
                     onChange={(event) => setShipping((prev) => ({ ...prev, country: event.target.value }))}
-                    placeholder="United States"
-                  />
+                  >
+                    <option value="">Select a country</option>
+                    {Object.entries(SHIPPING_COUNTRIES).map(([code, name]) => (
+                      <option key={code} value={code}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
                 </div>
               </div>
             )}
@@ -246,7 +301,7 @@ const CheckoutPage: NextPage = () => {
                   <p>{shipping.fullName}</p>
                   <p>{shipping.address}</p>
                   <p>{shipping.city} {shipping.postal}</p>
-                  <p>{shipping.country}</p>
+                  <p>{SHIPPING_COUNTRIES[shipping.country] ?? shipping.country}</p>
                 </div>
                 <div className="review-block rounded-lg border border-slate-200 bg-slate-50 p-4">
                   <h4>Order items ({itemCount})</h4>
@@ -275,26 +330,9 @@ const CheckoutPage: NextPage = () => {
 
           <section className="panel rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
             <h3>Order Summary</h3>
-            <div className="metric-grid grid gap-3">
-              <div className="card stat rounded-lg border border-slate-200 bg-slate-50 p-3">
-                <span className="stat-label">Subtotal</span>
-                <span className="stat-value">{formatCurrency(total)}</span>
-              </div>
-              <div className="card stat rounded-lg border border-slate-200 bg-slate-50 p-3">
-                <span className="stat-label">Shipping</span>
-                <span className="stat-value">Free</span>
-              </div>
-              <div className="card stat rounded-lg border border-slate-200 bg-slate-50 p-3">
-                <span className="stat-label">Tax</span>
-                <span className="stat-value">Included</span>
-              </div>
-              <div className="card stat summary-total-card rounded-lg border border-blue-200 bg-blue-50 p-3">
-                <span className="stat-label">Total</span>
-                <span className="stat-value summary-total-value">
-                  {formatCurrency(total)}
-                </span>
-              </div>
-            </div>
+            <OrderSummary breakdown={breakdown} error={pricingError} onRetry={retryPricing} />
+
+            <PromoCodeForm disabled={isReadOnly} />
 
             <div className="summary-actions mt-4 grid gap-2">
               {step > 1 && (
@@ -309,7 +347,7 @@ const CheckoutPage: NextPage = () => {
               ) : (
                 <button
                   onClick={handlePlaceOrder}
-                  disabled={isProcessing || cartItems.length === 0}
+                  disabled={isProcessing || cartItems.length === 0 || !breakdown || needsVerification || isReadOnly || hasUnseenChanges}
                   className="button button-primary button-block rounded-full px-3 py-2 text-sm"
                 >
                   {isProcessing ? 'Processing...' : 'Place Order'}
@@ -320,6 +358,13 @@ const CheckoutPage: NextPage = () => {
               </Link>
             </div>
 
+            {needsVerification && (
+              <p className="form-hint center-hint">
+                Verify your email address to place this order. <Link href="/verify-email" className="form-link">Verify now</Link>
+              </p>
+            )}
+            {isReadOnly && <p className="form-hint center-hint">Placing orders is turned off while viewing as a customer.</p>}
+            {hasUnseenChanges && <p className="form-hint center-hint">Review the cart updates above to place the order.</p>}
             <p className="form-hint center-hint">No payment required for MVP</p>
           </section>
         </div>
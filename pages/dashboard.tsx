@@ -2,8 +2,11 @@
 import Link from 'next/link';
 import { useRouter } from 'next/router';
 import ProtectedRoute from '../components/ProtectedRoute';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+import VerifyEmailBanner from '../components/VerifyEmailBanner';
 import { useOrders } from '../hooks/useOrders';
 import { useAuth } from '../context/AuthContext';
+import { isImpersonating } from '../utils/auth';
 import { formatCurrency } from '../utils/format';
 
 const DashboardPage: NextPage = () => {
@@ -14,6 +17,15 @@ const DashboardPage: NextPage = () => {
   const totalSpend = orders.reduce((sum, order) => sum + (order.total ?? 0), 0);
   const latestOrder = [...orders].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
   const profileName = user?.username || user?.email || 'Account';
+  // Set when a resent checkout was routed here to the order it had already placed
+  const highlightedOrderId = typeof router.query.order === 'string' ? Number(router.query.order) : null;
+  const sortedOrders = [...orders].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const highlightedOrder = sortedOrders.find((order) => order.id === highlightedOrderId);
+  // Set when an admin page sent the user here because it needs two-factor first
+  const isMfaSetupRequired = router.query.setup === '2fa' && user?.mfaEnabled !== true;
+  const mfaReturnTo = typeof router.query.redirect === 'string' ? router.query.redirect : null;
+  const visibleOrders = sortedOrders.slice(0, 6);
+  if (highlightedOrder && !visibleOrders.includes(highlightedOrder)) visibleOrders.push(highlightedOrder);
 
   const handleSignOut = () => {
     signOut();
@@ -39,6 +51,17 @@ const DashboardPage: NextPage = () => {
           </div>
         </div>
 
+        <VerifyEmailBanner className="dashboard-verify-banner" />
+
+        {isMfaSetupRequired && (
+          <div className="verify-banner dashboard-verify-banner" role="status">
+            <p>
+              <strong>Turn on two-factor authentication.</strong> Admin tools need it before they open.{' '}
+              <a href="#security" className="form-link">Set it up</a>
+            </p>
+          </div>
+        )}
+
         <div className="stat-grid">
           <div className="stat-card">
             <div className="stat-meta">
@@ -82,17 +105,32 @@ const DashboardPage: NextPage = () => {
               </div>
             ) : (
               <div className="list">
-                {[...orders]
-                  .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-                  .slice(0, 6)
-                  .map((order) => (
-                  <div key={order.id} className="list-item cart-line">
+                {highlightedOrder && (
+                  <p className="form-hint" role="status">
+                    Order #{highlightedOrder.id} was already placed, so it was not submitted again.
+                  </p>
+                )}
+                {visibleOrders.map((order) => (
+                  <div
+                    key={order.id}
+                    className={`list-item cart-line ${order.id === highlightedOrderId ? 'is-highlighted' : ''}`}
+                  >
                     <div>
                       <strong>Order #{order.id}</strong>
                       <p className="form-hint">{new Date(order.createdAt).toLocaleDateString()}</p>
                     </div>
                     <div className="cart-line-total">
                       <strong>{formatCurrency(order.total)}</strong>
+                      {order.discounts.map((line) => (
+                        <p key={line.code} className="form-hint">
+                          {line.code}: {line.freeShipping ? line.label : `-${formatCurrency(line.amount)}`}
+                        </p>
+                      ))}
+                      {(order.shipping > 0 || order.tax > 0) && (
+                        <p className="form-hint">
+                          incl. {formatCurrency(order.shipping)} shipping, {formatCurrency(order.tax)} tax
+                        </p>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -112,6 +150,9 @@ const DashboardPage: NextPage = () => {
               <Link className="button button-ghost button-block" href="/wishlist">
                 View wishlist
               </Link>
+              <Link className="button button-ghost button-block" href="/account">
+                Account settings
+              </Link>
               {user?.role === 'ADMIN' && (
                 <Link className="button button-ghost button-block" href="/admin">
                   Open admin
@@ -120,6 +161,8 @@ const DashboardPage: NextPage = () => {
             </div>
           </section>
         </div>
+
+        {!isImpersonating(user) && <TwoFactorSettings returnTo={mfaReturnTo} />}
       </main>
     </ProtectedRoute>
   );
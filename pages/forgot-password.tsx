@@ -0,0 +1,158 @@
+import type { FormEvent } from 'react';
+import type { NextPage } from 'next';
+import { useState } from 'react';
+import Link from 'next/link';
+import Head from 'next/head';
+import { z } from 'zod';
+import { requestPasswordReset } from '../services/auth';
+import { isApiError } from '../services/apiError';
+import { getFormFieldErrors } from '../lib/formErrors';
+import { forgotPasswordFormSchema, type ForgotPasswordFormData } from '../lib/validationSchemas';
+
+const ForgotPasswordPage: NextPage = () => {
+  const [formData, setFormData] = useState<ForgotPasswordFormData>({ email: '' });
+  const [errors, setErrors] = useState<Partial<ForgotPasswordFormData>>({});
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const validateForm = (): boolean => {
+    try {
+      forgotPasswordFormSchema.parse(formData);
+      setErrors({});
+      return true;
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        const fieldErrors: Partial<ForgotPasswordFormData> = {};
+        err.issues.forEach((issue) => {
+          if (issue.path[0]) {
+            fieldErrors[issue.path[0] as keyof ForgotPasswordFormData] = issue.message;
+          }
+        });
+        setErrors(fieldErrors);
+      }
+      return false;
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError('');
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await requestPasswordReset({ email: formData.email.trim() });
+      setSentTo(formData.email.trim());
+    } catch (err) {
+      const serverFieldErrors = getFormFieldErrors(err, ['email'] as const);
+      if (Object.keys(serverFieldErrors).length > 0) {
+        setErrors(serverFieldErrors);
+      } else if (isApiError(err) && err.status === 429) {
+        setError('Too many reset requests. Please wait a few minutes and try again.');
+      } else {
+        setError('We could not send the reset link right now. Please try again shortly.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>ShopLite - Forgot Password</title>
+        <meta name="description" content="Request a link to reset your ShopLite password." />
+      </Head>
+      <main className="layout">
+        <section className="split">
+          <article className="panel">
+            <span className="badge">Account recovery</span>
+            <h1 className="page-title">Forgot your password?</h1>
+            <p className="page-subtitle">
+              Enter the email address on your account and we will send you a link to choose a new password.
+            </p>
+          </article>
+
+          {sentTo ? (
+            <div className="form login-form" role="status">
+              <div className="form-header">
+                <h2>Check your inbox</h2>
+                <p className="form-hint">
+                  If an account exists for <strong>{sentTo}</strong>, a reset link is on its way. It expires in 30 minutes.
+                </p>
+              </div>
+              <button className="button button-ghost" type="button" onClick={() => setSentTo(null)}>
+                Use a different email
+              </button>
+              <p className="form-footer-hint">
+                Remembered it?{' '}
+                <Link href="/login" className="form-link">
+                  Back to sign in
+                </Link>
+              </p>
+            </div>
+          ) : (
+            <form className="form login-form" onSubmit={handleSubmit} noValidate>
+              <div className="form-header">
+                <h2>Reset your password</h2>
+                <p className="form-hint">We will email you a single-use reset link.</p>
+              </div>
+
+              {error && (
+                <div className="form-error-box" role="alert">
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <div className="form-field">
+                <label className="form-label" htmlFor="forgot-email">
+                  Email
+                  {errors.email && <span className="form-error-inline">{errors.email}</span>}
+                </label>
+                <input
+                  id="forgot-email"
+                  className={`form-input ${errors.email ? 'form-input-error' : ''}`}
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => {
+                    setFormData({ email: e.target.value });
+                    if (errors.email) setErrors({});
+                  }}
+                  autoComplete="email"
+                  placeholder="your@email.com"
+                  disabled={isSubmitting}
+                  aria-invalid={!!errors.email}
+                />
+              </div>
+
+              <button className="button button-primary button-large" type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <span className="spinner"></span>
+                    Sending link...
+                  </>
+                ) : (
+                  'Send reset link'
+                )}
+              </button>
+
+              <p className="form-footer-hint">
+                Remembered it?{' '}
+                <Link href="/login" className="form-link">
+                  Back to sign in
+                </Link>
+              </p>
+            </form>
+          )}
+        </section>
+      </main>
+    </>
+  );
+};
+
+export default ForgotPasswordPage;
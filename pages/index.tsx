@@ -6,9 +6,10 @@ import ProductCard from '../components/ProductCard';
 import ProductCardSkeleton from '../components/ProductCardSkeleton';
 import { Seo } from '../components/Seo';
 import { getDefaultMetadata } from '../lib/seoMetadata';
-import { useProducts } from '../hooks/useProducts';
+import { useProductPage } from '../hooks/useProductPage';
 import { useMessage } from '../hooks/useMessage';
 import { formatCurrency } from '../utils/format';
+import type { ProductQuery } from '../types/product';
 
 type FilterKey = 'all' | 'new' | 'sale' | 'top' | 'instock';
 
@@ -22,8 +23,18 @@ const FILTERS: { key: FilterKey; label: string }[] = [
 
 const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
 
+// Each pill narrows the catalog server-side; tags match any of the listed values
+const FILTER_QUERIES: Record<FilterKey, Pick<ProductQuery, 'tags' | 'inStock'>> = {
+  all: {},
+  new: { tags: ['new'] },
+  sale: { tags: ['sale', 'discount'] },
+  top: { tags: ['top'] },
+  instock: { inStock: true },
+};
+
+const HERO_QUERY: ProductQuery = { size: 1 };
+
 const HomePage: NextPage = () => {
-  const { products, loading, error, loadProducts } = useProducts();
   const router = useRouter();
   const { showMessage } = useMessage();
   const [page, setPage] = useState(1);
@@ -31,40 +42,26 @@ const HomePage: NextPage = () => {
   const [email, setEmail] = useState('');
   const pageSize = 6;
 
-  useEffect(() => {
-    loadProducts();
-  }, [loadProducts]);
-
   const searchTerm = useMemo(
     () => (typeof router.query.search === 'string' ? router.query.search : ''),
     [router.query.search],
   );
 
-  const filteredProducts = useMemo(() => {
-    const term = searchTerm.trim().toLowerCase();
-    return products.filter((product) => {
-      if (term) {
-        const haystack = `${product.name} ${product.description ?? ''}`.toLowerCase();
-        if (!haystack.includes(term)) return false;
-      }
-      const tags = (product.tags ?? '').toLowerCase();
-      if (filter === 'new' && !tags.includes('new')) return false;
-      if (filter === 'sale' && !tags.includes('sale') && !tags.includes('discount')) return false;
-      if (filter === 'top' && !tags.includes('top')) return false;
-      if (filter === 'instock' && product.stock <= 0) return false;
-      return true;
-    });
-  }, [products, searchTerm, filter]);
-
   useEffect(() => {
     setPage(1);
-  }, [searchTerm, filter, products.length]);
+  }, [searchTerm, filter]);
+
+  const query = useMemo<ProductQuery>(
+    () => ({ ...FILTER_QUERIES[filter], q: searchTerm.trim() || undefined, page, size: pageSize }),
+    [filter, searchTerm, page],
+  );
+  const { items: displayedProducts, total, loading, error, reload } = useProductPage(query);
+  const { items: heroProducts } = useProductPage(HERO_QUERY);
 
-  const totalPages = Math.max(1, Math.ceil(filteredProducts.length / pageSize));
-  const displayedProducts = filteredProducts.slice((page - 1) * pageSize, page * pageSize);
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
   const metadata = getDefaultMetadata();
-  const isEmpty = !loading && !error && filteredProducts.length === 0;
-  const featured = products[0];
+  const isEmpty = !loading && !error && total === 0;
+  const featured = heroProducts[0];
   const month = MONTHS[new Date().getMonth()];
 
   const handleNewsletter = (e: FormEvent<HTMLFormElement>) => {
@@ -163,7 +160,7 @@ const HomePage: NextPage = () => {
             </div>
             <h3>Error loading products</h3>
             <p>{error}</p>
-            <button className="btn btn-primary" type="button" onClick={() => void loadProducts()}>
+            <button className="btn btn-primary" type="button" onClick={() => void reload()}>
               Try again
             </button>
           </div>
@@ -1,11 +1,16 @@
 import type { FormEvent } from 'react';
 import type { NextPage } from 'next';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
 import Head from 'next/head';
 import { z } from 'zod';
 import { useAuth } from '../context/AuthContext';
+import { isSafeRedirect } from '../utils/auth';
+import { getFormFieldErrors } from '../lib/formErrors';
+import { mfaSignInFormSchema } from '../lib/validationSchemas';
+import { ApiError } from '../services/apiError';
+import type { MfaChallenge } from '../types/api';
 
 // Validation schema for login form
 const loginSchema = z.object({
@@ -23,12 +28,23 @@ type LoginFormData = z.infer<typeof loginSchema>;
 
 const LoginPage: NextPage = () => {
   const router = useRouter();
-  const { signIn } = useAuth();
+  const { signIn, completeMfaSignIn, isAuthenticated, isLoading } = useAuth();
   const [formData, setFormData] = useState({ username: '', password: '' });
   const [errors, setErrors] = useState<Partial<LoginFormData>>({});
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  // Set once the password is accepted for an account with two-factor on; the form then asks for the code
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [mfaCodeError, setMfaCodeError] = useState('');
+
+  // proxy.ts sends expired sessions here; once /session has renewed them, go straight back
+  useEffect(() => {
+    if (!router.isReady || isLoading || !isAuthenticated || isSubmitting) return;
+    if (typeof router.query.redirect !== 'string' || !isSafeRedirect(router.query.redirect)) return;
+    void router.replace(router.query.redirect);
+  }, [router, router.isReady, isLoading, isAuthenticated, isSubmitting]);
 
   const validateForm = (): boolean => {
     try {
@@ -57,6 +73,14 @@ const LoginPage: NextPage = () => {
     }
   };
 
+  const goToRedirectTarget = () => {
+    const redirectTarget =
+      typeof router.query.redirect === 'string' && isSafeRedirect(router.query.redirect)
+        ? router.query.redirect
+        : '/';
+    void router.push(redirectTarget, undefined, { scroll: true });
+  };
+
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setError('');
@@ -68,13 +92,21 @@ const LoginPage: NextPage = () => {
     setIsSubmitting(true);
 
     try {
-      await signIn(formData.username, formData.password);
-      const redirectTarget =
-        typeof router.query.redirect === 'string' && router.query.redirect.startsWith('/')
-          ? router.query.redirect
-          : '/';
-      void router.push(redirectTarget, undefined, { scroll: true });
+      const challenge = await signIn(formData.username, formData.password);
+      if (challenge) {
+        setMfaChallenge(challenge);
+        setIsSubmitting(false);
+        return;
+      }
+      goToRedirectTarget();
     } catch (err) {
+      const serverFieldErrors = getFormFieldErrors(err, ['username', 'password'] as const);
+      if (Object.keys(serverFieldErrors).length > 0) {
+        setErrors(serverFieldErrors);
+        setIsSubmitting(false);
+        return;
+      }
+
       // Handle specific error types
       if (err instanceof Error) {
         if (err.message.includes('401') || err.message.includes('Unauthorized')) {
@@ -91,6 +123,56 @@ const LoginPage: NextPage = () => {
     }
   };
 
+  const leaveMfaStep = (message = '') => {
+    setMfaChallenge(null);
+    setMfaCode('');
+    setMfaCodeError('');
+    setFormData((prev) => ({ ...prev, password: '' }));
+    setError(message);
+  };
+
+  const handleMfaSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!mfaChallenge) return;
+    setError('');
+
+    const parsed = mfaSignInFormSchema.safeParse({ code: mfaCode });
+    if (!parsed.success) {
+      setMfaCodeError(parsed.error.issues[0]?.message ?? 'Enter the code from your authenticator app');
+      return;
+    }
+    setMfaCodeError('');
+    setIsSubmitting(true);
+
+    try {
+      await completeMfaSignIn(mfaChallenge.mfaToken, parsed.data.code.replace(/\s/g, ''));
+      goToRedirectTarget();
+    } catch (err) {
+      setIsSubmitting(false);
+      if (err instanceof ApiError && err.code === 'MFA_CHALLENGE_EXPIRED') {
+        leaveMfaStep('Your sign-in timed out. Please enter your password again.');
+      } else if (err instanceof ApiError && (err.status === 400 || err.status === 401)) {
+        setMfaCodeError('That code is not valid');
+        setMfaCode('');
+      } else if (err instanceof ApiError && err.kind === 'network') {
+        setError('Network error. Please check your connection and try again.');
+      } else {
+        setError('Verification failed. Please try again later.');
+      }
+    }
+  };
+
+  const errorBox = error && (
+    <div className="form-error-box" role="alert">
+      <svg className="error-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+        <circle cx="12" cy="12" r="10"></circle>
+        <line x1="12" y1="8" x2="12" y2="12"></line>
+        <line x1="12" y1="16" x2="12.01" y2="16"></line>
+      </svg>
+      <span>{error}</span>
+    </div>
+  );
+
   return (
     <>
       <Head>
@@ -120,110 +202,160 @@ const LoginPage: NextPage = () => {
               </li>
             </ul>
           </article>
-          <form className="form login-form" onSubmit={handleSubmit} noValidate>
-            <div className="form-header">
-              <h2>Sign in</h2>
-              <p className="form-hint">Enter your credentials to access your account.</p>
-            </div>
-
-            {/* Error message alert */}
-            {error && (
-              <div className="form-error-box" role="alert">
-                <svg className="error-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <circle cx="12" cy="12" r="10"></circle>
-                  <line x1="12" y1="8" x2="12" y2="12"></line>
-                  <line x1="12" y1="16" x2="12.01" y2="16"></line>
-                </svg>
-                <span>{error}</span>
+          {mfaChallenge ? (
+            <form className="form login-form" onSubmit={handleMfaSubmit} noValidate>
+              <div className="form-header">
+                <h2>Two-step verification</h2>
+                <p className="form-hint">
+                  Enter the 6-digit code from your authenticator app. Lost your phone? Use one of your recovery codes.
+                </p>
               </div>
-            )}
-
-            {/* Username field */}
-            <div className="form-field">
-              <label className="form-label" htmlFor="username">
-                Username
-                {errors.username && <span className="form-error-inline">{errors.username}</span>}
-              </label>
-              <input
-                id="username"
-                className={`form-input ${errors.username ? 'form-input-error' : ''}`}
-                type="text"
-                value={formData.username}
-                onChange={(e) => handleChange('username', e.target.value)}
-                autoComplete="username"
-                placeholder="Enter your username"
-                disabled={isSubmitting}
-                aria-invalid={!!errors.username}
-                aria-describedby={errors.username ? 'username-error' : undefined}
-              />
-            </div>
-
-            {/* Password field */}
-            <div className="form-field">
-              <label className="form-label" htmlFor="password">
-                Password
-                {errors.password && <span className="form-error-inline">{errors.password}</span>}
-              </label>
-              <div className="password-input-wrapper">
+
+              {errorBox}
+
+              <div className="form-field">
+                <label className="form-label" htmlFor="mfa-code">
+                  Verification code
+                  {mfaCodeError && <span className="form-error-inline">{mfaCodeError}</span>}
+                </label>
                 <input
-                  id="password"
-                  className={`form-input ${errors.password ? 'form-input-error' : ''}`}
-                  type={showPassword ? 'text' : 'password'}
-                  value={formData.password}
-                  onChange={(e) => handleChange('password', e.target.value)}
-                  autoComplete="current-password"
-                  placeholder="Enter your password"
+                  id="mfa-code"
+                  className={`form-input ${mfaCodeError ? 'form-input-error' : ''}`}
+                  type="text"
+                  inputMode="numeric"
+                  value={mfaCode}
+                  onChange={(e) => {
+                    setMfaCode(e.target.value);
+                    if (mfaCodeError) setMfaCodeError('');
+                  }}
+                  autoComplete="one-time-code"
+                  placeholder="123 456"
+                  autoFocus
                   disabled={isSubmitting}
-                  aria-invalid={!!errors.password}
-                  aria-describedby={errors.password ? 'password-error' : undefined}
+                  aria-invalid={!!mfaCodeError}
                 />
-                <button
-                  type="button"
-                  className="password-toggle"
-                  onClick={() => setShowPassword(!showPassword)}
+              </div>
+
+              <button className="button button-primary button-large" type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <span className="spinner"></span>
+                    Verifying...
+                  </>
+              ) : (
+                  'Verify'
+                )}
+              </button>
+
+              <p className="form-footer-hint">
+                Not you?{' '}
+                <button type="button" className="form-link" onClick={() => leaveMfaStep()} disabled={isSubmitting}>
+                  Sign in with a different account
+                </button>
+              </p>
+            </form>
+          ) : (
+            <form className="form login-form" onSubmit={handleSubmit} noValidate>
+              <div className="form-header">
+                <h2>Sign in</h2>
+                <p className="form-hint">Enter your credentials to access your account.</p>
+              </div>
+
+              {/* Error message alert */}
+              {errorBox}
+
+              {/* Username field */}
+              <div className="form-field">
+                <label className="form-label" htmlFor="username">
+                  Username
+                  {errors.username && <span className="form-error-inline">{errors.username}</span>}
+                </label>
+                <input
+                  id="username"
+                  className={`form-input ${errors.username ? 'form-input-error' : ''}`}
+                  type="text"
+                  value={formData.username}
+                  onChange={(e) => handleChange('username', e.target.value)}
+                  autoComplete="username"
+                  placeholder="Enter your username"
                   disabled={isSubmitting}
-                  aria-label={showPassword ? 'Hide password' : 'Show password'}
-                  title={showPassword ? 'Hide password' : 'Show password'}
-                >
-                  {showPassword ? (
-                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                      <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24"></path>
-                      <line x1="1" y1="1" x2="23" y2="23"></line>
-                    </svg>
+                  aria-invalid={!!errors.username}
+                  aria-describedby={errors.username ? 'username-error' : undefined}
+                />
+              </div>
+
+              {/* Password field */}
+              <div className="form-field">
+                <label className="form-label" htmlFor="password">
+                  Password
+                  {errors.password && <span className="form-error-inline">{errors.password}</span>}
+                </label>
+                <div className="password-input-wrapper">
+                  <input
+                    id="password"
+                    className={`form-input ${errors.password ? 'form-input-error' : ''}`}
+                    type={showPassword ? 'text' : 'password'}
+                    value={formData.password}
+                    onChange={(e) => handleChange('password', e.target.value)}
+                    autoComplete="current-password"
+                    placeholder="Enter your password"
+                    disabled={isSubmitting}
+                    aria-invalid={!!errors.password}
+                    aria-describedby={errors.password ? 'password-error' : undefined}
+                  />
+                  <button
+                    type="button"
+                    className="password-toggle"
+                    onClick={() => setShowPassword(!showPassword)}
+                    disabled={isSubmitting}
+                    aria-label={showPassword ? 'Hide password' : 'Show password'}
+                    title={showPassword ? 'Hide password' : 'Show password'}
+                  >
+                    {showPassword ? (
+                      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24"></path>
+                        <line x1="1" y1="1" x2="23" y2="23"></line>
+                      </svg>
                   ) : (
-                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                      <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path>
-                      <circle cx="12" cy="12" r="3"></circle>
-                    </svg>
-                  )}
-                </button>
+                      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path>
+                        <circle cx="12" cy="12" r="3"></circle>
+                      </svg>
+                    )}
+                  </button>
+                </div>
+                <p className="form-hint" style={{ marginTop: '0.3rem' }}>
+                  <Link href="/forgot-password" className="form-link">
+                    Forgot your password?
+                  </Link>
+                </p>
               </div>
-            </div>
-
-            {/* Submit button */}
-            <button
-              className="button button-primary button-large"
-              type="submit"
-              disabled={isSubmitting}
-            >
-              {isSubmitting ? (
-                <>
-                  <span className="spinner"></span>
-                  Signing in...
-                </>
+
+              {/* Submit button */}
+              <button
+                className="button button-primary button-large"
+                type="submit"
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? (
+                  <>
+                    <span className="spinner"></span>
+                    Signing in...
+                  </>
               ) : (
-                'Sign In'
-              )}
-            </button>
-
-            {/* Sign up link */}
-            <p className="form-footer-hint">
-              Don&apos;t have an account?{' '}
-              <Link href="/register" className="form-link">
-                Create one now
-              </Link>
-            </p>
-          </form>
+                  'Sign In'
+                )}
+              </button>
+
+              {/* Sign up link */}
+              <p className="form-footer-hint">
+                Don&apos;t have an account?{' '}
+                <Link href="/register" className="form-link">
+                  Create one now
+                </Link>
+              </p>
+            </form>
+          )}
         </section>
       </main>
     </>
@@ -4,16 +4,19 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { useRouter } from 'next/router';
 import { useEffect, useMemo, useState, type FormEvent } from 'react';
-import { getProduct, listProducts } from '../../services/products';
+import { getProduct, listAllProducts } from '../../services/products';
 import type { Product } from '../../types/product';
 import ProductCard from '../../components/ProductCard';
 import { useCart } from '../../context/CartContext';
 import { isInWishlist, toggleWishlist } from '../../utils/wishlist';
 import { useMessage } from '../../hooks/useMessage';
 import { useAuth } from '../../context/AuthContext';
+import { useEmailVerification } from '../../hooks/useEmailVerification';
 import type { Review } from '../../types/review';
 import { createProductReview, getProductReviewSummary, listProductReviews, type ReviewSort } from '../../services/reviews';
+import { queueIfOffline } from '../../services/outbox';
 import { formatCurrency } from '../../utils/format';
+import { isAbortError } from '../../services/apiError';
 
 const placeholderHighlights = ['Premium materials built for daily use', 'Fast fulfillment with end-to-end tracking', 'Seamless integration with your existing checkout'];
 
@@ -89,7 +92,8 @@ const ProductDetailPage: NextPage = () => {
   const [isReviewSubmitting, setIsReviewSubmitting] = useState(false);
   const { showMessage } = useMessage();
   const { isAuthenticated } = useAuth();
-  const { addItem } = useCart();
+  const { needsVerification } = useEmailVerification();
+  const { addItem, readOnly: isCartReadOnly } = useCart();
 
   useEffect(() => {
     if (typeof id !== 'string') {
@@ -103,28 +107,24 @@ const ProductDetailPage: NextPage = () => {
       return;
     }
 
-    let isMounted = true;
+    const controller = new AbortController();
 
     const loadProduct = async () => {
       setIsLoading(true);
       setError(null);
 
       try {
-        const data = await getProduct(numericId);
-        if (!isMounted) {
-          return;
-        }
-
+        const data = await getProduct(numericId, { signal: controller.signal });
         setProduct(data);
-      } catch {
-        if (!isMounted) {
+      } catch (err) {
+        if (isAbortError(err)) {
           return;
         }
 
         setError('We could not retrieve this product from the API. Showing placeholder details instead.');
         setProduct(buildPlaceholderProduct(numericId));
       } finally {
-        if (isMounted) {
+        if (!controller.signal.aborted) {
           setIsLoading(false);
         }
       }
@@ -133,7 +133,7 @@ const ProductDetailPage: NextPage = () => {
     void loadProduct();
 
     return () => {
-      isMounted = false;
+      controller.abort();
     };
   }, [id]);
 
@@ -148,21 +148,21 @@ const ProductDetailPage: NextPage = () => {
     setReviewSummaryCount(null);
     setReviewCountsByRating(null);
 
-    let isMounted = true;
+    const controller = new AbortController();
+    const { signal } = controller;
 
     const loadReviews = async () => {
       try {
         const [items, summary] = await Promise.all([
-          listProductReviews(product.id),
-          getProductReviewSummary(product.id),
+          listProductReviews(product.id, { signal }),
+          getProductReviewSummary(product.id, { signal }),
         ]);
-        if (!isMounted) return;
         setReviews(items);
         setReviewSummaryAverage(summary.averageRating);
         setReviewSummaryCount(summary.reviewCount);
         setReviewCountsByRating(summary.countsByRating);
-      } catch {
-        if (!isMounted) return;
+      } catch (err) {
+        if (isAbortError(err)) return;
         // If the API isn't available yet, keep an empty list instead of using local storage.
         setReviews([]);
       }
@@ -170,14 +170,11 @@ const ProductDetailPage: NextPage = () => {
 
     void loadReviews();
 
-    // reuse isMounted for the related products loader below
+    // the same controller cancels the related products loader below
 
     const loadRelated = async () => {
       try {
-        const data = await listProducts();
-        if (!isMounted) {
-          return;
-        }
+        const data = await listAllProducts({ signal });
 
         const currentCategorySet = new Set(
           (product.categories ?? '')
@@ -204,8 +201,8 @@ const ProductDetailPage: NextPage = () => {
 
         setRelatedProducts(filtered.slice(0, 4));
 
-      } catch {
-        if (isMounted) {
+      } catch (err) {
+        if (!isAbortError(err)) {
           setRelatedProducts([]);
         }
       }
@@ -214,7 +211,7 @@ const ProductDetailPage: NextPage = () => {
     void loadRelated();
 
     return () => {
-      isMounted = false;
+      controller.abort();
     };
   }, [product?.id, product?.categories]);
 
@@ -403,6 +400,10 @@ const ProductDetailPage: NextPage = () => {
   const handleReviewSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!product) return;
+    if (needsVerification) {
+      showMessage('error', 'Please verify your email address before writing a review.');
+      return;
+    }
 
     const trimmedAuthor = reviewAuthor.trim();
     const trimmedTitle = reviewTitle.trim();
@@ -416,14 +417,16 @@ const ProductDetailPage: NextPage = () => {
       return;
     }
 
+    const reviewPayload = {
+      rating: reviewRating,
+      title: trimmedTitle,
+      comment: trimmedComment,
+      reviewerName: trimmedAuthor || null,
+    };
+
     setIsReviewSubmitting(true);
     try {
-      await createProductReview(product.id, {
-        rating: reviewRating,
-        title: trimmedTitle,
-        comment: trimmedComment,
-        reviewerName: trimmedAuthor || null,
-      });
+      await createProductReview(product.id, reviewPayload);
 
       const [items, summary] = await Promise.all([
         listProductReviews(product.id),
@@ -439,7 +442,15 @@ const ProductDetailPage: NextPage = () => {
       setReviewComment('');
       setReviewRating(5);
       showMessage('success', 'Thanks for your feedback. Your review is now pending moderation.');
-    } catch {
+    } catch (err) {
+      if (queueIfOffline(err, { kind: 'createReview', productId: product.id, payload: reviewPayload })) {
+        setReviewAuthor('');
+        setReviewTitle('');
+        setReviewComment('');
+        setReviewRating(5);
+        showMessage('info', "You're offline. Your review is saved and will be submitted when you reconnect.");
+        return;
+      }
       showMessage('error', 'Unable to submit review. Please sign in and try again.');
     } finally {
       setIsReviewSubmitting(false);
@@ -600,11 +611,11 @@ const ProductDetailPage: NextPage = () => {
                   className="button button-dark rounded-full bg-slate-900 px-4 py-2 text-sm font-medium text-white"
                   type="button"
                   onClick={handleAddToCart}
-                  disabled={isAddingToCart || !product || product.stock <= 0}
+                  disabled={isAddingToCart || !product || product.stock <= 0 || isCartReadOnly}
                 >
                   {isAddingToCart ? 'Adding...' : 'Add to cart'}
                 </button>
-                <button className="button button-ghost rounded-full px-4 py-2 text-sm" type="button" onClick={handleBuyNow}>
+                <button className="button button-ghost rounded-full px-4 py-2 text-sm" type="button" onClick={handleBuyNow} disabled={isCartReadOnly}>
                   Buy now
                 </button>
                 <span className="product-secure-note">Secure checkout â€¢ 30-day return</span>
@@ -717,7 +728,12 @@ const ProductDetailPage: NextPage = () => {
                   placeholder="Share what you liked..."
                 />
               </div>
-              <button className="button button-primary rounded-full px-4 py-2 text-sm font-medium" type="submit" disabled={isReviewSubmitting}>
+              {needsVerification && (
+                <p className="form-hint">
+                  Verify your email address to post reviews. <Link href="/verify-email" className="form-link">Verify now</Link>
+                </p>
+              )}
+              <button className="button button-primary rounded-full px-4 py-2 text-sm font-medium" type="submit" disabled={isReviewSubmitting || needsVerification}>
                 {isReviewSubmitting ? 'Submitting...' : 'Submit review'}
               </button>
             </form>
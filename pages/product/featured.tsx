@@ -4,7 +4,8 @@ import Head from 'next/head';
 import Link from 'next/link';
 import ProductCard from '../../components/ProductCard';
 import type { Product } from '../../types/product';
-import { listProducts } from '../../services/products';
+import { listAllProducts } from '../../services/products';
+import { isAbortError } from '../../services/apiError';
 import { useAuth } from '../../context/AuthContext';
 
 const fallbackFeatured: Product[] = [
@@ -63,28 +64,24 @@ const FeaturedProductsPage: NextPage = () => {
   const displayedProducts = products.slice(startIndex, startIndex + itemsPerPage);
 
   useEffect(() => {
-    let isMounted = true;
+    const controller = new AbortController();
 
     const loadFeatured = async () => {
       setIsLoading(true);
       setError(null);
 
       try {
-        const data = await listProducts();
-
-        if (!isMounted) {
-          return;
-        }
+        const data = await listAllProducts({ signal: controller.signal });
 
         const sorted = [...data].sort((a, b) => b.stock - a.stock || b.price - a.price);
         setProducts(sorted);
         setCurrentPage(0);
-      } catch {
-        if (isMounted) {
+      } catch (err) {
+        if (!isAbortError(err)) {
           setError('Unable to reach the products API. Showing curated demo picks.');
         }
       } finally {
-        if (isMounted) {
+        if (!controller.signal.aborted) {
           setIsLoading(false);
         }
       }
@@ -93,7 +90,7 @@ const FeaturedProductsPage: NextPage = () => {
     void loadFeatured();
 
     return () => {
-      isMounted = false;
+      controller.abort();
     };
   }, []);
 
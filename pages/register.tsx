@@ -6,6 +6,8 @@ import Link from 'next/link';
 import Head from 'next/head';
 import { z } from 'zod';
 import { useAuth } from '../context/AuthContext';
+import { getFormFieldErrors } from '../lib/formErrors';
+import { PASSWORD_RULES_HINT, passwordSchema } from '../lib/validationSchemas';
 
 // Validation schema for register form
 const registerSchema = z.object({
@@ -18,12 +20,7 @@ const registerSchema = z.object({
     .string()
     .min(1, 'Email is required')
     .email('Please enter a valid email address'),
-  password: z
-    .string()
-    .min(1, 'Password is required')
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain an uppercase letter')
-    .regex(/[0-9]/, 'Password must contain a number'),
+  password: passwordSchema,
 });
 
 type RegisterFormData = z.infer<typeof registerSchema>;
@@ -82,6 +79,13 @@ const RegisterPage: NextPage = () => {
       await signUp(formData.username, formData.email, formData.password);
       void router.push('/', undefined, { scroll: true });
     } catch (err) {
+      const serverFieldErrors = getFormFieldErrors(err, ['username', 'email', 'password'] as const);
+      if (Object.keys(serverFieldErrors).length > 0) {
+        setErrors(serverFieldErrors);
+        setIsSubmitting(false);
+        return;
+      }
+
       // Handle specific error types
       if (err instanceof Error) {
         if (err.message.includes('already exists')) {
@@ -225,7 +229,7 @@ const RegisterPage: NextPage = () => {
                 </button>
               </div>
               <p className="form-hint" style={{ marginTop: '0.3rem' }}>
-                At least 8 characters, 1 uppercase letter, 1 number
+                {PASSWORD_RULES_HINT}
               </p>
             </div>
 
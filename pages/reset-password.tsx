@@ -0,0 +1,214 @@
+import type { FormEvent } from 'react';
+import type { NextPage } from 'next';
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import Head from 'next/head';
+import { z } from 'zod';
+import { confirmPasswordReset } from '../services/auth';
+import { isApiError } from '../services/apiError';
+import { getFormFieldErrors } from '../lib/formErrors';
+import {
+  PASSWORD_RULES_HINT,
+  resetPasswordFormSchema,
+  type ResetPasswordFormData,
+} from '../lib/validationSchemas';
+
+const ResetPasswordPage: NextPage = () => {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const [formData, setFormData] = useState<ResetPasswordFormData>({ password: '', confirmPassword: '' });
+  const [errors, setErrors] = useState<Partial<ResetPasswordFormData>>({});
+  const [error, setError] = useState('');
+  const [linkExpired, setLinkExpired] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [showPassword, setShowPassword] = useState(false);
+
+  const validateForm = (): boolean => {
+    try {
+      resetPasswordFormSchema.parse(formData);
+      setErrors({});
+      return true;
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        const fieldErrors: Partial<ResetPasswordFormData> = {};
+        err.issues.forEach((issue) => {
+          const field = issue.path[0] as keyof ResetPasswordFormData | undefined;
+          if (field && !fieldErrors[field]) {
+            fieldErrors[field] = issue.message;
+          }
+        });
+        setErrors(fieldErrors);
+      }
+      return false;
+    }
+  };
+
+  const handleChange = (field: keyof ResetPasswordFormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError('');
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await confirmPasswordReset({ token, newPassword: formData.password });
+      setIsDone(true);
+    } catch (err) {
+      const serverFieldErrors = getFormFieldErrors(err, ['password'] as const, { newPassword: 'password' });
+      if (Object.keys(serverFieldErrors).length > 0) {
+        setErrors(serverFieldErrors);
+      } else if (isApiError(err) && (err.status === 400 || err.status === 404 || err.status === 410)) {
+        setLinkExpired(true);
+      } else {
+        setError('We could not update your password right now. Please try again shortly.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (isDone) {
+      return (
+        <div className="form login-form" role="status">
+          <div className="form-header">
+            <h2>Password updated</h2>
+            <p className="form-hint">Your password has been changed and any other sessions were signed out.</p>
+          </div>
+          <Link className="button button-primary button-large" href="/login">
+            Sign in
+          </Link>
+        </div>
+      );
+    }
+
+    if (router.isReady && (!token || linkExpired)) {
+      return (
+        <div className="form login-form" role="alert">
+          <div className="form-header">
+            <h2>This link has expired</h2>
+            <p className="form-hint">Reset links can only be used once and expire after 30 minutes.</p>
+          </div>
+          <Link className="button button-primary button-large" href="/forgot-password">
+            Request a new link
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <form className="form login-form" onSubmit={handleSubmit} noValidate>
+        <div className="form-header">
+          <h2>Choose a new password</h2>
+          <p className="form-hint">{PASSWORD_RULES_HINT}</p>
+        </div>
+
+        {error && (
+          <div className="form-error-box" role="alert">
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="form-field">
+          <label className="form-label" htmlFor="reset-password">
+            New password
+            {errors.password && <span className="form-error-inline">{errors.password}</span>}
+          </label>
+          <div className="password-input-wrapper">
+            <input
+              id="reset-password"
+              className={`form-input ${errors.password ? 'form-input-error' : ''}`}
+              type={showPassword ? 'text' : 'password'}
+              value={formData.password}
+              onChange={(e) => handleChange('password', e.target.value)}
+              autoComplete="new-password"
+              disabled={isSubmitting}
+              aria-invalid={!!errors.password}
+            />
+            <button
+              type="button"
+              className="password-toggle"
+              onClick={() => setShowPassword(!showPassword)}
+              disabled={isSubmitting}
+              aria-label={showPassword ? 'Hide password' : 'Show password'}
+              title={showPassword ? 'Hide password' : 'Show password'}
+            >
+              {showPassword ? (
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24"></path>
+                  <line x1="1" y1="1" x2="23" y2="23"></line>
+                </svg>
+              ) : (
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path>
+                  <circle cx="12" cy="12" r="3"></circle>
+                </svg>
+              )}
+            </button>
+          </div>
+        </div>
+
+        <div className="form-field">
+          <label className="form-label" htmlFor="reset-confirm-password">
+            Confirm new password
+            {errors.confirmPassword && <span className="form-error-inline">{errors.confirmPassword}</span>}
+          </label>
+          <input
+            id="reset-confirm-password"
+            className={`form-input ${errors.confirmPassword ? 'form-input-error' : ''}`}
+            type={showPassword ? 'text' : 'password'}
+            value={formData.confirmPassword}
+            onChange={(e) => handleChange('confirmPassword', e.target.value)}
+            autoComplete="new-password"
+            disabled={isSubmitting}
+            aria-invalid={!!errors.confirmPassword}
+          />
+        </div>
+
+        <button className="button button-primary button-large" type="submit" disabled={isSubmitting || !router.isReady}>
+          {isSubmitting ? (
+            <>
+              <span className="spinner"></span>
+              Updating password...
+            </>
+          ) : (
+            'Update password'
+          )}
+        </button>
+      </form>
+    );
+  };
+
+  return (
+    <>
+      <Head>
+        <title>ShopLite - Reset Password</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <main className="layout">
+        <section className="split">
+          <article className="panel">
+            <span className="badge">Account recovery</span>
+            <h1 className="page-title">Reset your password</h1>
+            <p className="page-subtitle">Pick a new password for your ShopLite account. You will sign in with it afterwards.</p>
+          </article>
+          {renderBody()}
+        </section>
+      </main>
+    </>
+  );
+};
+
+export default ResetPasswordPage;
@@ -6,56 +6,66 @@ import { useRouter } from 'next/router';
 import ProductCard from '../components/ProductCard';
 import ProductCardSkeleton from '../components/ProductCardSkeleton';
 import { listProducts } from '../services/products';
-import type { Product } from '../types/product';
+import { isAbortError } from '../services/apiError';
+import type { ProductPage, ProductQuery, ProductSort } from '../types/product';
 
 const trendingQueries = ['bundle', 'kit', 'starter', 'premium'];
 
+const PAGE_SIZE = 12;
+
 const SearchPage: NextPage = () => {
   const router = useRouter();
   const searchTerm = typeof router.query.q === 'string' ? router.query.q.trim() : '';
-  const [products, setProducts] = useState<Product[]>([]);
+  const [result, setResult] = useState<ProductPage | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [categoryFilter, setCategoryFilter] = useState('ALL');
   const [minPrice, setMinPrice] = useState('');
   const [maxPrice, setMaxPrice] = useState('');
   const [inStockOnly, setInStockOnly] = useState(false);
-  const [sortBy, setSortBy] = useState<'RELEVANCE' | 'PRICE_ASC' | 'PRICE_DESC' | 'STOCK' | 'NEWEST'>('RELEVANCE');
+  const [sortBy, setSortBy] = useState<ProductSort>('relevance');
   const [page, setPage] = useState(1);
 
-  const pageSize = 12;
+  const query = useMemo<ProductQuery>(
+    () => ({
+      q: searchTerm,
+      page,
+      size: PAGE_SIZE,
+      sort: sortBy,
+      category: categoryFilter === 'ALL' ? undefined : categoryFilter,
+      minPrice: minPrice ? Number(minPrice) : undefined,
+      maxPrice: maxPrice ? Number(maxPrice) : undefined,
+      inStock: inStockOnly || undefined,
+    }),
+    [searchTerm, page, sortBy, categoryFilter, minPrice, maxPrice, inStockOnly]
+  );
 
   useEffect(() => {
-    if (!searchTerm) {
-      setProducts([]);
+    if (!query.q) {
+      setResult(null);
       setError(null);
       return;
     }
 
-    let isMounted = true;
+    const controller = new AbortController();
+    // Debounced so typing a price does not send a request per keystroke
     const debounceId = window.setTimeout(() => {
-      if (!isMounted) {
-        return;
-      }
-
       const runSearch = async () => {
         setIsLoading(true);
         setError(null);
 
         try {
-          const data = await listProducts();
-          if (!isMounted) {
+          const data = await listProducts(query, { signal: controller.signal });
+          setResult(data);
+        } catch (err) {
+          if (isAbortError(err)) {
             return;
           }
 
-          setProducts(data);
-        } catch {
-          if (isMounted) {
-            setError('Unable to fetch products from the API. Showing demo results instead.');
-            setProducts([]);
-          }
+          setError('Unable to fetch products from the API. Showing demo results instead.');
+          setResult(null);
         } finally {
-          if (isMounted) {
+          if (!controller.signal.aborted) {
             setIsLoading(false);
           }
         }
@@ -65,83 +75,19 @@ const SearchPage: NextPage = () => {
     }, 250);
 
     return () => {
-      isMounted = false;
+      controller.abort();
       window.clearTimeout(debounceId);
     };
-  }, [searchTerm]);
+  }, [query]);
 
   useEffect(() => {
     setPage(1);
   }, [searchTerm, categoryFilter, minPrice, maxPrice, inStockOnly, sortBy]);
 
-  const categories = useMemo(() => {
-    const values = new Set<string>();
-    products.forEach((product) => {
-      const raw = product.categories ?? '';
-      raw
-        .split(',')
-        .map((entry) => entry.trim())
-        .filter(Boolean)
-        .forEach((entry) => values.add(entry));
-    });
-    return Array.from(values);
-  }, [products]);
-
-  const filteredProducts = useMemo(() => {
-    if (!searchTerm) {
-      return [];
-    }
-
-    const term = searchTerm.toLowerCase();
-    let next = products
-      .filter((product) => {
-        const haystack = `${product.name} ${product.description ?? ''}`.toLowerCase();
-        return haystack.includes(term);
-      });
-
-    if (categoryFilter !== 'ALL') {
-      next = next.filter((product) => {
-        const raw = product.categories ?? '';
-        const tags = raw
-          .split(',')
-          .map((entry) => entry.trim().toLowerCase())
-          .filter(Boolean);
-        return tags.includes(categoryFilter.toLowerCase());
-      });
-    }
-
-    const min = minPrice ? Number(minPrice) : null;
-    const max = maxPrice ? Number(maxPrice) : null;
-    next = next.filter((product) => {
-      if (min !== null && product.price < min) {
-        return false;
-      }
-      if (max !== null && product.price > max) {
-        return false;
-      }
-      return true;
-    });
-
-    if (inStockOnly) {
-      next = next.filter((product) => product.stock > 0);
-    }
-
-    const sorted = [...next];
-    if (sortBy === 'PRICE_ASC') {
-      sorted.sort((a, b) => a.price - b.price);
-    } else if (sortBy === 'PRICE_DESC') {
-      sorted.sort((a, b) => b.price - a.price);
-    } else if (sortBy === 'STOCK') {
-      sorted.sort((a, b) => b.stock - a.stock);
-    } else if (sortBy === 'NEWEST') {
-      sorted.sort((a, b) => b.id - a.id);
-    }
-
-    return sorted;
-  }, [products, searchTerm, categoryFilter, minPrice, maxPrice, inStockOnly, sortBy]);
-
-  const totalPages = Math.max(1, Math.ceil(filteredProducts.length / pageSize));
-  const pagedProducts = filteredProducts.slice((page - 1) * pageSize, page * pageSize);
+  const categories = result?.facets.categories ?? [];
+  const totalResults = result?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(totalResults / PAGE_SIZE));
+  const pagedProducts = result?.items ?? [];
 
   const handleSuggestion = useCallback(
     (suggestion: string) => {
@@ -158,7 +104,7 @@ const SearchPage: NextPage = () => {
   );
 
   const hasTerm = searchTerm.length > 0;
-  const hasResults = filteredProducts.length > 0;
+  const hasResults = totalResults > 0;
 
   return (
     <>
@@ -179,7 +125,7 @@ const SearchPage: NextPage = () => {
             </p>
             {hasTerm && (
               <p className="search-subtitle">
-                {filteredProducts.length} results
+                {totalResults} results
               </p>
             )}
           </div>
@@ -206,8 +152,8 @@ const SearchPage: NextPage = () => {
               >
                 <option value="ALL">All categories</option>
                 {categories.map((category) => (
-                  <option key={category} value={category}>
-                    {category}
+                  <option key={category.value} value={category.value}>
+                    {category.value} ({category.count})
                   </option>
                 ))}
               </select>
@@ -249,13 +195,13 @@ const SearchPage: NextPage = () => {
               <select
                 id="sortBy"
                 value={sortBy}
-                onChange={(event) => setSortBy(event.target.value as typeof sortBy)}
+                onChange={(event) => setSortBy(event.target.value as ProductSort)}
               >
-                <option value="RELEVANCE">Relevance</option>
-                <option value="PRICE_ASC">Price: Low to high</option>
-                <option value="PRICE_DESC">Price: High to low</option>
-                <option value="STOCK">Stock</option>
-                <option value="NEWEST">Newest</option>
+                <option value="relevance">Relevance</option>
+                <option value="price_asc">Price: Low to high</option>
+                <option value="price_desc">Price: High to low</option>
+                <option value="stock_desc">Stock</option>
+                <option value="newest">Newest</option>
               </select>
             </div>
           </section>
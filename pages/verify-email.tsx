@@ -0,0 +1,149 @@
+import type { NextPage } from 'next';
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import Head from 'next/head';
+import { useAuth } from '../context/AuthContext';
+import { useEmailVerification } from '../hooks/useEmailVerification';
+import { useMessage } from '../hooks/useMessage';
+import { refreshSession, verifyEmail } from '../services/auth';
+import { isApiError } from '../services/apiError';
+
+type VerifyStatus = 'pending' | 'verified' | 'invalid' | 'failed';
+
+const VerifyEmailPage: NextPage = () => {
+  const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const { isAuthenticated, isLoading } = useAuth();
+  const { needsVerification, email, resend, isSending, cooldownSeconds } = useEmailVerification();
+  const { showMessage } = useMessage(6000);
+  const [status, setStatus] = useState<VerifyStatus>('pending');
+  // Tokens are single-use, so Strict Mode's second effect run must not send it again
+  const attemptedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!router.isReady || !token || isLoading || attemptedToken.current === token) return;
+    attemptedToken.current = token;
+
+    void (async () => {
+      try {
+        await verifyEmail(token);
+        // The session still carries the unverified claim until it is renewed
+        if (isAuthenticated) await refreshSession();
+        setStatus('verified');
+      } catch (err) {
+        setStatus(isApiError(err) && (err.status === 400 || err.status === 404 || err.status === 410) ? 'invalid' : 'failed');
+      }
+    })();
+  }, [router.isReady, token, isLoading, isAuthenticated]);
+
+  const handleResend = async () => {
+    const { sent, message } = await resend();
+    showMessage(sent ? 'success' : 'error', message);
+  };
+
+  const resendButton = (
+    <button
+      className="button button-primary button-large"
+      type="button"
+      onClick={() => void handleResend()}
+      disabled={isSending || cooldownSeconds > 0}
+    >
+      {isSending ? 'Sending...' : cooldownSeconds > 0 ? `Resend in ${cooldownSeconds}s` : 'Send a new link'}
+    </button>
+  );
+
+  const renderBody = () => {
+    if (token && status === 'pending') {
+      return (
+        <div className="form-header" role="status">
+          <h2>Verifying your email</h2>
+          <p className="form-hint">This only takes a moment.</p>
+        </div>
+      );
+    }
+
+    if (status === 'verified' || (!token && isAuthenticated && !needsVerification)) {
+      return (
+        <>
+          <div className="form-header" role="status">
+            <h2>Email verified</h2>
+            <p className="form-hint">Thanks for confirming. Checkout and reviews are now available.</p>
+          </div>
+          <Link className="button button-primary button-large" href={isAuthenticated ? '/dashboard' : '/login'}>
+            {isAuthenticated ? 'Go to your dashboard' : 'Sign in'}
+          </Link>
+        </>
+      );
+    }
+
+    if (status === 'invalid' || status === 'failed') {
+      return (
+        <>
+          <div className="form-header" role="alert">
+            <h2>{status === 'invalid' ? 'This link has expired' : 'We could not verify your email'}</h2>
+            <p className="form-hint">
+              {status === 'invalid'
+                ? 'Verification links work once. Request a new one below.'
+                : 'Something went wrong on our side. Please try the link again shortly.'}
+            </p>
+          </div>
+          {needsVerification ? resendButton : (
+            <Link className="button button-primary button-large" href="/login?redirect=%2Fverify-email">
+              Sign in to request a new link
+            </Link>
+          )}
+        </>
+      );
+    }
+
+    if (needsVerification) {
+      return (
+        <>
+          <div className="form-header">
+            <h2>Check your inbox</h2>
+            <p className="form-hint">
+              We sent a verification link to <strong>{email}</strong>. Open it on this or any other device.
+            </p>
+          </div>
+          {resendButton}
+        </>
+      );
+    }
+
+    return (
+      <>
+        <div className="form-header">
+          <h2>Open the link in your email</h2>
+          <p className="form-hint">Use the verification link we sent when you created your account.</p>
+        </div>
+        <Link className="button button-primary button-large" href="/login?redirect=%2Fverify-email">
+          Sign in
+        </Link>
+      </>
+    );
+  };
+
+  return (
+    <>
+      <Head>
+        <title>ShopLite - Verify Email</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <main className="layout">
+        <section className="split">
+          <article className="panel">
+            <span className="badge">Account security</span>
+            <h1 className="page-title">Confirm your email address</h1>
+            <p className="page-subtitle">
+              Verified accounts can place orders and post reviews, and we know where to send order updates.
+            </p>
+          </article>
+          <div className="form login-form">{renderBody()}</div>
+        </section>
+      </main>
+    </>
+  );
+};
+
+export default VerifyEmailPage;
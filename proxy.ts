@@ -1,9 +1,55 @@
-import { NextResponse } from 'next/server';
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  AUTH_COOKIE,
+  buildLoginRedirect,
+  buildMfaSetupRedirect,
+  getIdentityFromToken,
+  getRoleFromToken,
+  isTokenExpired,
+  requiresMfa,
+} from './utils/auth';
+
+/**
+ * Guards protected pages before they render, reading the httpOnly session cookie set by pages/api.
+ * ProtectedRoute still runs on the client for navigations that never reach the server.
+ */
+
+interface RouteRule {
+  prefix: string;
+  role?: 'ADMIN';
+}
+
+const PROTECTED_ROUTES: RouteRule[] = [
+  { prefix: '/admin', role: 'ADMIN' },
+  { prefix: '/dashboard' },
+  { prefix: '/account' },
+  { prefix: '/checkout' },
+];
+
+const matchesPrefix = (pathname: string, prefix: string) => pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const rule = PROTECTED_ROUTES.find((candidate) => matchesPrefix(pathname, candidate.prefix));
+  if (!rule) return NextResponse.next();
+
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  // An expired token goes to /login too, where /api/session renews it silently while the refresh cookie is valid
+  if (!token || isTokenExpired(token)) {
+    return NextResponse.redirect(new URL(buildLoginRedirect(`${pathname}${search}`), request.url));
+  }
+
+  if (rule.role && getRoleFromToken(token) !== rule.role) {
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  if (requiresMfa(rule.role) && getIdentityFromToken(token).mfaEnabled !== true) {
+    return NextResponse.redirect(new URL(buildMfaSetupRedirect(`${pathname}${search}`), request.url));
+  }
 
-export function proxy() {
   return NextResponse.next();
 }
 
 export const config = {
-  matcher: ['/dashboard', '/admin/:path*'],
+  matcher: ['/dashboard', '/account', '/checkout', '/admin/:path*'],
 };
@@ -1,58 +1,264 @@
-import { getAuthToken } from '../utils/auth';
-import { parseApiError } from './apiError';
-import { clearAuthToken } from '../utils/auth';
+import { ApiError, parseApiError } from './apiError';
 
 // Default to the local Next.js rewrite path so frontend deployments can proxy to the real backend.
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL ?? '/api';
 
-class ApiError extends Error {
-  status: number;
-  originalError?: Error;
+// Hung requests fail after this long unless the caller passes its own timeoutMs (0 disables it).
+const DEFAULT_TIMEOUT_MS = Number(process.env.NEXT_PUBLIC_API_TIMEOUT_MS ?? 15000);
 
-  constructor(message: string, status: number, originalError?: Error) {
-    super(message);
-    this.status = status;
-    this.name = 'ApiError';
-    this.originalError = originalError;
-  }
+const RETRYABLE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Upper bound on middleware-requested replays per call, so a misbehaving plugin cannot loop forever
+const MAX_REPLAYS = 3;
+
+export interface RetryPolicy {
+  // Extra attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Generous enough to ride out a cold-starting backend without hammering it.
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: Number(process.env.NEXT_PUBLIC_API_MAX_RETRIES ?? 3),
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+export interface ApiFetchOptions extends RequestInit {
+  timeoutMs?: number;
+  // false disables retries; a partial policy overrides the defaults for this call
+  retry?: Partial<RetryPolicy> | false;
 }
 
-export const apiFetch = async <T>(path: string, options: RequestInit = {}): Promise<T> => {
-  const token = getAuthToken();
+/**
+ * Per-call options accepted by the service functions.
+ * Pass a signal to cancel the request when its caller goes away.
+ */
+export type ApiRequestOptions = Pick<ApiFetchOptions, 'signal' | 'timeoutMs' | 'retry'>;
 
-  try {
-    const headers = {
-      'Content-Type': 'application/json',
-      ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      ...options.headers,
+/**
+ * Sends a request and resolves with the raw Response, exactly like fetch.
+ * Middleware can swap it per request to serve responses from somewhere other than the network.
+ */
+export type ApiTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+const networkTransport: ApiTransport = (url, init) => fetch(url, init);
+
+/**
+ * What a middleware sees for one attempt of a request.
+ * `state` is shared by every attempt of the same apiFetch call.
+ */
+export interface ApiRequestContext {
+  path: string;
+  url: string;
+  init: Omit<RequestInit, 'headers' | 'signal'> & { headers: Headers };
+  transport: ApiTransport;
+  attempt: number;
+  state: Record<string, unknown>;
+}
+
+// Returned from onError to send the same request again, e.g. after renewing credentials
+export interface ApiReplay {
+  replay: true;
+}
+
+export interface ApiMiddleware {
+  name: string;
+  // Runs in registration order before the transport is called; may edit headers, url or transport
+  beforeRequest?: (context: ApiRequestContext) => void | Promise<void>;
+  // Runs in registration order on every response, including error statuses; may return a replacement
+  afterResponse?: (response: Response, context: ApiRequestContext) => Response | void | Promise<Response | void>;
+  // Runs in registration order when the request fails; may replace the error or ask for a replay
+  onError?: (
+    error: ApiError,
+    context: ApiRequestContext
+  ) => ApiError | ApiReplay | void | Promise<ApiError | ApiReplay | void>;
+}
+
+const middlewares: ApiMiddleware[] = [];
+
+/**
+ * Add a middleware to every apiFetch call. Registering the same name again replaces the earlier one.
+ * Returns a function that removes it.
+ */
+export const registerApiMiddleware = (middleware: ApiMiddleware) => {
+  const existing = middlewares.findIndex((entry) => entry.name === middleware.name);
+  if (existing >= 0) {
+    middlewares.splice(existing, 1, middleware);
+  } else {
+    middlewares.push(middleware);
+  }
+
+  return () => {
+    const index = middlewares.indexOf(middleware);
+    if (index >= 0) middlewares.splice(index, 1);
+  };
+};
+
+const hasIdempotencyKey = (headers?: HeadersInit) =>
+  !!headers && new Headers(headers).has(IDEMPOTENCY_HEADER);
+
+// POSTs may only be replayed when the server can recognise the duplicate.
+const isReplayable = (init: RequestInit) =>
+  RETRYABLE_METHODS.has((init.method ?? 'GET').toUpperCase()) || hasIdempotencyKey(init.headers);
+
+const isRetryableError = (error: ApiError) =>
+  error.kind === 'network' ||
+  error.kind === 'timeout' ||
+  (error.kind === 'http' && RETRYABLE_STATUSES.has(error.status));
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Exponential backoff with full jitter, unless the server told us how long to wait.
+const getRetryDelay = (attempt: number, policy: RetryPolicy, retryAfterMs?: number) => {
+  if (typeof retryAfterMs === 'number') return Math.min(retryAfterMs, policy.maxDelayMs);
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
+
+const waitForRetry = (delayMs: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError('Request was cancelled.', 0, undefined, 'aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timerId);
+      reject(new ApiError('Request was cancelled.', 0, undefined, 'aborted'));
     };
+    const timerId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[API] ${options.method || 'GET'} ${API_BASE_URL}${path}`, {
-        hasToken: !!token,
-        tokenLength: token?.length,
-      });
+const runErrorMiddleware = async (error: ApiError, context: ApiRequestContext) => {
+  let current = error;
+  for (const middleware of middlewares) {
+    const result = await middleware.onError?.(current, context);
+    if (result instanceof ApiError) {
+      current = result;
+    } else if (result?.replay) {
+      return { error: current, replay: true };
     }
+  }
+  return { error: current, replay: false };
+};
 
-    const response = await fetch(`${API_BASE_URL}${path}`, {
-      headers,
-      ...options,
+const buildHeaders = (headers?: HeadersInit) => {
+  const merged = new Headers(headers);
+  if (!merged.has('Content-Type')) merged.set('Content-Type', 'application/json');
+  return merged;
+};
+
+export const apiFetch = async <T>(path: string, options: ApiFetchOptions = {}): Promise<T> => {
+  const { retry, timeoutMs, signal, ...init } = options;
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...(retry || {}) };
+  const maxRetries = retry === false || !isReplayable(init) ? 0 : policy.retries;
+  const state: Record<string, unknown> = {};
+  let replays = 0;
+
+  for (let attempt = 0; ; attempt += 1) {
+    const context: ApiRequestContext = {
+      path,
+      url: `${API_BASE_URL}${path}`,
+      init: { ...init, headers: buildHeaders(init.headers) },
+      transport: networkTransport,
+      attempt,
+      state,
+    };
+
+    try {
+      return await performRequest<T>(context, { timeoutMs, signal });
+    } catch (caught) {
+      if (!(caught instanceof ApiError)) throw caught;
+
+      const { error, replay } = await runErrorMiddleware(caught, context);
+      if (replay && replays < MAX_REPLAYS) {
+        // Replays (e.g. after a token refresh) do not count against the retry budget
+        replays += 1;
+        attempt -= 1;
+        continue;
+      }
+
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(attempt, policy, error.retryAfterMs);
+      if (process.env.NODE_ENV === 'development') {
+        console.warn(`[API] retrying ${init.method || 'GET'} ${path} in ${delayMs}ms`, {
+          attempt: attempt + 1,
+          reason: error.message,
+        });
+      }
+      await waitForRetry(delayMs, signal);
+    }
+  }
+};
+
+const performRequest = async <T>(
+  context: ApiRequestContext,
+  options: Pick<ApiFetchOptions, 'signal' | 'timeoutMs'>
+): Promise<T> => {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, signal: callerSignal } = options;
+
+  // Our own controller lets the timeout and the caller's signal abort the same fetch.
+  const controller = new AbortController();
+  let timedOut = false;
+  const abortFromCaller = () => controller.abort();
+  if (callerSignal?.aborted) {
+    controller.abort();
+  } else {
+    callerSignal?.addEventListener('abort', abortFromCaller);
+  }
+  const timeoutId =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : null;
+
+  try {
+    for (const middleware of middlewares) {
+      await middleware.beforeRequest?.(context);
+    }
+
+    let response = await context.transport(context.url, {
+      ...context.init,
+      signal: controller.signal,
     });
 
-    // Handle 401 Unauthorized - clear auth and redirect to login
+    for (const middleware of middlewares) {
+      response = (await middleware.afterResponse?.(response, context)) ?? response;
+    }
+
+    // Middleware decides whether a 401 means refreshing the session or sending the user to login
     if (response.status === 401) {
-      console.error('[API] 401 Unauthorized - clearing auth and redirecting to login');
-      clearAuthToken();
-      // Redirect to login page if on browser
-      if (typeof window !== 'undefined') {
-        window.location.href = '/login';
-      }
-      throw new ApiError('Unauthorized. Please log in again.', 401);
+      // Keep the backend's code so the sign-in steps can tell an expired challenge from a wrong code
+      const { code, data } = await parseApiError(response);
+      throw new ApiError('Unauthorized. Please log in again.', 401, undefined, 'http', { code, data });
     }
 
     if (!response.ok) {
-      const errorMessage = await parseApiError(response);
-      throw new ApiError(errorMessage, response.status);
+      const { message, code, fieldErrors, data } = await parseApiError(response);
+      const error = new ApiError(message, response.status, undefined, 'http', { code, fieldErrors, data });
+      error.retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      throw error;
     }
 
     if (response.status === 204) {
@@ -65,16 +271,33 @@ export const apiFetch = async <T>(path: string, options: RequestInit = {}): Prom
     if (error instanceof ApiError) {
       throw error;
     }
-    
+
+    // The abort can land during fetch() or while reading the body
+    if (controller.signal.aborted) {
+      if (timedOut) {
+        throw new ApiError(
+          'The server took too long to respond. Please try again.',
+          0,
+          error instanceof Error ? error : undefined,
+          'timeout'
+        );
+      }
+      throw new ApiError('Request was cancelled.', 0, error instanceof Error ? error : undefined, 'aborted');
+    }
+
     // Handle network errors and other errors
     if (error instanceof Error) {
       throw new ApiError(
         error.message || 'Failed to connect to the server. Please check your connection.',
         0,
-        error
+        error,
+        'network'
       );
     }
-    
-    throw new ApiError('An unexpected error occurred', 0);
+
+    throw new ApiError('An unexpected error occurred', 0, undefined, 'network');
+  } finally {
+    if (timeoutId !== null) clearTimeout(timeoutId);
+    callerSignal?.removeEventListener('abort', abortFromCaller);
   }
 };
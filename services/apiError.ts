@@ -7,6 +7,60 @@ export interface ApiErrorResponse {
   message?: string;
   error?: string;
   details?: string;
+  code?: string;
+  // Spring's MethodArgumentNotValidException shape
+  errors?: Array<{ field?: string; defaultMessage?: string; message?: string }>;
+  // Map shape used by custom @ControllerAdvice handlers
+  fieldErrors?: Record<string, string>;
+  violations?: Array<{ field?: string; propertyPath?: string; message?: string }>;
+}
+
+// 'schema' means the server answered but the payload did not match what the app expects
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'aborted' | 'schema';
+
+export interface ApiFieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Error thrown by apiFetch for every failed request.
+ * `code` is the backend's machine-readable error code when it sends one;
+ * `fieldErrors` carries per-field validation violations;
+ * `data` is the raw error body, for endpoint-specific fields such as the id of a duplicate.
+ */
+export class ApiError extends Error {
+  status: number;
+  kind: ApiErrorKind;
+  code?: string;
+  fieldErrors: ApiFieldError[];
+  data?: Record<string, unknown>;
+  originalError?: Error;
+  retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    status: number,
+    originalError?: Error,
+    kind: ApiErrorKind = 'http',
+    details: { code?: string; fieldErrors?: ApiFieldError[]; data?: Record<string, unknown> } = {}
+  ) {
+    super(message);
+    this.status = status;
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.code = details.code;
+    this.fieldErrors = details.fieldErrors ?? [];
+    this.data = details.data;
+    this.originalError = originalError;
+  }
+}
+
+export interface ParsedApiError {
+  message: string;
+  code?: string;
+  fieldErrors: ApiFieldError[];
+  data?: Record<string, unknown>;
 }
 
 export function getErrorMessage(error: unknown): string {
@@ -31,13 +85,39 @@ export function getErrorMessage(error: unknown): string {
   return 'An unexpected error occurred. Please try again.';
 }
 
+const collectFieldErrors = (data: ApiErrorResponse): ApiFieldError[] => {
+  const collected: ApiFieldError[] = [];
+
+  data.errors?.forEach((entry) => {
+    const message = entry.defaultMessage ?? entry.message;
+    if (entry.field && message) collected.push({ field: entry.field, message });
+  });
+  data.violations?.forEach((entry) => {
+    const field = entry.field ?? entry.propertyPath;
+    if (field && entry.message) collected.push({ field, message: entry.message });
+  });
+  if (data.fieldErrors && typeof data.fieldErrors === 'object') {
+    Object.entries(data.fieldErrors).forEach(([field, message]) => {
+      if (typeof message === 'string') collected.push({ field, message });
+    });
+  }
+
+  return collected;
+};
+
 /**
  * Parse error from fetch response
  */
-export async function parseApiError(response: Response): Promise<string> {
+export async function parseApiError(response: Response): Promise<ParsedApiError> {
   try {
-    const data = await response.json();
-    return getErrorMessage(data);
+    const data = (await response.json()) as ApiErrorResponse;
+    const fieldErrors = collectFieldErrors(data);
+    return {
+      message: getErrorMessage(data),
+      code: typeof data.code === 'string' ? data.code : undefined,
+      fieldErrors,
+      data: typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : undefined,
+    };
   } catch {
     // If response body isn't JSON, use status text
     const statusMessages: Record<number, string> = {
@@ -49,7 +129,10 @@ export async function parseApiError(response: Response): Promise<string> {
       503: 'Service temporarily unavailable. Please try again later.',
     };
 
-    return statusMessages[response.status] || `Request failed with status ${response.status}`;
+    return {
+      message: statusMessages[response.status] || `Request failed with status ${response.status}`,
+      fieldErrors: [],
+    };
   }
 }
 
@@ -59,3 +142,25 @@ export async function parseApiError(response: Response): Promise<string> {
 export function isApiError(error: unknown): error is { status: number; message: string } {
   return typeof error === 'object' && error !== null && 'status' in error && 'message' in error;
 }
+
+/**
+ * Per-field violations carried by an error, empty for anything that is not an ApiError
+ */
+export function getApiFieldErrors(error: unknown): ApiFieldError[] {
+  return error instanceof ApiError ? error.fieldErrors : [];
+}
+
+/**
+ * True when the request was cancelled by its caller (navigation, unmount, superseded search).
+ * These should be ignored rather than surfaced to the user.
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { kind?: unknown }).kind === 'aborted';
+}
+
+/**
+ * True when the request was abandoned because the server did not answer in time
+ */
+export function isTimeoutError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { kind?: unknown }).kind === 'timeout';
+}
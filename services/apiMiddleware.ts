@@ -0,0 +1,142 @@
+import { apiFetch, registerApiMiddleware, type ApiMiddleware } from './api';
+import { config } from '../lib/config';
+import { createMockTransport } from './mock/transport';
+import { clearOutbox } from './outbox';
+import { parseResponse, sessionResponseSchema } from '../lib/apiSchemas';
+import { buildLoginRedirect, clearStoredSession, getStoredSession, isImpersonating, storeSession } from '../utils/auth';
+
+/**
+ * Built-in apiFetch middleware
+ * Registered once from _app via installDefaultApiMiddleware(); add your own with registerApiMiddleware.
+ */
+
+// A 401 from these means bad credentials or no session at all, not an expired one, so it must not trigger a refresh.
+const AUTH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/mfa/verify',
+  '/auth/refresh',
+  '/auth/logout',
+  '/admin/impersonations/end',
+  '/session',
+];
+
+const isAuthEndpoint = (path: string) => AUTH_ENDPOINTS.includes(path.split('?')[0]);
+
+// Shared by every request that hits a 401 while the exchange is running, so only one refresh is ever in flight.
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Bumped on every successful refresh, so a request can tell whether the cookie changed since it was sent
+let sessionGeneration = 0;
+
+const exchangeRefreshToken = async (): Promise<boolean> => {
+  try {
+    // The refresh token travels as an httpOnly cookie; pages/api/auth/refresh reads it server-side
+    const raw = await apiFetch<unknown>('/auth/refresh', { method: 'POST', retry: false });
+    storeSession(parseResponse(sessionResponseSchema, raw, 'session'));
+    sessionGeneration += 1;
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Renews the access token with the refresh cookie.
+ * Concurrent callers share the same exchange; resolves false when the session cannot be renewed.
+ */
+export const refreshAccessToken = (): Promise<boolean> => {
+  if (!refreshInFlight) {
+    refreshInFlight = exchangeRefreshToken().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+// A lapsed impersonation is never renewed; it is ended here and the admin goes back to their own session
+const endImpersonation = async () => {
+  try {
+    const raw = await apiFetch<unknown>('/admin/impersonations/end', { method: 'POST', retry: false });
+    storeSession(parseResponse(sessionResponseSchema, raw, 'session'));
+    window.location.href = '/admin';
+  } catch {
+    window.location.href = buildLoginRedirect();
+  }
+};
+
+const endSession = () => {
+  const wasImpersonating = isImpersonating(getStoredSession()?.user ?? null);
+  clearStoredSession();
+  clearOutbox();
+  if (typeof window !== 'undefined' && wasImpersonating) {
+    console.error('[API] 401 Unauthorized - impersonation ended, returning to the admin session');
+    void endImpersonation();
+    return;
+  }
+  console.error('[API] 401 Unauthorized - session could not be refreshed, redirecting to login');
+  if (typeof window !== 'undefined') {
+    const currentRoute = `${window.location.pathname}${window.location.search}${window.location.hash}`;
+    if (!window.location.pathname.startsWith('/login')) {
+      window.location.href = buildLoginRedirect(currentRoute);
+    }
+  }
+};
+
+/**
+ * Refresh-on-401: replays the request once with a renewed token, otherwise signs out and
+ * redirects to /login with the current route preserved.
+ */
+export const sessionMiddleware: ApiMiddleware = {
+  name: 'session',
+  beforeRequest: async (context) => {
+    if (isAuthEndpoint(context.path)) return;
+    // Hold new requests back while a refresh is running instead of sending a token that is about to be replaced
+    if (refreshInFlight) await refreshInFlight;
+    context.state.sessionGeneration = sessionGeneration;
+  },
+  onError: async (error, context) => {
+    if (error.status !== 401 || isAuthEndpoint(context.path)) return;
+
+    // Another request may already have renewed the token while this one was in flight
+    const tokenRenewed = context.state.sessionGeneration !== sessionGeneration;
+
+    if (!context.state.sessionRefreshed && (tokenRenewed || (await refreshAccessToken()))) {
+      context.state.sessionRefreshed = true;
+      return { replay: true };
+    }
+
+    endSession();
+  },
+};
+
+const mockTransport = createMockTransport();
+
+// Serves every request from the in-process mock backend (services/mock) instead of the network
+export const demoTransportMiddleware: ApiMiddleware = {
+  name: 'demo-transport',
+  beforeRequest: (context) => {
+    context.transport = mockTransport;
+  },
+};
+
+export const devLoggingMiddleware: ApiMiddleware = {
+  name: 'dev-logging',
+  beforeRequest: (context) => {
+    console.log(`[API] ${context.init.method || 'GET'} ${context.url}`);
+  },
+};
+
+let installed = false;
+
+/**
+ * Registers the built-in middleware in the order they must run. Safe to call more than once.
+ */
+export const installDefaultApiMiddleware = () => {
+  if (installed) return;
+  installed = true;
+
+  registerApiMiddleware(sessionMiddleware);
+  if (config.isDemoMode) registerApiMiddleware(demoTransportMiddleware);
+  if (process.env.NODE_ENV === 'development') registerApiMiddleware(devLoggingMiddleware);
+};
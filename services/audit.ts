@@ -0,0 +1,18 @@
+import type { AuditEntry, AuditQuery } from '../types/audit';
+import { apiFetch, type ApiRequestOptions } from './api';
+import { auditEntrySchema, parseResponseList } from '../lib/apiSchemas';
+
+/**
+ * Privileged admin actions, newest first. The backend records them as they happen; this is read-only.
+ */
+export const listAuditEntries = (query: AuditQuery = {}, options?: ApiRequestOptions): Promise<AuditEntry[]> => {
+  const params = new URLSearchParams();
+  if (query.actor?.trim()) params.set('actor', query.actor.trim());
+  if (query.entityType) params.set('entityType', query.entityType);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  const qs = params.toString();
+  return apiFetch<unknown>(`/admin/audit${qs ? `?${qs}` : ''}`, options).then((data) =>
+    parseResponseList(auditEntrySchema, data, 'audit entry')
+  );
+};
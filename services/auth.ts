@@ -1,27 +1,189 @@
-import type { LoginRequest, LoginResponse, RegisterRequest } from '../types/api';
+import type {
+  ImpersonationRequest,
+  LoginRequest,
+  MfaChallenge,
+  MfaEnrollment,
+  MfaVerifyRequest,
+  PasswordResetConfirmRequest,
+  PasswordResetRequest,
+  RegisterRequest,
+  SessionResponse,
+} from '../types/api';
 import { apiFetch } from './api';
-import { clearAuthToken, storeAuthToken } from '../utils/auth';
+import { isApiError } from './apiError';
+import { refreshAccessToken } from './apiMiddleware';
+import { clearOutbox } from './outbox';
+import { mfaChallengeSchema, mfaEnrollmentSchema, parseResponse, sessionResponseSchema } from '../lib/apiSchemas';
+import { clearStoredSession, storeSession } from '../utils/auth';
 
-export const signIn = async (payload: LoginRequest) => {
-  const data = await apiFetch<LoginResponse>('/auth/login', {
+// Used when the server does not say how long to wait between verification emails
+const VERIFICATION_RESEND_COOLDOWN_S = 60;
+
+/**
+ * Session endpoints served by pages/api; the tokens stay in httpOnly cookies and only the identity comes back
+ */
+
+/**
+ * Check the password. Accounts with two-factor turned on resolve with an MfaChallenge instead of a session,
+ * to be finished with completeMfaSignIn.
+ */
+export const signIn = async (payload: LoginRequest): Promise<SessionResponse | MfaChallenge> => {
+  const raw = await apiFetch<unknown>('/auth/login', {
     method: 'POST',
     body: JSON.stringify(payload),
   });
+  const challenge = mfaChallengeSchema.safeParse(raw);
+  if (challenge.success) return challenge.data;
+
+  const session: SessionResponse = parseResponse(sessionResponseSchema, raw, 'session');
+  storeSession(session);
+  return session;
+};
+
+export const isMfaChallenge = (result: SessionResponse | MfaChallenge): result is MfaChallenge =>
+  'mfaRequired' in result && result.mfaRequired === true;
 
-  storeAuthToken(data.token, { role: data.role, expiresAt: data.expiresAt });
-  return data;
+/**
+ * Second sign-in step: trade the challenge token and an authenticator or recovery code for the session.
+ * Rejects with a 401 for a wrong code, or MFA_CHALLENGE_EXPIRED once the password has to be entered again.
+ */
+export const completeMfaSignIn = async (payload: MfaVerifyRequest) => {
+  const raw = await apiFetch<unknown>('/auth/mfa/verify', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+  const session: SessionResponse = parseResponse(sessionResponseSchema, raw, 'session');
+  storeSession(session);
+  return session;
 };
 
 export const signUp = async (payload: RegisterRequest) => {
-  const data = await apiFetch<LoginResponse>('/auth/register', {
+  const raw = await apiFetch<unknown>('/auth/register', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+  const session: SessionResponse = parseResponse(sessionResponseSchema, raw, 'session');
+  storeSession(session);
+  return session;
+};
+
+/**
+ * Who the session cookie belongs to. Rejects with a 401 ApiError when nobody is signed in.
+ */
+export const getSession = async () => {
+  const raw = await apiFetch<unknown>('/session');
+  const session: SessionResponse = parseResponse(sessionResponseSchema, raw, 'session');
+  storeSession(session);
+  return session;
+};
+
+/**
+ * Renew the access token with the refresh cookie.
+ * Resolves false when there is no refresh token or the backend rejects it.
+ */
+export const refreshSession = () => refreshAccessToken();
+
+export const signOut = async () => {
+  clearStoredSession();
+  // Changes still queued offline belong to this account; the next one to sign in here must not send them
+  clearOutbox();
+  await apiFetch<void>('/auth/logout', { method: 'POST', retry: false });
+};
+
+/**
+ * Ask for a password reset link. Resolves the same way whether or not the email has an account,
+ * so the page can never reveal which addresses are registered.
+ */
+export const requestPasswordReset = async (payload: PasswordResetRequest) => {
+  try {
+    await apiFetch<unknown>('/auth/password-reset/request', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+  } catch (error) {
+    // A backend that answers 404 for unknown emails would leak it; treat that as sent
+    if (isApiError(error) && error.status === 404) return;
+    throw error;
+  }
+};
+
+/**
+ * Set a new password with the token from the reset link. Rejects with a 400 when the link is invalid or expired.
+ */
+export const confirmPasswordReset = (payload: PasswordResetConfirmRequest) =>
+  apiFetch<void>('/auth/password-reset/confirm', {
     method: 'POST',
     body: JSON.stringify(payload),
   });
 
-  storeAuthToken(data.token, { role: data.role, expiresAt: data.expiresAt });
-  return data;
+/**
+ * Confirm the address with the token from the verification link. Rejects with a 400 when the link is invalid or used.
+ */
+export const verifyEmail = (token: string) =>
+  apiFetch<void>('/auth/verify-email', {
+    method: 'POST',
+    body: JSON.stringify({ token }),
+  });
+
+/**
+ * Send a fresh verification link to the signed-in account.
+ * Resolves with how long to wait before the next resend; rejects with a 429 while the cooldown is running.
+ */
+export const resendVerificationEmail = async () => {
+  const raw = await apiFetch<{ cooldownSeconds?: number } | undefined>('/auth/verify-email/resend', { method: 'POST' });
+  return { cooldownSeconds: raw?.cooldownSeconds ?? VERIFICATION_RESEND_COOLDOWN_S };
+};
+
+/**
+ * Start two-factor setup for the signed-in account: a new secret and recovery codes that only take effect once confirmed
+ */
+export const startMfaEnrollment = async (): Promise<MfaEnrollment> => {
+  const raw = await apiFetch<unknown>('/auth/mfa/enroll', { method: 'POST' });
+  return parseResponse(mfaEnrollmentSchema, raw, 'two-factor enrollment');
+};
+
+/**
+ * Turn two-factor on with the first code from the authenticator app, then renew the session so it carries the claim
+ */
+export const confirmMfaEnrollment = async (code: string) => {
+  await apiFetch<void>('/auth/mfa/confirm', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+  await refreshAccessToken();
+};
+
+/**
+ * Turn two-factor off; needs a current code or an unused recovery code
+ */
+export const disableMfa = async (code: string) => {
+  await apiFetch<void>('/auth/mfa/disable', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+  await refreshAccessToken();
+};
+
+/**
+ * Swap the admin's session for a short-lived, read-only one as the given customer.
+ * The admin's own session is parked server-side until endImpersonation.
+ */
+export const startImpersonation = async (payload: ImpersonationRequest) => {
+  const raw = await apiFetch<unknown>('/admin/impersonations', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+  const session: SessionResponse = parseResponse(sessionResponseSchema, raw, 'session');
+  storeSession(session);
+  return session;
 };
 
-export const signOut = () => {
-  clearAuthToken();
+/**
+ * Go back to the admin's own session. Rejects with a 401 when it has ended in the meantime.
+ */
+export const endImpersonation = async () => {
+  const raw = await apiFetch<unknown>('/admin/impersonations/end', { method: 'POST', retry: false });
+  const session: SessionResponse = parseResponse(sessionResponseSchema, raw, 'session');
+  storeSession(session);
+  return session;
 };
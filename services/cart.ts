@@ -0,0 +1,35 @@
+import type { CartRequest } from '../types/api';
+import type { CartItem } from '../types/product';
+import { apiFetch, type ApiRequestOptions } from './api';
+import { cartSchema, parseResponse } from '../lib/apiSchemas';
+
+/**
+ * The signed-in account's cart, kept on the server so it follows the user between devices.
+ * Guests keep theirs in localStorage (see CartContext).
+ */
+
+const toCart = (data: unknown): CartItem[] => parseResponse(cartSchema, data, 'cart');
+
+export const toCartRequest = (items: CartItem[]): CartRequest => ({
+  items: items.map((item) => ({ productId: item.product.id, quantity: item.quantity })),
+});
+
+export const getCart = (options?: ApiRequestOptions) => apiFetch<unknown>('/cart', options).then(toCart);
+
+/**
+ * Replace the whole cart with `payload`
+ */
+export const saveCart = (payload: CartRequest) =>
+  apiFetch<unknown>('/cart', {
+    method: 'PUT',
+    body: JSON.stringify(payload),
+  }).then(toCart);
+
+/**
+ * Add `payload` to the cart: quantities of the same product are summed, then capped at stock
+ */
+export const mergeCart = (payload: CartRequest) =>
+  apiFetch<unknown>('/cart/merge', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  }).then(toCart);
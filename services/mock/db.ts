@@ -0,0 +1,450 @@
+import type { AuditChange, AuditEntityType } from '../../types/audit';
+import type { PricingRules, ShippingAddress } from '../../types/pricing';
+import type { Product } from '../../types/product';
+import type { DiscountLine, Promotion } from '../../types/promotion';
+import type { Review } from '../../types/review';
+import type { NotificationPreferences, PermissionKey, UserStatus } from '../../types/user';
+import type { ReviewStatus } from '../reviews';
+import { fallbackProducts } from '../../lib/config';
+import { ROLE_PERMISSION_DEFAULTS } from '../../utils/permissions';
+import { DEFAULT_PRICING_RULES } from '../../utils/pricing';
+
+/**
+ * Seeded data store behind the demo transport.
+ * Lives in memory and is mirrored to localStorage so demo changes survive a reload.
+ */
+
+const DB_KEY = 'demo_backend_db';
+const TOKEN_TTL_MS = 30 * 60 * 1000;
+const PASSWORD_RESET_TTL_MS = 30 * 60 * 1000;
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+export const IMPERSONATION_TTL_MS = 15 * 60 * 1000;
+
+export interface MockUser {
+  id: number;
+  username: string;
+  email: string;
+  password: string;
+  role: 'ROLE_USER' | 'ROLE_ADMIN';
+  status: UserStatus;
+  // Seeded accounts leave it unset and count as verified
+  emailVerified?: boolean;
+  // Base32 TOTP secret; only set once enrollment has been confirmed with a code
+  mfaSecret?: string;
+  mfaRecoveryCodes?: string[];
+  // Enrollment started but not yet confirmed
+  mfaPending?: { secret: string; recoveryCodes: string[] };
+  // Unset means the defaults for the role
+  permissions?: PermissionKey[];
+  notificationPreferences?: NotificationPreferences;
+}
+
+export interface MockOrderItem {
+  id: number;
+  productId: number;
+  quantity: number;
+  price: number;
+}
+
+export interface MockOrder {
+  id: number;
+  userId: number;
+  total: number;
+  createdAt: string;
+  status: 'PENDING' | 'PAID' | 'SHIPPED' | 'COMPLETED' | 'CANCELLED';
+  items: MockOrderItem[];
+  discounts?: DiscountLine[];
+  shipping?: number;
+  tax?: number;
+  shippingAddress?: ShippingAddress;
+}
+
+export interface MockReview extends Review {
+  status: ReviewStatus;
+  userId: number | null;
+  helpfulCount: number;
+}
+
+export interface MockAuditEntry {
+  id: number;
+  actorId: number;
+  actorName: string;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel?: string;
+  changes?: AuditChange[];
+  reason?: string;
+  createdAt: string;
+}
+
+export interface MockCartLine {
+  productId: number;
+  quantity: number;
+}
+
+export interface MockDatabase {
+  products: Product[];
+  users: MockUser[];
+  orders: MockOrder[];
+  reviews: MockReview[];
+  // refresh token -> user id
+  refreshTokens: Record<string, number>;
+  // Idempotency-Key header -> id of the order it created
+  idempotencyKeys: Record<string, number>;
+  // password reset token -> who it resets and until when
+  passwordResets: Record<string, { userId: number; expiresAt: string }>;
+  // email verification token -> who it verifies and when it was sent
+  emailVerifications: Record<string, { userId: number; sentAt: string }>;
+  // sign-in challenge token -> who passed the password step and until when
+  mfaChallenges: Record<string, { userId: number; expiresAt: string }>;
+  // Privileged actions, newest last
+  auditLog: MockAuditEntry[];
+  // user id -> that account's cart
+  carts: Record<string, MockCartLine[]>;
+  promotions: Promotion[];
+  // Tax and shipping rules every order is priced with
+  pricing: PricingRules;
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const seedProducts = (): Product[] => [
+  ...fallbackProducts.map((product) => ({
+    ...product,
+    tags: 'New',
+    features: 'Ships in 24 hours\nOne-year warranty',
+    categories: 'Essentials',
+    weight: 0.5,
+  })),
+  {
+    id: 4,
+    name: 'Lumen Desk Bundle',
+    description: 'A curated workstation bundle designed for productive hybrid teams.',
+    tags: 'Top',
+    features: 'Adjustable lamp\nCable organiser\nFelt desk mat',
+    price: 129,
+    stock: 8,
+    imageUrl: 'https://images.unsplash.com/photo-1593642632823-8f785ba67e45?w=600&h=400&fit=crop',
+    categories: 'Office, Home',
+    weight: 4.2,
+  },
+  {
+    id: 5,
+    name: 'Arcade Creator Kit',
+    description: 'Premium audio, lighting, and capture tools for content launches.',
+    tags: 'Edition',
+    features: 'USB microphone\nRing light\nCapture card',
+    price: 189,
+    stock: 5,
+    imageUrl: 'https://images.unsplash.com/photo-1598327105666-5b89351aff97?w=600&h=400&fit=crop',
+    categories: 'Electronics, Gaming',
+    weight: 2.8,
+  },
+  {
+    id: 6,
+    name: 'Northwind Studio Set',
+    description: 'Modular pieces for teams that swap displays, stands, and props often.',
+    tags: 'Discount',
+    features: 'Monitor arm\nLaptop stand',
+    price: 98,
+    stock: 0,
+    imageUrl: 'https://images.unsplash.com/photo-1593642632781-0c887a0a3b3f?w=600&h=400&fit=crop',
+    categories: 'Office, Accessories',
+    weight: 6,
+  },
+];
+
+const promotionDefaults = {
+  description: null,
+  value: 0,
+  buyQuantity: null,
+  getQuantity: null,
+  minSpend: null,
+  productIds: [],
+  categories: [],
+  startsAt: null,
+  expiresAt: null,
+  active: true,
+  usageLimit: null,
+  usageCount: 0,
+};
+
+const seedPromotions = (): Promotion[] => [
+  {
+    ...promotionDefaults,
+    id: 1,
+    code: 'WELCOME10',
+    description: '10% off everything for new customers',
+    type: 'PERCENTAGE',
+    value: 10,
+    createdAt: daysAgo(30),
+  },
+  {
+    ...promotionDefaults,
+    id: 2,
+    code: 'SAVE15',
+    description: '$15 off orders of $75 or more',
+    type: 'FIXED_AMOUNT',
+    value: 15,
+    minSpend: 75,
+    usageLimit: 100,
+    usageCount: 12,
+    createdAt: daysAgo(20),
+  },
+  {
+    ...promotionDefaults,
+    id: 3,
+    code: 'FREESHIP',
+    type: 'FREE_SHIPPING',
+    createdAt: daysAgo(14),
+  },
+  {
+    ...promotionDefaults,
+    id: 4,
+    code: 'OFFICE3FOR2',
+    description: 'Buy two office items, get the cheapest third free',
+    type: 'BUY_X_GET_Y',
+    buyQuantity: 2,
+    getQuantity: 1,
+    categories: ['Office'],
+    createdAt: daysAgo(7),
+  },
+  {
+    ...promotionDefaults,
+    id: 5,
+    code: 'SPRING20',
+    type: 'PERCENTAGE',
+    value: 20,
+    expiresAt: daysAgo(10),
+    usageCount: 41,
+    createdAt: daysAgo(60),
+  },
+];
+
+export const seedPricing = (): PricingRules => JSON.parse(JSON.stringify(DEFAULT_PRICING_RULES)) as PricingRules;
+
+const seedDatabase = (): MockDatabase => ({
+  products: seedProducts(),
+  users: [
+    { id: 1, username: 'admin', email: 'admin@shoplite.dev', password: 'Admin1234', role: 'ROLE_ADMIN', status: 'ACTIVE' },
+    { id: 2, username: 'demo', email: 'demo@shoplite.dev', password: 'Demo1234', role: 'ROLE_USER', status: 'ACTIVE' },
+    { id: 3, username: 'casey', email: 'casey@example.com', password: 'Casey1234', role: 'ROLE_USER', status: 'DISABLED' },
+  ],
+  orders: [
+    {
+      id: 1,
+      userId: 2,
+      total: 69.97,
+      createdAt: daysAgo(6),
+      status: 'COMPLETED',
+      items: [
+        { id: 1, productId: 1, quantity: 1, price: 19.99 },
+        { id: 2, productId: 2, quantity: 1, price: 49.99 },
+      ],
+    },
+    {
+      id: 2,
+      userId: 2,
+      total: 129,
+      createdAt: daysAgo(1),
+      status: 'PENDING',
+      items: [{ id: 3, productId: 4, quantity: 1, price: 129 }],
+    },
+  ],
+  reviews: [
+    {
+      id: 1,
+      productId: 1,
+      userId: 2,
+      rating: 5,
+      title: 'Does exactly what it says',
+      comment: 'Arrived quickly and covers everything I need day to day.',
+      createdAt: daysAgo(5),
+      reviewerName: 'demo',
+      verifiedPurchase: true,
+      helpfulCount: 3,
+      status: 'APPROVED',
+    },
+    {
+      id: 2,
+      productId: 4,
+      userId: 2,
+      rating: 3,
+      title: 'Good lamp, flimsy mat',
+      comment: 'The lamp is great but the desk mat curls at the edges.',
+      createdAt: daysAgo(1),
+      reviewerName: 'demo',
+      verifiedPurchase: true,
+      helpfulCount: 0,
+      status: 'PENDING',
+    },
+  ],
+  refreshTokens: {},
+  idempotencyKeys: {},
+  passwordResets: {},
+  emailVerifications: {},
+  mfaChallenges: {},
+  auditLog: [],
+  carts: {},
+  promotions: seedPromotions(),
+  pricing: seedPricing(),
+});
+
+let database: MockDatabase | null = null;
+
+export const getDatabase = (): MockDatabase => {
+  if (database) return database;
+
+  if (typeof window !== 'undefined') {
+    try {
+      const stored = window.localStorage.getItem(DB_KEY);
+      if (stored) {
+        database = JSON.parse(stored) as MockDatabase;
+        return database;
+      }
+    } catch {
+      // fall through to a fresh seed
+    }
+  }
+
+  database = seedDatabase();
+  return database;
+};
+
+export const saveDatabase = () => {
+  if (!database || typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(DB_KEY, JSON.stringify(database));
+  } catch {
+    // storage full or disabled; the in-memory copy still works for this session
+  }
+};
+
+export const resetDatabase = () => {
+  database = seedDatabase();
+  saveDatabase();
+};
+
+export const nextId = (rows: Array<{ id: number | string }>) =>
+  rows.reduce((max, row) => (typeof row.id === 'number' && row.id > max ? row.id : max), 0) + 1;
+
+// decodeJwtPayload uses atob + JSON.parse, so keep the payload ASCII by escaping anything wider
+const toBase64Url = (value: string) =>
+  btoa(value.replace(/[\u0080-\uffff]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const randomToken = () =>
+  Array.from({ length: 4 }, () => Math.random().toString(36).slice(2)).join('');
+
+export const permissionsOf = (user: MockUser): PermissionKey[] =>
+  user.permissions ?? ROLE_PERMISSION_DEFAULTS[user.role === 'ROLE_ADMIN' ? 'ADMIN' : 'USER'];
+
+const signToken = (user: MockUser, expiresAtMs: number, claims: Record<string, unknown> = {}) => {
+  const header = toBase64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = toBase64Url(
+    JSON.stringify({
+      sub: user.username,
+      username: user.username,
+      email: user.email,
+      userId: user.id,
+      role: user.role,
+      emailVerified: user.emailVerified !== false,
+      mfa: !!user.mfaSecret,
+      permissions: permissionsOf(user),
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(expiresAtMs / 1000),
+      ...claims,
+    })
+  );
+  return `${header}.${payload}.demo`;
+};
+
+/**
+ * Issue an unsigned JWT carrying the same claims the Spring Boot backend sends
+ */
+export const issueSession = (db: MockDatabase, user: MockUser) => {
+  const expiresAtMs = Date.now() + TOKEN_TTL_MS;
+  const refreshToken = randomToken();
+  db.refreshTokens[refreshToken] = user.id;
+
+  return {
+    token: signToken(user, expiresAtMs),
+    expiresAt: new Date(expiresAtMs).toISOString(),
+    tokenType: 'Bearer' as const,
+    role: user.role,
+    refreshToken,
+  };
+};
+
+/**
+ * Short-lived session as `user` for `admin`, with no refresh token so it cannot outlive IMPERSONATION_TTL_MS
+ */
+export const issueImpersonationSession = (user: MockUser, admin: MockUser) => {
+  const expiresAtMs = Date.now() + IMPERSONATION_TTL_MS;
+  return {
+    token: signToken(user, expiresAtMs, {
+      impersonatorId: admin.id,
+      impersonatorName: admin.username,
+      act: { sub: admin.username },
+    }),
+    expiresAt: new Date(expiresAtMs).toISOString(),
+    tokenType: 'Bearer' as const,
+    role: user.role,
+  };
+};
+
+/**
+ * Append a privileged action to the audit log
+ */
+export const recordAudit = (db: MockDatabase, entry: Omit<MockAuditEntry, 'id' | 'createdAt'>) => {
+  const auditLog = (db.auditLog ??= []);
+  const saved: MockAuditEntry = { ...entry, id: nextId(auditLog), createdAt: new Date().toISOString() };
+  auditLog.push(saved);
+  return saved;
+};
+
+/**
+ * The listed fields whose values differ between two snapshots; a missing snapshot reads as all nulls
+ */
+export const diffFields = <T extends object>(before: T | null, after: T | null, fields: Array<keyof T & string>) =>
+  fields.flatMap((field): AuditChange[] => {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    return JSON.stringify(from) === JSON.stringify(to) ? [] : [{ field, before: from, after: to }];
+  });
+
+/**
+ * Single-use token for the /reset-password link the backend would email
+ */
+export const issuePasswordResetToken = (db: MockDatabase, user: MockUser) => {
+  const token = randomToken();
+  (db.passwordResets ??= {})[token] = {
+    userId: user.id,
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS).toISOString(),
+  };
+  return token;
+};
+
+/**
+ * Token for the /verify-email link the backend would email after sign-up
+ */
+export const issueEmailVerificationToken = (db: MockDatabase, user: MockUser) => {
+  const token = randomToken();
+  (db.emailVerifications ??= {})[token] = { userId: user.id, sentAt: new Date().toISOString() };
+  return token;
+};
+
+/**
+ * Short-lived token standing in for a password that has been checked, exchanged for a session once the code is too
+ */
+export const issueMfaChallenge = (db: MockDatabase, user: MockUser) => {
+  const token = randomToken();
+  (db.mfaChallenges ??= {})[token] = {
+    userId: user.id,
+    expiresAt: new Date(Date.now() + MFA_CHALLENGE_TTL_MS).toISOString(),
+  };
+  return token;
+};
@@ -0,0 +1,78 @@
+/**
+ * RFC 6238 TOTP for the demo backend: 6 digits, 30-second steps, HMAC-SHA1, the defaults every authenticator app uses
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+const randomBytes = (length: number) => {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return bytes;
+};
+
+const toBase32 = (bytes: Uint8Array) => {
+  let bits = '';
+  bytes.forEach((byte) => {
+    bits += byte.toString(2).padStart(8, '0');
+  });
+  let output = '';
+  for (let index = 0; index + 5 <= bits.length; index += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(index, index + 5), 2)];
+  }
+  return output;
+};
+
+const fromBase32 = (secret: string) => {
+  const bits = secret
+    .toUpperCase()
+    .replace(/[^A-Z2-7]/g, '')
+    .split('')
+    .map((char) => BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0'))
+    .join('');
+  const bytes = new Uint8Array(Math.floor(bits.length / 8));
+  bytes.forEach((_, index) => {
+    bytes[index] = parseInt(bits.slice(index * 8, index * 8 + 8), 2);
+  });
+  return bytes;
+};
+
+export const generateTotpSecret = () => toBase32(randomBytes(20));
+
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export const generateRecoveryCodes = (count = 8) =>
+  Array.from({ length: count }, () => {
+    const code = Array.from(randomBytes(10), (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+const codeForCounter = async (secret: string, counter: number) => {
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey('raw', fromBase32(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+const currentCounter = () => Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+export const currentTotp = (secret: string) => codeForCounter(secret, currentCounter());
+
+/**
+ * Accepts the current code and one step either side, to allow for clock drift
+ */
+export const verifyTotp = async (secret: string, code: string) => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return false;
+  const counter = currentCounter();
+  const candidates = await Promise.all([counter - 1, counter, counter + 1].map((step) => codeForCounter(secret, step)));
+  return candidates.includes(normalized);
+};
@@ -0,0 +1,1596 @@
+import type { ApiTransport } from '../api';
+import type { FreeShippingRule, PricingRules, ShippingAddress, ShippingBasis, ShippingRate, TaxRate } from '../../types/pricing';
+import type { CartItem, Product } from '../../types/product';
+import type { DiscountLine, Promotion, PromotionRequest, PromotionRules, PromotionType } from '../../types/promotion';
+import type { PermissionKey } from '../../types/user';
+import type { ReviewStatus } from '../reviews';
+import { config } from '../../lib/config';
+import {
+  AUTH_COOKIE,
+  IMPERSONATOR_COOKIE,
+  REFRESH_COOKIE,
+  decodeJwtPayload,
+  getTokenExpiry,
+  isTokenExpired,
+  sessionFromToken,
+} from '../../utils/auth';
+import { isPermissionKey, parsePermissions } from '../../utils/permissions';
+import { SHIPPING_COUNTRIES, priceOrder } from '../../utils/pricing';
+import { applyPromotion, describePromotionProblem, sumDiscounts } from '../../utils/promotions';
+import {
+  getDatabase,
+  issueEmailVerificationToken,
+  issueImpersonationSession,
+  issueMfaChallenge,
+  issuePasswordResetToken,
+  issueSession,
+  nextId,
+  diffFields,
+  permissionsOf,
+  recordAudit,
+  saveDatabase,
+  seedPricing,
+  type MockAuditEntry,
+  type MockCartLine,
+  type MockDatabase,
+  type MockOrder,
+  type MockReview,
+  type MockUser,
+} from './db';
+import { currentTotp, generateRecoveryCodes, generateTotpSecret, verifyTotp } from './totp';
+
+/**
+ * In-process stand-in for the Spring Boot API and the pages/api session routes, used when NEXT_PUBLIC_DEMO=true.
+ * Serves every route the services call from the seeded store in ./db.
+ */
+
+const SIMULATED_LATENCY_MS = 150;
+const VERIFICATION_RESEND_COOLDOWN_S = 60;
+const REVIEW_STATUSES: ReviewStatus[] = ['PENDING', 'APPROVED', 'REJECTED', 'HIDDEN'];
+const SHIPPING_BASES: ShippingBasis[] = ['SUBTOTAL', 'WEIGHT'];
+
+interface RouteContext {
+  db: MockDatabase;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  headers: Headers;
+  viewer: MockUser | null;
+}
+
+interface RouteResult {
+  status: number;
+  body?: unknown;
+}
+
+// A permission key means an admin holding that permission
+type Access = 'public' | 'user' | 'admin' | PermissionKey;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  access: Access;
+  handler: (context: RouteContext) => RouteResult | Promise<RouteResult>;
+}
+
+class MockHttpError extends Error {
+  status: number;
+  body: Record<string, unknown>;
+
+  constructor(status: number, message: string, extra: Record<string, unknown> = {}) {
+    super(message);
+    this.status = status;
+    this.body = { message, ...extra };
+  }
+}
+
+const ok = (body: unknown, status = 200): RouteResult => ({ status, body });
+
+const notFound = (entity: string) => new MockHttpError(404, `${entity} not found`, { code: 'NOT_FOUND' });
+
+const validationError = (fieldErrors: Record<string, string>) =>
+  new MockHttpError(400, 'Validation failed', { code: 'VALIDATION_FAILED', fieldErrors });
+
+const routes: Route[] = [];
+
+const route = (method: string, path: string, access: Access, handler: Route['handler']) => {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  routes.push({ method, pattern: new RegExp(`^${source}$`), keys, access, handler });
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const numberOf = (value: unknown) => (typeof value === 'number' ? value : Number(value));
+const applyLimit = <T>(rows: T[], query: URLSearchParams) => {
+  const limit = Number(query.get('limit'));
+  return Number.isFinite(limit) && limit > 0 ? rows.slice(0, limit) : rows;
+};
+
+const findProduct = (db: MockDatabase, id: string | number) => {
+  const product = db.products.find((row) => row.id === Number(id));
+  if (!product) throw notFound('Product');
+  return product;
+};
+
+const toPublicUser = (user: MockUser) => ({
+  id: user.id,
+  username: user.username,
+  email: user.email,
+  role: user.role,
+  status: user.status,
+  permissions: permissionsOf(user),
+});
+
+const toOrderResponse = (db: MockDatabase, order: MockOrder) => {
+  const owner = db.users.find((user) => user.id === order.userId);
+  return {
+    id: order.id,
+    userId: order.userId,
+    total: order.total,
+    createdAt: order.createdAt,
+    status: order.status,
+    discounts: order.discounts ?? [],
+    shipping: order.shipping ?? 0,
+    tax: order.tax ?? 0,
+    customerName: owner?.username,
+    customerEmail: owner?.email,
+    items: order.items.map((item) => ({
+      id: item.id,
+      quantity: item.quantity,
+      price: item.price,
+      product: db.products.find((product) => product.id === item.productId) ?? {
+        id: item.productId,
+        name: `Product ${item.productId}`,
+        price: item.price,
+        stock: 0,
+      },
+    })),
+  };
+};
+
+const toPublicReview = (review: MockReview) => ({
+  id: review.id,
+  productId: review.productId,
+  rating: review.rating,
+  title: review.title,
+  comment: review.comment,
+  createdAt: review.createdAt,
+  reviewerName: review.reviewerName,
+  verifiedPurchase: review.verifiedPurchase,
+  helpfulCount: review.helpfulCount,
+});
+
+const byNewest = (a: { createdAt: string }, b: { createdAt: string }) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+const validateProduct = (body: Record<string, unknown>) => {
+  const fieldErrors: Record<string, string> = {};
+  if (!text(body.name)) fieldErrors.name = 'Product name is required';
+  if (!text(body.categories)) fieldErrors.categories = 'Category is required';
+  const price = numberOf(body.price);
+  if (!Number.isFinite(price) || price <= 0) fieldErrors.price = 'Price must be greater than 0';
+  const stock = numberOf(body.stock);
+  if (!Number.isInteger(stock) || stock < 0) fieldErrors.stock = 'Stock must be a whole number of 0 or more';
+  const weight = body.weight === null || body.weight === undefined || body.weight === '' ? null : numberOf(body.weight);
+  if (weight !== null && !(weight > 0)) fieldErrors.weight = 'Weight must be greater than 0';
+  if (Object.keys(fieldErrors).length > 0) throw validationError(fieldErrors);
+
+  return {
+    name: text(body.name),
+    description: text(body.description) || null,
+    tags: text(body.tags) || null,
+    features: text(body.features) || null,
+    categories: text(body.categories),
+    price,
+    stock,
+    imageUrl: text(body.imageUrl) || null,
+    weight,
+  };
+};
+
+const PRODUCT_AUDIT_FIELDS: Array<keyof Product & string> = [
+  'name',
+  'description',
+  'tags',
+  'features',
+  'categories',
+  'price',
+  'stock',
+  'imageUrl',
+  'weight',
+];
+
+// Admin changes may carry an optional `reason` in the body, which is only kept in the audit log
+const auditAction = (
+  db: MockDatabase,
+  viewer: MockUser | null,
+  body: Record<string, unknown>,
+  entry: Pick<MockAuditEntry, 'action' | 'entityType' | 'entityId' | 'entityLabel' | 'changes'>
+) => {
+  if (!viewer) return;
+  recordAudit(db, { ...entry, actorId: viewer.id, actorName: viewer.username, reason: text(body.reason) || undefined });
+};
+
+// Auth
+// Plays the part of pages/api: tokens go into cookies (readable here, httpOnly on the real server) and only the identity is returned
+
+const readCookie = (name: string) => {
+  if (typeof document === 'undefined') return undefined;
+  const entry = document.cookie.split('; ').find((part) => part.startsWith(`${name}=`));
+  return entry ? decodeURIComponent(entry.slice(name.length + 1)) : undefined;
+};
+
+const writeCookie = (name: string, value: string, maxAge: number) => {
+  if (typeof document === 'undefined') return;
+  document.cookie = `${name}=${encodeURIComponent(value)}; Path=/; Max-Age=${maxAge}; SameSite=Lax`;
+};
+
+const SESSION_COOKIE_MAX_AGE_S = 60 * 60 * 24 * 30;
+
+const startSession = (db: MockDatabase, user: MockUser) => {
+  const session = issueSession(db, user);
+  writeCookie(AUTH_COOKIE, session.token, SESSION_COOKIE_MAX_AGE_S);
+  writeCookie(REFRESH_COOKIE, session.refreshToken, SESSION_COOKIE_MAX_AGE_S);
+  writeCookie(IMPERSONATOR_COOKIE, '', 0);
+  return sessionFromToken(session.token, session.expiresAt, session.role);
+};
+
+// Signing out while viewing as a customer signs the admin out as well
+const endSession = (db: MockDatabase) => {
+  [REFRESH_COOKIE, IMPERSONATOR_COOKIE].forEach((name) => {
+    const refreshToken = readCookie(name);
+    if (refreshToken) delete db.refreshTokens[refreshToken];
+  });
+  writeCookie(AUTH_COOKIE, '', 0);
+  writeCookie(REFRESH_COOKIE, '', 0);
+  writeCookie(IMPERSONATOR_COOKIE, '', 0);
+};
+
+// Only the session's own refresh token renews it; a lapsed impersonation has none and is ended through
+// /admin/impersonations/end, which still needs the admin's parked token
+const renewSession = (db: MockDatabase) => {
+  const refreshToken = readCookie(REFRESH_COOKIE) ?? '';
+  if (!refreshToken && readCookie(IMPERSONATOR_COOKIE)) return null;
+  const user = db.users.find((row) => row.id === db.refreshTokens[refreshToken]);
+  delete db.refreshTokens[refreshToken];
+  if (!user || user.status !== 'ACTIVE') {
+    endSession(db);
+    return null;
+  }
+  return startSession(db, user);
+};
+
+const sendVerificationEmail = (db: MockDatabase, user: MockUser) => {
+  // There is no mail server in demo mode, so the link goes to the console instead
+  console.info(`[Demo API] verification link for ${user.email}: /verify-email?token=${issueEmailVerificationToken(db, user)}`);
+};
+
+const requireVerifiedEmail = (viewer: MockUser | null) => {
+  if (viewer?.emailVerified === false) {
+    throw new MockHttpError(403, 'Please verify your email address first', { code: 'EMAIL_NOT_VERIFIED' });
+  }
+};
+
+const MFA_ISSUER = config.site.name;
+
+const invalidCode = () =>
+  new MockHttpError(400, 'That code is not valid. Check your authenticator app and try again.', {
+    code: 'INVALID_MFA_CODE',
+    fieldErrors: { code: 'That code is not valid' },
+  });
+
+// No phone in demo mode either, so the code an authenticator app would show goes to the console
+const logCurrentCode = async (user: MockUser, secret: string) => {
+  console.info(`[Demo API] current two-factor code for ${user.username}: ${await currentTotp(secret)}`);
+};
+
+/**
+ * True when `code` is the current TOTP or an unused recovery code, which is used up
+ */
+const checkSecondFactor = async (user: MockUser, code: string) => {
+  if (!user.mfaSecret) return false;
+  if (await verifyTotp(user.mfaSecret, code)) return true;
+
+  const recoveryCode = code.trim().toLowerCase();
+  const remaining = user.mfaRecoveryCodes ?? [];
+  if (!remaining.includes(recoveryCode)) return false;
+  user.mfaRecoveryCodes = remaining.filter((entry) => entry !== recoveryCode);
+  return true;
+};
+
+route('POST', '/auth/login', 'public', async ({ db, body }) => {
+  const identifier = text(body.username).toLowerCase();
+  const user = db.users.find(
+    (row) => row.username.toLowerCase() === identifier || row.email.toLowerCase() === identifier
+  );
+  if (!user || user.password !== body.password) {
+    throw new MockHttpError(401, 'Invalid username or password', { code: 'BAD_CREDENTIALS' });
+  }
+  if (user.status !== 'ACTIVE') {
+    throw new MockHttpError(403, 'This account has been disabled', { code: 'ACCOUNT_DISABLED' });
+  }
+  if (user.mfaSecret) {
+    await logCurrentCode(user, user.mfaSecret);
+    return ok({ mfaRequired: true, mfaToken: issueMfaChallenge(db, user) });
+  }
+  return ok(startSession(db, user));
+});
+
+route('POST', '/auth/register', 'public', ({ db, body }) => {
+  const username = text(body.username);
+  const email = text(body.email);
+  const password = typeof body.password === 'string' ? body.password : '';
+  const fieldErrors: Record<string, string> = {};
+  if (username.length < 3) fieldErrors.username = 'Username must be at least 3 characters';
+  if (!/^\S+@\S+\.\S+$/.test(email)) fieldErrors.email = 'Please enter a valid email address';
+  if (password.length < 8) fieldErrors.password = 'Password must be at least 8 characters';
+  if (Object.keys(fieldErrors).length > 0) throw validationError(fieldErrors);
+
+  const taken = db.users.some(
+    (row) => row.username.toLowerCase() === username.toLowerCase() || row.email.toLowerCase() === email.toLowerCase()
+  );
+  if (taken) throw new MockHttpError(409, 'Username or email already exists', { code: 'USER_EXISTS' });
+
+  const user: MockUser = {
+    id: nextId(db.users),
+    username,
+    email,
+    password,
+    role: 'ROLE_USER',
+    status: 'ACTIVE',
+    emailVerified: false,
+  };
+  db.users.push(user);
+  sendVerificationEmail(db, user);
+  return ok(startSession(db, user), 201);
+});
+
+route('POST', '/auth/refresh', 'public', ({ db }) => {
+  const session = renewSession(db);
+  if (!session) {
+    throw new MockHttpError(401, 'Your session has expired. Please sign in again.', { code: 'SESSION_EXPIRED' });
+  }
+  return ok(session);
+});
+
+route('POST', '/auth/logout', 'public', ({ db }) => {
+  endSession(db);
+  return ok(undefined, 204);
+});
+
+// Both answer the same way whether or not the account exists, like the real backend
+route('POST', '/auth/password-reset/request', 'public', ({ db, body }) => {
+  const email = text(body.email).toLowerCase();
+  const user = db.users.find((row) => row.email.toLowerCase() === email && row.status === 'ACTIVE');
+  if (user) {
+    // There is no mail server in demo mode, so the link goes to the console instead
+    console.info(`[Demo API] password reset link for ${user.email}: /reset-password?token=${issuePasswordResetToken(db, user)}`);
+  }
+  return ok({ message: 'If an account exists for that email, a reset link is on its way.' }, 202);
+});
+
+route('POST', '/auth/password-reset/confirm', 'public', ({ db, body }) => {
+  const token = text(body.token);
+  const password = typeof body.newPassword === 'string' ? body.newPassword : '';
+  if (password.length < 8) throw validationError({ newPassword: 'Password must be at least 8 characters' });
+
+  const resets = (db.passwordResets ??= {});
+  const reset = resets[token];
+  delete resets[token];
+  const user = reset && new Date(reset.expiresAt).getTime() > Date.now() ? db.users.find((row) => row.id === reset.userId) : undefined;
+  if (!user) {
+    throw new MockHttpError(400, 'This reset link is invalid or has expired', { code: 'INVALID_RESET_TOKEN' });
+  }
+
+  user.password = password;
+  // A new password signs every existing session out
+  Object.entries(db.refreshTokens).forEach(([refreshToken, userId]) => {
+    if (userId === user.id) delete db.refreshTokens[refreshToken];
+  });
+  return ok(undefined, 204);
+});
+
+route('POST', '/auth/verify-email', 'public', ({ db, body }) => {
+  const verifications = (db.emailVerifications ??= {});
+  const entry = verifications[text(body.token)];
+  const user = entry ? db.users.find((row) => row.id === entry.userId) : undefined;
+  if (!user) {
+    throw new MockHttpError(400, 'This verification link is invalid or has already been used', {
+      code: 'INVALID_VERIFICATION_TOKEN',
+    });
+  }
+
+  user.emailVerified = true;
+  // Any older links for the same account stop working too
+  Object.entries(verifications).forEach(([token, row]) => {
+    if (row.userId === user.id) delete verifications[token];
+  });
+  return ok(undefined, 204);
+});
+
+route('POST', '/auth/verify-email/resend', 'user', ({ db, viewer }) => {
+  if (!viewer || viewer.emailVerified !== false) {
+    throw new MockHttpError(409, 'This email address is already verified', { code: 'ALREADY_VERIFIED' });
+  }
+
+  const lastSentMs = Math.max(
+    0,
+    ...Object.values(db.emailVerifications ?? {})
+      .filter((row) => row.userId === viewer.id)
+      .map((row) => new Date(row.sentAt).getTime())
+  );
+  const waitSeconds = Math.ceil((lastSentMs + VERIFICATION_RESEND_COOLDOWN_S * 1000 - Date.now()) / 1000);
+  if (waitSeconds > 0) {
+    throw new MockHttpError(429, `Please wait ${waitSeconds}s before requesting another email`, {
+      code: 'RESEND_COOLDOWN',
+      retryAfterSeconds: waitSeconds,
+    });
+  }
+
+  sendVerificationEmail(db, viewer);
+  return ok({ cooldownSeconds: VERIFICATION_RESEND_COOLDOWN_S }, 202);
+});
+
+// Two-factor authentication
+
+route('POST', '/auth/mfa/verify', 'public', async ({ db, body }) => {
+  const challenges = (db.mfaChallenges ??= {});
+  const token = text(body.mfaToken);
+  const challenge = challenges[token];
+  const user = challenge && new Date(challenge.expiresAt).getTime() > Date.now()
+    ? db.users.find((row) => row.id === challenge.userId && row.status === 'ACTIVE')
+    : undefined;
+  if (!user) {
+    delete challenges[token];
+    throw new MockHttpError(401, 'Your sign-in has timed out. Please enter your password again.', {
+      code: 'MFA_CHALLENGE_EXPIRED',
+    });
+  }
+  if (!(await checkSecondFactor(user, text(body.code)))) {
+    throw new MockHttpError(401, 'That code is not valid. Check your authenticator app and try again.', {
+      code: 'INVALID_MFA_CODE',
+    });
+  }
+
+  delete challenges[token];
+  return ok(startSession(db, user));
+});
+
+route('POST', '/auth/mfa/enroll', 'user', ({ viewer }) => {
+  if (!viewer) throw notFound('User');
+  if (viewer.mfaSecret) {
+    throw new MockHttpError(409, 'Two-factor authentication is already on', { code: 'MFA_ALREADY_ENABLED' });
+  }
+
+  // Starting again replaces an enrollment that was never confirmed
+  const secret = generateTotpSecret();
+  const recoveryCodes = generateRecoveryCodes();
+  viewer.mfaPending = { secret, recoveryCodes };
+  const label = encodeURIComponent(`${MFA_ISSUER}:${viewer.email}`);
+  return ok({
+    secret,
+    otpauthUri: `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(MFA_ISSUER)}&algorithm=SHA1&digits=6&period=30`,
+    recoveryCodes,
+  });
+});
+
+route('POST', '/auth/mfa/confirm', 'user', async ({ viewer, body }) => {
+  const pending = viewer?.mfaPending;
+  if (!viewer || !pending) {
+    throw new MockHttpError(409, 'Start two-factor setup before confirming it', { code: 'MFA_NOT_STARTED' });
+  }
+  if (!(await verifyTotp(pending.secret, text(body.code)))) throw invalidCode();
+
+  viewer.mfaSecret = pending.secret;
+  viewer.mfaRecoveryCodes = pending.recoveryCodes;
+  delete viewer.mfaPending;
+  return ok(undefined, 204);
+});
+
+route('POST', '/auth/mfa/disable', 'user', async ({ viewer, body }) => {
+  if (!viewer?.mfaSecret) {
+    throw new MockHttpError(409, 'Two-factor authentication is not on', { code: 'MFA_NOT_ENABLED' });
+  }
+  if (!(await checkSecondFactor(viewer, text(body.code)))) throw invalidCode();
+
+  delete viewer.mfaSecret;
+  delete viewer.mfaRecoveryCodes;
+  return ok(undefined, 204);
+});
+
+route('GET', '/session', 'public', ({ db, viewer }) => {
+  const token = readCookie(AUTH_COOKIE);
+  if (viewer && token) return ok(sessionFromToken(token, getTokenExpiry(token) ?? ''));
+
+  const session = renewSession(db);
+  saveDatabase();
+  if (!session) throw new MockHttpError(401, 'Not signed in', { code: 'NO_SESSION' });
+  return ok(session);
+});
+
+// Products
+
+const splitList = (value?: string | null) =>
+  (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const countFacet = (products: Product[], pick: (product: Product) => string | null | undefined) => {
+  const counts = new Map<string, number>();
+  products.forEach((product) => {
+    splitList(pick(product)).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  );
+};
+
+const optionalNumber = (value: string | null) => (value === null || value === '' ? null : Number(value));
+
+// Name matches rank above matches in the other text fields
+const relevanceOf = (product: Product, term: string) => (product.name.toLowerCase().includes(term) ? 0 : 1);
+
+const PRODUCT_SORTS: Record<string, (a: Product, b: Product) => number> = {
+  'price,asc': (a, b) => a.price - b.price,
+  'price,desc': (a, b) => b.price - a.price,
+  'stock,desc': (a, b) => b.stock - a.stock,
+  'id,desc': (a, b) => b.id - a.id,
+};
+
+/**
+ * Spring-style Page of products. Facets describe every match of the other filters,
+ * so the category list does not collapse to the one category already selected.
+ */
+const pageProducts = (db: MockDatabase, query: URLSearchParams) => {
+  const term = text(query.get('q')).toLowerCase();
+  const category = text(query.get('category')).toLowerCase();
+  const tags = query.getAll('tag').map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+  const minPrice = optionalNumber(query.get('minPrice'));
+  const maxPrice = optionalNumber(query.get('maxPrice'));
+  const minStock = optionalNumber(query.get('minStock'));
+  const maxStock = optionalNumber(query.get('maxStock'));
+  const inStock = query.get('inStock') === 'true';
+
+  const matchesAllButCategory = db.products.filter((product) => {
+    if (term) {
+      const haystack = [product.name, product.description, product.tags, product.features, product.categories]
+        .join(' ')
+        .toLowerCase();
+      if (!haystack.includes(term)) return false;
+    }
+    const productTags = splitList(product.tags).map((tag) => tag.toLowerCase());
+    if (tags.length > 0 && !tags.some((tag) => productTags.includes(tag))) return false;
+    if (minPrice !== null && product.price < minPrice) return false;
+    if (maxPrice !== null && product.price > maxPrice) return false;
+    if (minStock !== null && product.stock < minStock) return false;
+    if (maxStock !== null && product.stock > maxStock) return false;
+    if (inStock && product.stock <= 0) return false;
+    return true;
+  });
+  const matches = category
+    ? matchesAllButCategory.filter((product) =>
+        splitList(product.categories).some((entry) => entry.toLowerCase() === category)
+      )
+    : matchesAllButCategory;
+
+  const compare = PRODUCT_SORTS[query.get('sort') ?? ''];
+  const sorted = compare
+    ? [...matches].sort(compare)
+    : term
+      ? [...matches].sort((a, b) => relevanceOf(a, term) - relevanceOf(b, term))
+      : matches;
+
+  const page = Math.max(0, Number(query.get('page')) || 0);
+  const size = Math.min(100, Math.max(1, Number(query.get('size')) || 12));
+  const prices = matches.map((product) => product.price);
+
+  return {
+    content: sorted.slice(page * size, (page + 1) * size),
+    totalElements: matches.length,
+    totalPages: Math.ceil(matches.length / size),
+    number: page,
+    size,
+    facets: {
+      categories: countFacet(matchesAllButCategory, (product) => product.categories),
+      tags: countFacet(matches, (product) => product.tags),
+      priceRange: prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : null,
+      inStock: matches.filter((product) => product.stock > 0).length,
+      outOfStock: matches.filter((product) => product.stock <= 0).length,
+    },
+  };
+};
+
+// Without paging parameters the whole catalog comes back as a plain array, as it always has
+route('GET', '/products', 'public', ({ db, query }) =>
+  ok(query.has('page') || query.has('size') ? pageProducts(db, query) : db.products)
+);
+
+route('GET', '/products/:id', 'public', ({ db, params }) => ok(findProduct(db, params.id)));
+
+route('POST', '/products', 'catalog.write', ({ db, body, viewer }) => {
+  const product = { id: nextId(db.products), ...validateProduct(body) };
+  db.products.push(product);
+  auditAction(db, viewer, body, {
+    action: 'product.create',
+    entityType: 'product',
+    entityId: String(product.id),
+    entityLabel: product.name,
+    changes: diffFields(null, product, PRODUCT_AUDIT_FIELDS),
+  });
+  return ok(product, 201);
+});
+
+route('PUT', '/products/:id', 'catalog.write', ({ db, params, body, viewer }) => {
+  const product = findProduct(db, params.id);
+  const before = { ...product };
+  Object.assign(product, validateProduct(body));
+  const changes = diffFields(before, product, PRODUCT_AUDIT_FIELDS);
+  if (changes.length > 0) {
+    auditAction(db, viewer, body, {
+      action: 'product.update',
+      entityType: 'product',
+      entityId: String(product.id),
+      entityLabel: product.name,
+      changes,
+    });
+  }
+  return ok(product);
+});
+
+route('DELETE', '/products/:id', 'catalog.write', ({ db, params, body, viewer }) => {
+  const product = findProduct(db, params.id);
+  db.products = db.products.filter((row) => row.id !== product.id);
+  auditAction(db, viewer, body, {
+    action: 'product.delete',
+    entityType: 'product',
+    entityId: String(product.id),
+    entityLabel: product.name,
+    changes: diffFields(product, null, PRODUCT_AUDIT_FIELDS),
+  });
+  return ok(undefined, 204);
+});
+
+// Reviews
+
+const approvedReviews = (db: MockDatabase, productId: number) =>
+  db.reviews.filter((review) => review.productId === productId && review.status === 'APPROVED');
+
+route('GET', '/products/:id/reviews', 'public', ({ db, params }) =>
+  ok(approvedReviews(db, Number(params.id)).sort(byNewest).map(toPublicReview))
+);
+
+route('GET', '/products/:id/reviews/summary', 'public', ({ db, params }) => {
+  const reviews = approvedReviews(db, Number(params.id));
+  const count = (rating: number) => reviews.filter((review) => review.rating === rating).length;
+  const averageRating = reviews.length
+    ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
+    : 0;
+  return ok({
+    productId: Number(params.id),
+    averageRating: Math.round(averageRating * 10) / 10,
+    reviewCount: reviews.length,
+    count1: count(1),
+    count2: count(2),
+    count3: count(3),
+    count4: count(4),
+    count5: count(5),
+  });
+});
+
+route('POST', '/products/:id/reviews', 'user', ({ db, params, body, viewer }) => {
+  requireVerifiedEmail(viewer);
+  const product = findProduct(db, params.id);
+  const rating = numberOf(body.rating);
+  const fieldErrors: Record<string, string> = {};
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) fieldErrors.rating = 'Rating must be between 1 and 5';
+  if (!text(body.title)) fieldErrors.title = 'Title is required';
+  if (!text(body.comment)) fieldErrors.comment = 'Comment is required';
+  if (Object.keys(fieldErrors).length > 0) throw validationError(fieldErrors);
+
+  const verifiedPurchase = db.orders.some(
+    (order) => order.userId === viewer?.id && order.items.some((item) => item.productId === product.id)
+  );
+  const review: MockReview = {
+    id: nextId(db.reviews),
+    productId: product.id,
+    userId: viewer?.id ?? null,
+    rating,
+    title: text(body.title),
+    comment: text(body.comment),
+    createdAt: new Date().toISOString(),
+    reviewerName: text(body.reviewerName) || viewer?.username || 'Anonymous',
+    verifiedPurchase,
+    helpfulCount: 0,
+    status: 'PENDING',
+  };
+  db.reviews.push(review);
+  return ok(toPublicReview(review), 201);
+});
+
+route('GET', '/admin/reviews', 'admin', ({ db, query }) => {
+  const status = query.get('status');
+  const productId = query.get('productId');
+  const rating = query.get('rating');
+  const rows = db.reviews
+    .filter((review) => !status || review.status === status)
+    .filter((review) => !productId || review.productId === Number(productId))
+    .filter((review) => !rating || review.rating === Number(rating))
+    .sort(byNewest)
+    .map((review) => ({ ...toPublicReview(review), status: review.status }));
+  return ok(rows);
+});
+
+route('PATCH', '/admin/reviews/:id', 'reviews.moderate', ({ db, params, body, viewer }) => {
+  const review = db.reviews.find((row) => String(row.id) === params.id);
+  if (!review) throw notFound('Review');
+  const status = text(body.status).toUpperCase() as ReviewStatus;
+  if (!REVIEW_STATUSES.includes(status)) throw validationError({ status: 'Unknown review status' });
+  const before = { status: review.status };
+  review.status = status;
+  auditAction(db, viewer, body, {
+    action: 'review.moderate',
+    entityType: 'review',
+    entityId: String(review.id),
+    entityLabel: review.title || `Review of product #${review.productId}`,
+    changes: diffFields(before, { status }, ['status']),
+  });
+  return ok({ ...toPublicReview(review), status: review.status });
+});
+
+// Cart
+
+// Sums repeated products, drops unknown ones and caps each line at the stock left
+const normalizeCart = (db: MockDatabase, lines: MockCartLine[]) => {
+  const merged: MockCartLine[] = [];
+  lines.forEach(({ productId, quantity }) => {
+    const existing = merged.find((line) => line.productId === productId);
+    if (existing) existing.quantity += quantity;
+    else merged.push({ productId, quantity });
+  });
+  return merged
+    .map((line) => {
+      const product = db.products.find((row) => row.id === line.productId);
+      return { productId: line.productId, quantity: product ? Math.min(line.quantity, product.stock) : 0 };
+    })
+    .filter((line) => line.quantity > 0);
+};
+
+const readCartLines = (body: Record<string, unknown>): MockCartLine[] => {
+  if (!Array.isArray(body.items)) throw validationError({ items: 'Items must be a list' });
+  return (body.items as Array<Record<string, unknown>>).map((entry) => {
+    const quantity = numberOf(entry.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) throw validationError({ items: 'Quantities must be whole numbers above 0' });
+    return { productId: numberOf(entry.productId), quantity };
+  });
+};
+
+// Products removed since a line was saved are left out
+const toCartResponse = (db: MockDatabase, lines: MockCartLine[]) => ({
+  items: lines.flatMap(({ productId, quantity }) => {
+    const product = db.products.find((row) => row.id === productId);
+    return product ? [{ product, quantity }] : [];
+  }),
+});
+
+const cartsOf = (db: MockDatabase) => (db.carts ??= {});
+
+// Read against the live catalog, so lines that sold out or went over stock come back trimmed
+route('GET', '/cart', 'user', ({ db, viewer }) =>
+  ok(toCartResponse(db, normalizeCart(db, cartsOf(db)[String(viewer?.id)] ?? [])))
+);
+
+route('PUT', '/cart', 'user', ({ db, body, viewer }) => {
+  const lines = normalizeCart(db, readCartLines(body));
+  cartsOf(db)[String(viewer?.id)] = lines;
+  return ok(toCartResponse(db, lines));
+});
+
+route('POST', '/cart/merge', 'user', ({ db, body, viewer }) => {
+  const carts = cartsOf(db);
+  const lines = normalizeCart(db, [...(carts[String(viewer?.id)] ?? []), ...readCartLines(body)]);
+  carts[String(viewer?.id)] = lines;
+  return ok(toCartResponse(db, lines));
+});
+
+// Promotions
+
+const PROMOTION_TYPES: PromotionType[] = ['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING', 'BUY_X_GET_Y'];
+
+const PROMOTION_AUDIT_FIELDS: Array<keyof Promotion & string> = [
+  'code',
+  'description',
+  'type',
+  'value',
+  'buyQuantity',
+  'getQuantity',
+  'minSpend',
+  'productIds',
+  'categories',
+  'startsAt',
+  'expiresAt',
+  'active',
+  'usageLimit',
+];
+
+const promotionsOf = (db: MockDatabase) => (db.promotions ??= []);
+
+const findPromotion = (db: MockDatabase, id: string) => {
+  const promotion = promotionsOf(db).find((row) => row.id === Number(id));
+  if (!promotion) throw notFound('Promotion');
+  return promotion;
+};
+
+const toPromotionRules = (promotion: Promotion): PromotionRules => ({
+  code: promotion.code,
+  description: promotion.description,
+  type: promotion.type,
+  value: promotion.value,
+  buyQuantity: promotion.buyQuantity,
+  getQuantity: promotion.getQuantity,
+  minSpend: promotion.minSpend,
+  productIds: promotion.productIds,
+  categories: promotion.categories,
+  startsAt: promotion.startsAt,
+  expiresAt: promotion.expiresAt,
+});
+
+// Lines priced from the catalog as it is now, never from what the client sent
+const toPricedLines = (db: MockDatabase, lines: MockCartLine[]): CartItem[] =>
+  lines.map(({ productId, quantity }) => ({ product: findProduct(db, productId), quantity }));
+
+/**
+ * The discount `code` gives `items`, or an error saying why it gives none.
+ * Inactive and used-up codes read as unknown or exhausted; everything else is left to applyPromotion.
+ */
+const discountFor = (db: MockDatabase, code: string, items: CartItem[]) => {
+  const promotion = promotionsOf(db).find((row) => row.code.toLowerCase() === code.toLowerCase());
+  if (!promotion || !promotion.active) {
+    throw new MockHttpError(404, `${code.toUpperCase()} is not a valid promo code`, { code: 'PROMOTION_NOT_FOUND' });
+  }
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+    throw new MockHttpError(409, `${promotion.code} has reached its usage limit`, { code: 'PROMOTION_USED_UP' });
+  }
+  const result = applyPromotion(promotion, items);
+  if (result.problem) {
+    throw new MockHttpError(400, describePromotionProblem(result.problem, promotion), {
+      code: 'PROMOTION_NOT_APPLICABLE',
+      reason: result.problem,
+    });
+  }
+  return { promotion, discount: result.discount };
+};
+
+const optionalAmount = (value: unknown) => (value === null || value === undefined || value === '' ? null : numberOf(value));
+
+const optionalDate = (value: unknown) => {
+  const raw = text(value);
+  return raw ? raw : null;
+};
+
+const validatePromotion = (db: MockDatabase, body: Record<string, unknown>, id?: number): PromotionRequest => {
+  const fieldErrors: Record<string, string> = {};
+  const code = text(body.code).toUpperCase();
+  if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+    fieldErrors.code = 'Use 3 to 32 letters, numbers, dashes or underscores';
+  } else if (promotionsOf(db).some((row) => row.id !== id && row.code === code)) {
+    fieldErrors.code = 'Another promotion already uses this code';
+  }
+
+  const type = PROMOTION_TYPES.find((candidate) => candidate === body.type);
+  if (!type) fieldErrors.type = 'Choose a promotion type';
+
+  const value = type === 'PERCENTAGE' || type === 'FIXED_AMOUNT' ? numberOf(body.value) : 0;
+  if (type === 'PERCENTAGE' && !(value > 0 && value <= 100)) fieldErrors.value = 'Percentage must be above 0 and at most 100';
+  if (type === 'FIXED_AMOUNT' && !(value > 0)) fieldErrors.value = 'Amount must be greater than 0';
+
+  const buyQuantity = type === 'BUY_X_GET_Y' ? numberOf(body.buyQuantity) : null;
+  const getQuantity = type === 'BUY_X_GET_Y' ? numberOf(body.getQuantity) : null;
+  if (buyQuantity !== null && !(Number.isInteger(buyQuantity) && buyQuantity > 0)) {
+    fieldErrors.buyQuantity = 'Buy quantity must be a whole number above 0';
+  }
+  if (getQuantity !== null && !(Number.isInteger(getQuantity) && getQuantity > 0)) {
+    fieldErrors.getQuantity = 'Free quantity must be a whole number above 0';
+  }
+
+  const minSpend = optionalAmount(body.minSpend);
+  if (minSpend !== null && !(minSpend > 0)) fieldErrors.minSpend = 'Minimum spend must be greater than 0';
+
+  const productIds = Array.isArray(body.productIds) ? body.productIds.map(numberOf) : [];
+  const unknownId = productIds.find((productId) => !db.products.some((product) => product.id === productId));
+  if (unknownId !== undefined) fieldErrors.productIds = `There is no product #${unknownId}`;
+  const categories = Array.isArray(body.categories) ? body.categories.map(text).filter(Boolean) : [];
+
+  const startsAt = optionalDate(body.startsAt);
+  const expiresAt = optionalDate(body.expiresAt);
+  if (startsAt && Number.isNaN(Date.parse(startsAt))) fieldErrors.startsAt = 'Start date is not a valid date';
+  if (expiresAt && Number.isNaN(Date.parse(expiresAt))) fieldErrors.expiresAt = 'Expiry date is not a valid date';
+  else if (startsAt && expiresAt && Date.parse(expiresAt) <= Date.parse(startsAt)) {
+    fieldErrors.expiresAt = 'Expiry must be after the start date';
+  }
+
+  const usageLimit = optionalAmount(body.usageLimit);
+  if (usageLimit !== null && !(Number.isInteger(usageLimit) && usageLimit > 0)) {
+    fieldErrors.usageLimit = 'Usage limit must be a whole number above 0';
+  }
+
+  if (Object.keys(fieldErrors).length > 0 || !type) throw validationError(fieldErrors);
+
+  return {
+    code,
+    description: text(body.description) || null,
+    type,
+    value,
+    buyQuantity,
+    getQuantity,
+    minSpend,
+    productIds: [...new Set(productIds)],
+    categories: [...new Set(categories)],
+    startsAt,
+    expiresAt,
+    active: body.active !== false,
+    usageLimit,
+  };
+};
+
+// Shoppers get the rules, not the usage counts, so the cart can keep its discount current as lines change
+route('POST', '/promotions/check', 'user', ({ db, body }) => {
+  const code = text(body.code);
+  if (!code) throw validationError({ code: 'Enter a promo code' });
+  const { promotion } = discountFor(db, code, toPricedLines(db, normalizeCart(db, readCartLines(body))));
+  return ok(toPromotionRules(promotion));
+});
+
+route('GET', '/admin/promotions', 'promotions.manage', ({ db }) =>
+  ok([...promotionsOf(db)].sort((a, b) => byNewest(a, b) || b.id - a.id))
+);
+
+route('POST', '/admin/promotions', 'promotions.manage', ({ db, body, viewer }) => {
+  const promotions = promotionsOf(db);
+  const promotion: Promotion = {
+    id: nextId(promotions),
+    ...validatePromotion(db, body),
+    usageCount: 0,
+    createdAt: new Date().toISOString(),
+  };
+  promotions.push(promotion);
+  auditAction(db, viewer, body, {
+    action: 'promotion.create',
+    entityType: 'promotion',
+    entityId: String(promotion.id),
+    entityLabel: promotion.code,
+    changes: diffFields(null, promotion, PROMOTION_AUDIT_FIELDS),
+  });
+  return ok(promotion, 201);
+});
+
+route('PUT', '/admin/promotions/:id', 'promotions.manage', ({ db, params, body, viewer }) => {
+  const promotion = findPromotion(db, params.id);
+  const before = { ...promotion };
+  Object.assign(promotion, validatePromotion(db, body, promotion.id));
+  const changes = diffFields(before, promotion, PROMOTION_AUDIT_FIELDS);
+  if (changes.length > 0) {
+    auditAction(db, viewer, body, {
+      action: 'promotion.update',
+      entityType: 'promotion',
+      entityId: String(promotion.id),
+      entityLabel: promotion.code,
+      changes,
+    });
+  }
+  return ok(promotion);
+});
+
+route('DELETE', '/admin/promotions/:id', 'promotions.manage', ({ db, params, body, viewer }) => {
+  const promotion = findPromotion(db, params.id);
+  db.promotions = promotionsOf(db).filter((row) => row.id !== promotion.id);
+  auditAction(db, viewer, body, {
+    action: 'promotion.delete',
+    entityType: 'promotion',
+    entityId: String(promotion.id),
+    entityLabel: promotion.code,
+    changes: diffFields(promotion, null, PROMOTION_AUDIT_FIELDS),
+  });
+  return ok(undefined, 204);
+});
+
+// Pricing
+
+// Databases saved before the rules were configurable get the defaults, which match what was charged until then
+const pricingOf = (db: MockDatabase) => (db.pricing ??= seedPricing());
+
+const PRICING_AUDIT_FIELDS: Array<keyof PricingRules & string> = [
+  'defaultTaxRate',
+  'taxRates',
+  'shippingBasis',
+  'shippingRates',
+  'defaultItemWeight',
+  'freeShipping',
+];
+
+const isPercent = (value: number) => Number.isFinite(value) && value >= 0 && value <= 100;
+const isAmount = (value: number) => Number.isFinite(value) && value >= 0;
+const rowsOf = (value: unknown) => (Array.isArray(value) ? (value as Array<Record<string, unknown>>) : []);
+
+// Row problems are reported per list, naming the row, since the admin form edits each list as a table
+const validatePricing = (body: Record<string, unknown>): Omit<PricingRules, 'updatedAt'> => {
+  const fieldErrors: Record<string, string> = {};
+
+  const defaultTaxRate = numberOf(body.defaultTaxRate);
+  if (!isPercent(defaultTaxRate)) fieldErrors.defaultTaxRate = 'Default tax rate must be between 0 and 100';
+
+  const taxRates = rowsOf(body.taxRates).map((row, index): TaxRate => {
+    const rate = {
+      country: text(row.country).toUpperCase(),
+      postalPrefix: text(row.postalPrefix).toUpperCase() || null,
+      rate: numberOf(row.rate),
+      label: text(row.label),
+    };
+    if (!(rate.country in SHIPPING_COUNTRIES)) fieldErrors.taxRates = `Tax rate ${index + 1}: choose a supported country`;
+    else if (!isPercent(rate.rate)) fieldErrors.taxRates = `Tax rate ${index + 1}: the rate must be between 0 and 100`;
+    else if (!rate.label) fieldErrors.taxRates = `Tax rate ${index + 1}: give the tax a name`;
+    return rate;
+  });
+  const regions = taxRates.map((rate) => `${rate.country} ${rate.postalPrefix ?? ''}`.trim());
+  const repeated = regions.find((region, index) => regions.indexOf(region) !== index);
+  if (repeated && !fieldErrors.taxRates) fieldErrors.taxRates = `${repeated} has more than one tax rate`;
+
+  const shippingBasis = SHIPPING_BASES.find((basis) => basis === body.shippingBasis);
+  if (!shippingBasis) fieldErrors.shippingBasis = 'Price shipping by subtotal or by weight';
+
+  const shippingRates = rowsOf(body.shippingRates).map((row, index): ShippingRate => {
+    const band = { upTo: optionalAmount(row.upTo), amount: numberOf(row.amount) };
+    if (band.upTo !== null && !(band.upTo > 0)) fieldErrors.shippingRates = `Rate ${index + 1}: the upper limit must be greater than 0`;
+    else if (!isAmount(band.amount)) fieldErrors.shippingRates = `Rate ${index + 1}: the price must be 0 or more`;
+    return band;
+  });
+  if (shippingRates.length === 0) fieldErrors.shippingRates = 'Add at least one shipping rate';
+  else if (shippingRates.filter((band) => band.upTo === null).length > 1) {
+    fieldErrors.shippingRates = 'Only one shipping rate can be open-ended';
+  }
+
+  const defaultItemWeight = numberOf(body.defaultItemWeight);
+  if (!(defaultItemWeight > 0)) fieldErrors.defaultItemWeight = 'Default weight must be greater than 0';
+
+  const freeShipping = rowsOf(body.freeShipping).map((row, index): FreeShippingRule => {
+    const rule = {
+      minSubtotal: numberOf(row.minSubtotal),
+      countries: rowsOf(row.countries).map((country) => text(country).toUpperCase()).filter(Boolean),
+    };
+    const unknown = rule.countries.find((country) => !(country in SHIPPING_COUNTRIES));
+    if (!isAmount(rule.minSubtotal)) fieldErrors.freeShipping = `Free shipping rule ${index + 1}: the minimum must be 0 or more`;
+    else if (unknown) fieldErrors.freeShipping = `Free shipping rule ${index + 1}: ${unknown} is not a supported country`;
+    return rule;
+  });
+
+  if (Object.keys(fieldErrors).length > 0 || !shippingBasis) throw validationError(fieldErrors);
+  return { defaultTaxRate, taxRates, shippingBasis, shippingRates, defaultItemWeight, freeShipping };
+};
+
+const readShippingAddress = (value: unknown): ShippingAddress | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const address = value as Record<string, unknown>;
+  const country = text(address.country).toUpperCase();
+  return country ? { country, postalCode: text(address.postalCode) } : null;
+};
+
+route('GET', '/pricing', 'public', ({ db }) => ok(pricingOf(db)));
+
+route('PUT', '/admin/pricing', 'pricing.manage', ({ db, body, viewer }) => {
+  const before = pricingOf(db);
+  db.pricing = { ...validatePricing(body), updatedAt: new Date().toISOString() };
+  const changes = diffFields(before, db.pricing, PRICING_AUDIT_FIELDS);
+  if (changes.length > 0) {
+    auditAction(db, viewer, body, {
+      action: 'pricing.update',
+      entityType: 'pricing',
+      entityId: 'pricing',
+      entityLabel: 'Tax and shipping rules',
+      changes,
+    });
+  }
+  return ok(db.pricing);
+});
+
+// Orders
+
+route('GET', '/orders', 'user', ({ db, query, viewer }) =>
+  ok(
+    applyLimit(
+      db.orders.filter((order) => order.userId === viewer?.id).sort(byNewest),
+      query
+    ).map((order) => toOrderResponse(db, order))
+  )
+);
+
+route('GET', '/orders/all', 'orders.read', ({ db, query }) =>
+  ok(applyLimit([...db.orders].sort(byNewest), query).map((order) => toOrderResponse(db, order)))
+);
+
+route('GET', '/orders/:id', 'user', ({ db, params, viewer }) => {
+  const order = db.orders.find((row) => row.id === Number(params.id));
+  if (!order || (order.userId !== viewer?.id && viewer?.role !== 'ROLE_ADMIN')) throw notFound('Order');
+  return ok(toOrderResponse(db, order));
+});
+
+route('POST', '/orders', 'user', ({ db, body, headers, viewer }) => {
+  requireVerifiedEmail(viewer);
+  // Databases saved before idempotency support have no key table yet
+  const idempotencyKeys = (db.idempotencyKeys ??= {});
+  const idempotencyKey = headers.get('Idempotency-Key');
+  if (idempotencyKey && idempotencyKeys[idempotencyKey] !== undefined) {
+    throw new MockHttpError(409, 'Duplicate request: this order has already been placed.', {
+      code: 'DUPLICATE_REQUEST',
+      orderId: idempotencyKeys[idempotencyKey],
+    });
+  }
+
+  const requested = Array.isArray(body.items) ? (body.items as Array<Record<string, unknown>>) : [];
+  if (requested.length === 0) throw validationError({ items: 'Order must contain at least one item' });
+
+  // Check every line before touching stock so a failed order leaves the catalog unchanged
+  const lines = requested.map((entry) => {
+    const product = findProduct(db, numberOf(entry.productId));
+    const quantity = numberOf(entry.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw validationError({ items: `Invalid quantity for ${product.name}` });
+    }
+    if (quantity > product.stock) {
+      throw new MockHttpError(409, `Only ${product.stock} left in stock for ${product.name}`, {
+        code: 'INSUFFICIENT_STOCK',
+        productId: product.id,
+        available: product.stock,
+      });
+    }
+    return { product, quantity };
+  });
+
+  // The discount is worked out again from live prices; ordering at a different one than the shopper saw is refused
+  const promoCode = text(body.promoCode);
+  const applied = promoCode ? discountFor(db, promoCode, lines) : null;
+  const discounts: DiscountLine[] = applied ? [applied.discount] : [];
+  const shown = Array.isArray(body.discounts)
+    ? (body.discounts as Array<Record<string, unknown>>).reduce((sum, line) => sum + (numberOf(line.amount) || 0), 0)
+    : 0;
+  if (Math.abs(sumDiscounts(discounts) - shown) >= 0.01) {
+    throw new MockHttpError(409, 'Your discount has changed since it was applied. Please review your cart.', {
+      code: 'PROMOTION_CHANGED',
+      discounts,
+    });
+  }
+
+  // Shipping and tax come from the admin's rules at the time of ordering, checked against the total that was shown
+  const price = priceOrder(pricingOf(db), lines, discounts, readShippingAddress(body.shippingAddress));
+  const expectedTotal = body.expectedTotal === undefined || body.expectedTotal === null ? null : numberOf(body.expectedTotal);
+  if (expectedTotal !== null && Math.abs(expectedTotal - price.total) >= 0.01) {
+    throw new MockHttpError(409, 'Shipping or tax has changed since you reviewed your order. Please check the new total.', {
+      code: 'TOTAL_CHANGED',
+      total: price.total,
+    });
+  }
+
+  let itemId = db.orders.reduce((max, order) => Math.max(max, ...order.items.map((item) => item.id)), 0);
+  const items = lines.map(({ product, quantity }) => {
+    product.stock -= quantity;
+    itemId += 1;
+    return { id: itemId, productId: product.id, quantity, price: product.price };
+  });
+  const order: MockOrder = {
+    id: nextId(db.orders),
+    userId: viewer?.id ?? 0,
+    total: price.total,
+    createdAt: new Date().toISOString(),
+    status: 'PENDING',
+    items,
+    discounts,
+    shipping: price.shipping,
+    tax: price.tax,
+    shippingAddress: readShippingAddress(body.shippingAddress) ?? undefined,
+  };
+  db.orders.push(order);
+  if (applied) applied.promotion.usageCount += 1;
+  if (idempotencyKey) idempotencyKeys[idempotencyKey] = order.id;
+  return ok(toOrderResponse(db, order), 201);
+});
+
+// Account (self-service); registered before /users/:id so "me" is never read as an id
+
+const DEFAULT_NOTIFICATION_PREFERENCES = { orderUpdates: true, wishlistAlerts: false, promotions: false };
+
+const toAccountUser = (user: MockUser) => ({
+  ...toPublicUser(user),
+  emailVerified: user.emailVerified !== false,
+  mfaEnabled: !!user.mfaSecret,
+});
+
+route('GET', '/users/me', 'user', ({ viewer }) => {
+  if (!viewer) throw notFound('User');
+  return ok(toAccountUser(viewer));
+});
+
+route('PATCH', '/users/me', 'user', ({ db, body, viewer }) => {
+  if (!viewer) throw notFound('User');
+  const username = body.username === undefined ? viewer.username : text(body.username);
+  const email = body.email === undefined ? viewer.email : text(body.email);
+  const fieldErrors: Record<string, string> = {};
+  if (username.length < 3) fieldErrors.username = 'Username must be at least 3 characters';
+  if (!/^\S+@\S+\.\S+$/.test(email)) fieldErrors.email = 'Please enter a valid email address';
+  const others = db.users.filter((row) => row.id !== viewer.id);
+  if (others.some((row) => row.username.toLowerCase() === username.toLowerCase())) {
+    fieldErrors.username = 'That username is already taken';
+  }
+  if (others.some((row) => row.email.toLowerCase() === email.toLowerCase())) {
+    fieldErrors.email = 'That email is already used by another account';
+  }
+  if (Object.keys(fieldErrors).length > 0) throw validationError(fieldErrors);
+
+  const emailChanged = email.toLowerCase() !== viewer.email.toLowerCase();
+  viewer.username = username;
+  viewer.email = email;
+  if (emailChanged) {
+    // Links sent to the old address stop working
+    const verifications = (db.emailVerifications ??= {});
+    Object.entries(verifications).forEach(([token, row]) => {
+      if (row.userId === viewer.id) delete verifications[token];
+    });
+    viewer.emailVerified = false;
+    sendVerificationEmail(db, viewer);
+  }
+  return ok(toAccountUser(viewer));
+});
+
+route('POST', '/users/me/password', 'user', ({ db, body, viewer }) => {
+  if (!viewer) throw notFound('User');
+  const newPassword = typeof body.newPassword === 'string' ? body.newPassword : '';
+  if (body.currentPassword !== viewer.password) {
+    throw new MockHttpError(400, 'Your current password is not correct', {
+      code: 'INVALID_CURRENT_PASSWORD',
+      fieldErrors: { currentPassword: 'Your current password is not correct' },
+    });
+  }
+  if (newPassword.length < 8) throw validationError({ newPassword: 'Password must be at least 8 characters' });
+  if (newPassword === viewer.password) {
+    throw validationError({ newPassword: 'Choose a password you have not used here before' });
+  }
+
+  viewer.password = newPassword;
+  // Every other session is signed out; this one keeps going
+  const currentRefreshToken = readCookie(REFRESH_COOKIE);
+  Object.entries(db.refreshTokens).forEach(([refreshToken, userId]) => {
+    if (userId === viewer.id && refreshToken !== currentRefreshToken) delete db.refreshTokens[refreshToken];
+  });
+  return ok(undefined, 204);
+});
+
+route('GET', '/users/me/notifications', 'user', ({ viewer }) =>
+  ok({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...viewer?.notificationPreferences })
+);
+
+route('PUT', '/users/me/notifications', 'user', ({ body, viewer }) => {
+  if (!viewer) throw notFound('User');
+  const flag = (key: keyof typeof DEFAULT_NOTIFICATION_PREFERENCES) =>
+    typeof body[key] === 'boolean' ? (body[key] as boolean) : DEFAULT_NOTIFICATION_PREFERENCES[key];
+  viewer.notificationPreferences = {
+    orderUpdates: flag('orderUpdates'),
+    wishlistAlerts: flag('wishlistAlerts'),
+    promotions: flag('promotions'),
+  };
+  return ok(viewer.notificationPreferences);
+});
+
+route('DELETE', '/users/me', 'user', ({ db, body, viewer }) => {
+  if (!viewer) throw notFound('User');
+  if (body.password !== viewer.password) {
+    throw new MockHttpError(400, 'Your password is not correct', {
+      code: 'INVALID_CURRENT_PASSWORD',
+      fieldErrors: { password: 'Your password is not correct' },
+    });
+  }
+  const isLastAdmin =
+    viewer.role === 'ROLE_ADMIN' &&
+    !db.users.some((row) => row.id !== viewer.id && row.role === 'ROLE_ADMIN' && row.status === 'ACTIVE');
+  if (isLastAdmin) {
+    throw new MockHttpError(409, 'Make another account an admin before deleting this one', { code: 'LAST_ADMIN' });
+  }
+
+  endSession(db);
+  db.users = db.users.filter((row) => row.id !== viewer.id);
+  Object.entries(db.refreshTokens).forEach(([refreshToken, userId]) => {
+    if (userId === viewer.id) delete db.refreshTokens[refreshToken];
+  });
+  // Orders stay for the books and reviews stay on the product pages, no longer tied to the account
+  db.reviews.forEach((review) => {
+    if (review.userId === viewer.id) review.userId = null;
+  });
+  delete cartsOf(db)[String(viewer.id)];
+  return ok(undefined, 204);
+});
+
+// Users
+
+const findUser = (db: MockDatabase, id: string) => {
+  const user = db.users.find((row) => row.id === Number(id));
+  if (!user) throw notFound('User');
+  return user;
+};
+
+route('GET', '/users', 'users.read', ({ db }) => ok(db.users.map(toPublicUser)));
+
+const USER_AUDIT_FIELDS: Array<keyof ReturnType<typeof toPublicUser>> = ['username', 'email', 'role', 'status', 'permissions'];
+
+// Records a change to one user, diffing what an admin would see before and after it
+const auditUserChange = (
+  db: MockDatabase,
+  viewer: MockUser | null,
+  body: Record<string, unknown>,
+  action: string,
+  before: ReturnType<typeof toPublicUser> | null,
+  after: ReturnType<typeof toPublicUser> | null
+) => {
+  const changes = diffFields(before, after, USER_AUDIT_FIELDS);
+  const target = after ?? before;
+  if (!target || (before && after && changes.length === 0)) return;
+  auditAction(db, viewer, body, {
+    action,
+    entityType: 'user',
+    entityId: String(target.id),
+    entityLabel: target.username,
+    changes,
+  });
+};
+
+route('PATCH', '/users/:id/role', 'roles.manage', ({ db, params, body, viewer }) => {
+  const user = findUser(db, params.id);
+  const before = toPublicUser(user);
+  const role = text(body.role).toUpperCase().includes('ADMIN') ? 'ROLE_ADMIN' : 'ROLE_USER';
+  // A new role starts from its own defaults rather than carrying custom grants across
+  if (role !== user.role) delete user.permissions;
+  user.role = role;
+  auditUserChange(db, viewer, body, 'user.role', before, toPublicUser(user));
+  return ok(toPublicUser(user));
+});
+
+route('PATCH', '/users/:id/status', 'security.manage', ({ db, params, body, viewer }) => {
+  const user = findUser(db, params.id);
+  const before = toPublicUser(user);
+  const status = text(body.status).toUpperCase();
+  if (status !== 'ACTIVE' && status !== 'DISABLED' && status !== 'BANNED') {
+    throw validationError({ status: 'Unknown user status' });
+  }
+  user.status = status;
+  auditUserChange(db, viewer, body, 'user.status', before, toPublicUser(user));
+  return ok(toPublicUser(user));
+});
+
+route('PUT', '/users/:id/permissions', 'permissions.manage', ({ db, params, body, viewer }) => {
+  const user = findUser(db, params.id);
+  const before = toPublicUser(user);
+  const permissions = parsePermissions(body.permissions);
+  if (!permissions) throw validationError({ permissions: 'Permissions must be a list' });
+  if (user.id === viewer?.id && !permissions.includes('permissions.manage')) {
+    throw new MockHttpError(409, 'You cannot remove your own permission to manage permissions', { code: 'SELF_LOCKOUT' });
+  }
+  user.permissions = permissions;
+  auditUserChange(db, viewer, body, 'user.permissions', before, toPublicUser(user));
+  return ok(toPublicUser(user));
+});
+
+route('DELETE', '/users/:id', 'users.write', ({ db, params, body, viewer }) => {
+  const user = findUser(db, params.id);
+  if (user.id === viewer?.id) throw new MockHttpError(409, 'You cannot delete your own account', { code: 'SELF_DELETE' });
+  db.users = db.users.filter((row) => row.id !== user.id);
+  delete cartsOf(db)[String(user.id)];
+  auditUserChange(db, viewer, body, 'user.delete', toPublicUser(user), null);
+  return ok(undefined, 204);
+});
+
+// Impersonation
+
+const IMPERSONATION_ALLOWED_WRITES = ['/auth/logout', '/admin/impersonations/end'];
+
+// Who is behind an impersonation token, read even after it has expired so the session can still be ended
+const readImpersonatorId = () => {
+  const payload = decodeJwtPayload(readCookie(AUTH_COOKIE) ?? '');
+  const impersonatorId = Number(payload?.impersonatorId);
+  return Number.isFinite(impersonatorId) && impersonatorId > 0 ? impersonatorId : null;
+};
+
+route('POST', '/admin/impersonations', 'users.impersonate', ({ db, body, viewer }) => {
+  if (!viewer) throw notFound('User');
+  if (readImpersonatorId() !== null) {
+    throw new MockHttpError(409, 'Return to your admin session first', { code: 'ALREADY_IMPERSONATING' });
+  }
+  const user = findUser(db, String(body.userId));
+  if (user.id === viewer.id || user.role === 'ROLE_ADMIN') {
+    throw new MockHttpError(403, 'Only customer accounts can be viewed this way', { code: 'CANNOT_IMPERSONATE' });
+  }
+  if (user.status !== 'ACTIVE') {
+    throw new MockHttpError(409, 'Only active accounts can be viewed this way', { code: 'USER_NOT_ACTIVE' });
+  }
+
+  const session = issueImpersonationSession(user, viewer);
+  writeCookie(IMPERSONATOR_COOKIE, readCookie(REFRESH_COOKIE) ?? '', SESSION_COOKIE_MAX_AGE_S);
+  writeCookie(AUTH_COOKIE, session.token, SESSION_COOKIE_MAX_AGE_S);
+  writeCookie(REFRESH_COOKIE, '', 0);
+  recordAudit(db, {
+    actorId: viewer.id,
+    actorName: viewer.username,
+    action: 'impersonation.start',
+    entityType: 'user',
+    entityId: String(user.id),
+    entityLabel: user.username,
+    reason: text(body.reason) || undefined,
+  });
+  return ok(sessionFromToken(session.token, session.expiresAt, session.role));
+});
+
+route('POST', '/admin/impersonations/end', 'public', ({ db }) => {
+  const impersonatorId = readImpersonatorId();
+  const admin = db.users.find((row) => row.id === impersonatorId);
+  const viewedUserId = Number(decodeJwtPayload(readCookie(AUTH_COOKIE) ?? '')?.userId);
+  if (admin) {
+    recordAudit(db, {
+      actorId: admin.id,
+      actorName: admin.username,
+      action: 'impersonation.end',
+      entityType: 'user',
+      entityId: String(viewedUserId),
+      entityLabel: db.users.find((row) => row.id === viewedUserId)?.username,
+    });
+  }
+
+  const parkedToken = readCookie(IMPERSONATOR_COOKIE) ?? '';
+  const returning = db.users.find((row) => row.id === db.refreshTokens[parkedToken]);
+  delete db.refreshTokens[parkedToken];
+  if (!returning || returning.status !== 'ACTIVE') {
+    endSession(db);
+    throw new MockHttpError(401, 'There is no admin session to return to. Please sign in again.', { code: 'NO_IMPERSONATION' });
+  }
+  return ok(startSession(db, returning));
+});
+
+// Audit
+
+const toAuditResponse = (entry: MockAuditEntry) => ({
+  id: entry.id,
+  actor: { id: entry.actorId, username: entry.actorName },
+  action: entry.action,
+  entityType: entry.entityType,
+  entityId: entry.entityId,
+  entityLabel: entry.entityLabel ?? null,
+  changes: entry.changes ?? [],
+  reason: entry.reason ?? null,
+  createdAt: entry.createdAt,
+});
+
+route('GET', '/admin/audit', 'audit.read', ({ db, query }) => {
+  const actor = query.get('actor')?.trim().toLowerCase();
+  const entityType = query.get('entityType');
+  const from = query.get('from');
+  const to = query.get('to');
+  const rows = (db.auditLog ?? [])
+    .filter((entry) => !actor || entry.actorName.toLowerCase().includes(actor))
+    .filter((entry) => !entityType || entry.entityType === entityType)
+    .filter((entry) => !from || Date.parse(entry.createdAt) >= Date.parse(from))
+    .filter((entry) => !to || Date.parse(entry.createdAt) <= Date.parse(to))
+    .sort((a, b) => byNewest(a, b) || b.id - a.id)
+    .map(toAuditResponse);
+  return ok(applyLimit(rows, query));
+});
+
+// Transport
+
+// The session cookie stands in for the bearer header pages/api would attach
+const resolveViewer = (db: MockDatabase): MockUser | null => {
+  const token = readCookie(AUTH_COOKIE);
+  if (!token || isTokenExpired(token)) return null;
+  const userId = Number(decodeJwtPayload(token)?.userId);
+  const user = db.users.find((row) => row.id === userId);
+  return user && user.status === 'ACTIVE' ? user : null;
+};
+
+const readBody = (body: RequestInit['body']): Record<string, unknown> => {
+  if (typeof body !== 'string' || !body) return {};
+  try {
+    const parsed: unknown = JSON.parse(body);
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const wait = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    const timerId = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timerId);
+        abort();
+      },
+      { once: true }
+    );
+  });
+
+// The API base may be a path ("/api") or an absolute URL; only its path prefix matters here
+const basePath = new URL(config.apiBaseUrl, 'http://demo.local').pathname.replace(/\/$/, '');
+
+const handle = async (url: string, init: RequestInit): Promise<RouteResult> => {
+  const { pathname, searchParams } = new URL(url, 'http://demo.local');
+  const path = pathname.startsWith(basePath) ? pathname.slice(basePath.length) || '/' : pathname;
+  const method = (init.method ?? 'GET').toUpperCase();
+  const db = getDatabase();
+
+  const pathMatches = routes.filter((candidate) => candidate.pattern.test(path));
+  const match = pathMatches.find((candidate) => candidate.method === method);
+  if (!match) {
+    return pathMatches.length > 0
+      ? { status: 405, body: { message: `Method ${method} not allowed` } }
+      : { status: 404, body: { message: `No demo route for ${method} ${path}` } };
+  }
+
+  const headers = new Headers(init.headers);
+  const viewer = resolveViewer(db);
+  if (match.access !== 'public' && !viewer) {
+    return { status: 401, body: { message: 'Authentication required' } };
+  }
+  const requiredPermission = isPermissionKey(match.access) ? match.access : null;
+  if ((match.access === 'admin' || requiredPermission) && viewer?.role !== 'ROLE_ADMIN') {
+    return { status: 403, body: { message: 'You do not have permission to perform this action.' } };
+  }
+  if ((match.access === 'admin' || requiredPermission) && config.security.requireAdminMfa && !viewer?.mfaSecret) {
+    return {
+      status: 403,
+      body: { message: 'Turn on two-factor authentication to use admin tools.', code: 'MFA_REQUIRED' },
+    };
+  }
+  if (requiredPermission && viewer && !permissionsOf(viewer).includes(requiredPermission)) {
+    return {
+      status: 403,
+      body: { message: 'You do not have permission to perform this action.', code: 'PERMISSION_DENIED', permission: requiredPermission },
+    };
+  }
+
+  // Viewing as a customer is read-only: nothing can be ordered, posted or changed on their behalf
+  if (viewer && method !== 'GET' && !IMPERSONATION_ALLOWED_WRITES.includes(path) && readImpersonatorId() !== null) {
+    return {
+      status: 403,
+      body: { message: 'This is not available while viewing as a customer.', code: 'IMPERSONATION_READ_ONLY' },
+    };
+  }
+
+  const values = match.pattern.exec(path)?.slice(1) ?? [];
+  const params = Object.fromEntries(match.keys.map((key, index) => [key, decodeURIComponent(values[index])]));
+
+  try {
+    const result = await match.handler({ db, params, query: searchParams, body: readBody(init.body), headers, viewer });
+    if (method !== 'GET') saveDatabase();
+    return result;
+  } catch (error) {
+    if (error instanceof MockHttpError) return { status: error.status, body: error.body };
+    throw error;
+  }
+};
+
+export const createMockTransport = (): ApiTransport => async (url, init) => {
+  await wait(SIMULATED_LATENCY_MS, init.signal);
+  const { status, body } = await handle(url, init);
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log(`[Demo API] ${init.method ?? 'GET'} ${url} -> ${status}`);
+  }
+
+  return new Response(status === 204 || body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
@@ -1,39 +1,63 @@
 import type { Order } from '../types/order';
 import type { OrderRequest } from '../types/api';
-import { apiFetch } from './api';
+import { apiFetch, type ApiRequestOptions } from './api';
+import { ApiError } from './apiError';
+import { orderSchema, parseResponse, parseResponseList } from '../lib/apiSchemas';
+
+const toOrder = (data: unknown): Order => parseResponse(orderSchema, data, 'order');
+const toOrders = (data: unknown): Order[] => parseResponseList(orderSchema, data, 'order');
 
 /**
  * Get all orders for the current user
  */
-export const listOrders = () => apiFetch<Order[]>('/orders');
+export const listOrders = (options?: ApiRequestOptions) => apiFetch<unknown>('/orders', options).then(toOrders);
 
 /**
  * Get all orders (admin scope)
  */
-export const listAllOrders = () => apiFetch<Order[]>('/orders/all');
+export const listAllOrders = (options?: ApiRequestOptions) => apiFetch<unknown>('/orders/all', options).then(toOrders);
 
 /**
  * Get a specific order by ID
  */
-export const getOrder = (id: number) => apiFetch<Order>(`/orders/${id}`);
+export const getOrder = (id: number, options?: ApiRequestOptions) =>
+  apiFetch<unknown>(`/orders/${id}`, options).then(toOrder);
+
+export interface CreateOrderOptions extends ApiRequestOptions {
+  // Lets the server recognise a resent order; also makes the POST safe for apiFetch to retry
+  idempotencyKey?: string;
+}
 
 /**
  * Create a new order from cart items
  */
-export const createOrder = (payload: OrderRequest) =>
-  apiFetch<Order>('/orders', {
+export const createOrder = (payload: OrderRequest, options: CreateOrderOptions = {}) => {
+  const { idempotencyKey, ...requestOptions } = options;
+  return apiFetch<unknown>('/orders', {
+    ...requestOptions,
     method: 'POST',
+    headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
     body: JSON.stringify(payload),
-  });
+  }).then(toOrder);
+};
+
+/**
+ * Id of the order that already exists when the server rejects a resent idempotency key, otherwise null
+ */
+export const getDuplicateOrderId = (error: unknown): number | null => {
+  if (!(error instanceof ApiError) || error.code !== 'DUPLICATE_REQUEST') return null;
+  const orderId = Number(error.data?.orderId);
+  return Number.isFinite(orderId) && orderId > 0 ? orderId : null;
+};
 
 /**
  * Get recent orders (limited)
  */
-export const getRecentOrders = (limit = 5) =>
-  apiFetch<Order[]>(`/orders?limit=${limit}`);
+export const getRecentOrders = (limit = 5, options?: ApiRequestOptions) =>
+  apiFetch<unknown>(`/orders?limit=${limit}`, options).then(toOrders);
 
 /**
  * Get recent orders across all users (admin scope)
  */
-export const getRecentOrdersAll = (limit = 5) =>
-  apiFetch<Order[]>(`/orders/all?limit=${limit}`);
+export const getRecentOrdersAll = (limit = 5, options?: ApiRequestOptions) =>
+  apiFetch<unknown>(`/orders/all?limit=${limit}`, options).then(toOrders);
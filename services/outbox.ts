@@ -0,0 +1,202 @@
+import type { CartRequest, OrderRequest } from '../types/api';
+import type { Order } from '../types/order';
+import type { CartItem, Product } from '../types/product';
+import type { Review } from '../types/review';
+import { getStoredSession } from '../utils/auth';
+import { ApiError, getErrorMessage, isApiError } from './apiError';
+import { mergeCart, saveCart } from './cart';
+import { createOrder, getDuplicateOrderId } from './orders';
+import { updateProduct, type SaveProductPayload } from './products';
+import { createProductReview, type CreateReviewPayload } from './reviews';
+
+/**
+ * Offline outbox
+ * Mutations that fail because the connection dropped are persisted here and replayed in order once the browser is back online.
+ */
+
+const OUTBOX_KEY = 'offline_outbox';
+
+export type OutboxMutation =
+  | { kind: 'createOrder'; payload: OrderRequest; idempotencyKey?: string }
+  | { kind: 'createReview'; productId: number; payload: CreateReviewPayload }
+  | { kind: 'updateProduct'; productId: number; payload: SaveProductPayload }
+  // `merge` adds the lines to the account cart instead of replacing it
+  | { kind: 'saveCart'; payload: CartRequest; merge?: boolean };
+
+export type OutboxEntry = OutboxMutation & {
+  id: string;
+  createdAt: string;
+  // The account that made the change; it is only ever replayed for that account
+  ownerId: number | null;
+};
+
+// Why the server turned a queued order down in a way the shopper can fix from the cart
+export type OutboxOrderConflictReason = 'stock' | 'promotion' | 'total';
+
+export interface OutboxOrderConflict {
+  entry: Extract<OutboxEntry, { kind: 'createOrder' }>;
+  reason: OutboxOrderConflictReason;
+  message: string;
+}
+
+export interface OutboxReplayResult {
+  sent: OutboxEntry[];
+  conflicts: OutboxOrderConflict[];
+  failed: Array<{ entry: OutboxEntry; message: string }>;
+  // Entries left in the outbox because the connection dropped again or the session ended
+  remaining: number;
+}
+
+const readOutbox = (): OutboxEntry[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+  try {
+    const value = localStorage.getItem(OUTBOX_KEY);
+    return value ? (JSON.parse(value) as OutboxEntry[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeOutbox = (entries: OutboxEntry[]) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  } catch {
+    // storage full or disabled; the mutation is lost but the UI has already told the user it failed
+  }
+  window.dispatchEvent(new Event('outboxUpdated'));
+};
+
+const createEntryId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getOutboxEntries = () => readOutbox();
+
+export const removeOutboxEntry = (id: string) => writeOutbox(readOutbox().filter((entry) => entry.id !== id));
+
+/**
+ * Drop every queued mutation, e.g. on sign-out so the next account on this browser never sends them
+ */
+export const clearOutbox = () => {
+  if (readOutbox().length > 0) writeOutbox([]);
+};
+
+/**
+ * True when the request never reached the server, as opposed to the server rejecting it
+ */
+export const isOfflineError = (error: unknown) => {
+  if (!(error instanceof ApiError)) return false;
+  if (error.kind === 'network') return true;
+  return error.kind === 'timeout' && typeof navigator !== 'undefined' && !navigator.onLine;
+};
+
+export const enqueueMutation = (mutation: OutboxMutation): OutboxEntry => {
+  const entry = {
+    ...mutation,
+    id: createEntryId(),
+    createdAt: new Date().toISOString(),
+    ownerId: getStoredSession()?.user.id ?? null,
+  } as OutboxEntry;
+  // A later product edit supersedes one that has not been sent yet, and a whole-cart save every cart change before it
+  const entries = readOutbox().filter(
+    (existing) =>
+      !(mutation.kind === 'updateProduct' && existing.kind === 'updateProduct' && existing.productId === mutation.productId) &&
+      !(mutation.kind === 'saveCart' && !mutation.merge && existing.kind === 'saveCart')
+  );
+  writeOutbox([...entries, entry]);
+  return entry;
+};
+
+/**
+ * Queue the mutation when `error` means the device is offline.
+ * Returns true when it was queued so the caller can report the pending state instead of an error.
+ */
+export const queueIfOffline = (error: unknown, mutation: OutboxMutation) => {
+  if (!isOfflineError(error)) return false;
+  enqueueMutation(mutation);
+  return true;
+};
+
+const sendEntry = (entry: OutboxEntry): Promise<Order | Review | Product | CartItem[]> => {
+  switch (entry.kind) {
+    case 'createOrder':
+      return createOrder(entry.payload, { idempotencyKey: entry.idempotencyKey });
+    case 'createReview':
+      return createProductReview(entry.productId, entry.payload);
+    case 'updateProduct':
+      return updateProduct(entry.productId, entry.payload);
+    case 'saveCart':
+      return entry.merge ? mergeCart(entry.payload) : saveCart(entry.payload);
+  }
+};
+
+// Stock or the promo code moved while the order sat in the outbox; other 409s are not the cart's to fix
+const ORDER_CONFLICT_REASONS: Partial<Record<string, OutboxOrderConflictReason>> = {
+  INSUFFICIENT_STOCK: 'stock',
+  PROMOTION_CHANGED: 'promotion',
+  TOTAL_CHANGED: 'total',
+};
+
+const orderConflictReason = (entry: OutboxEntry, error: unknown) =>
+  entry.kind === 'createOrder' && error instanceof ApiError && error.code !== undefined
+    ? ORDER_CONFLICT_REASONS[error.code] ?? null
+    : null;
+
+// Shared by every caller while a replay is running, so entries are never sent twice from the same tab
+let replayInFlight: Promise<OutboxReplayResult> | null = null;
+
+const drainOutbox = async (userId: number): Promise<OutboxReplayResult> => {
+  const result: OutboxReplayResult = { sent: [], conflicts: [], failed: [], remaining: 0 };
+
+  for (const entry of readOutbox()) {
+    // Another tab may have sent or discarded it since the replay started
+    if (!readOutbox().some((stored) => stored.id === entry.id)) continue;
+
+    // Queued by another account (or before entries had owners): sending it now would act as the wrong user
+    if (entry.ownerId !== userId) {
+      removeOutboxEntry(entry.id);
+      continue;
+    }
+
+    try {
+      await sendEntry(entry);
+      removeOutboxEntry(entry.id);
+      result.sent.push(entry);
+    } catch (error) {
+      // Still offline, or the session ended and the user is on the way to /login: keep the rest in order
+      if (isOfflineError(error) || (isApiError(error) && error.status === 401)) {
+        break;
+      }
+
+      removeOutboxEntry(entry.id);
+      const conflictReason = orderConflictReason(entry, error);
+      if (getDuplicateOrderId(error) !== null) {
+        // The order went through before the connection dropped
+        result.sent.push(entry);
+      } else if (entry.kind === 'createOrder' && conflictReason) {
+        result.conflicts.push({ entry, reason: conflictReason, message: getErrorMessage(error) });
+      } else {
+        result.failed.push({ entry, message: getErrorMessage(error) });
+      }
+    }
+  }
+
+  result.remaining = readOutbox().length;
+  return result;
+};
+
+/**
+ * Send every mutation `userId` queued, in the order it was made, and discard those of other accounts.
+ * Stops at the first connection failure so later mutations never overtake earlier ones.
+ */
+export const replayOutbox = (userId: number): Promise<OutboxReplayResult> => {
+  if (!replayInFlight) {
+    replayInFlight = drainOutbox(userId).finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+};
@@ -0,0 +1,20 @@
+import type { PricingRules } from '../types/pricing';
+import { apiFetch, type ApiRequestOptions } from './api';
+import { parseResponse, pricingRulesSchema } from '../lib/apiSchemas';
+
+/**
+ * Tax and shipping rules; utils/pricing turns them into an order total
+ */
+
+const toPricingRules = (data: unknown): PricingRules => parseResponse(pricingRulesSchema, data, 'pricing rules');
+
+export const getPricingRules = (options?: ApiRequestOptions) => apiFetch<unknown>('/pricing', options).then(toPricingRules);
+
+/**
+ * Replace the rules; orders placed after this are priced with the new ones
+ */
+export const updatePricingRules = (payload: Omit<PricingRules, 'updatedAt'>) =>
+  apiFetch<unknown>('/admin/pricing', {
+    method: 'PUT',
+    body: JSON.stringify(payload),
+  }).then(toPricingRules);
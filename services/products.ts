@@ -1,5 +1,6 @@
-import type { Product } from '../types/product';
-import { apiFetch } from './api';
+import type { Product, ProductPage, ProductQuery, ProductSort } from '../types/product';
+import { apiFetch, type ApiRequestOptions } from './api';
+import { parseResponse, parseResponseList, productPageSchema, productSchema } from '../lib/apiSchemas';
 
 export interface SaveProductPayload {
   name: string;
@@ -10,25 +11,77 @@ export interface SaveProductPayload {
   stock: number;
   imageUrl?: string | null;
   categories: string;
+  weight?: number | null;
 }
 
-export const listProducts = () => apiFetch<Product[]>('/products');
+const toProduct = (data: unknown): Product => parseResponse(productSchema, data, 'product');
 
-export const getProduct = (id: number) => apiFetch<Product>(`/products/${id}`);
+export const DEFAULT_PAGE_SIZE = 12;
 
-export const deleteProduct = (id: number) =>
+const SORT_PARAMS: Record<Exclude<ProductSort, 'relevance'>, string> = {
+  price_asc: 'price,asc',
+  price_desc: 'price,desc',
+  stock_desc: 'stock,desc',
+  newest: 'id,desc',
+};
+
+// The backend pages from 0 (Spring Pageable); ProductQuery counts from 1 like the UI
+const toSearchParams = (query: ProductQuery) => {
+  const params = new URLSearchParams();
+  params.set('page', String(Math.max(0, (query.page ?? 1) - 1)));
+  params.set('size', String(query.size ?? DEFAULT_PAGE_SIZE));
+  if (query.sort && query.sort !== 'relevance') params.set('sort', SORT_PARAMS[query.sort]);
+  if (query.q?.trim()) params.set('q', query.q.trim());
+  if (query.category) params.set('category', query.category);
+  query.tags?.forEach((tag) => params.append('tag', tag));
+  if (typeof query.minPrice === 'number') params.set('minPrice', String(query.minPrice));
+  if (typeof query.maxPrice === 'number') params.set('maxPrice', String(query.maxPrice));
+  if (query.inStock) params.set('inStock', 'true');
+  if (typeof query.minStock === 'number') params.set('minStock', String(query.minStock));
+  if (typeof query.maxStock === 'number') params.set('maxStock', String(query.maxStock));
+  return params;
+};
+
+/**
+ * One page of the catalog, filtered and sorted by the server
+ */
+export const listProducts = (query: ProductQuery = {}, options?: ApiRequestOptions): Promise<ProductPage> =>
+  apiFetch<unknown>(`/products?${toSearchParams(query)}`, options).then((data) => {
+    const page = parseResponse(productPageSchema, data, 'product page');
+    return {
+      items: parseResponseList(productSchema, page.content, 'product'),
+      total: page.total,
+      page: page.page,
+      size: page.size,
+      facets: page.facets,
+    };
+  });
+
+/**
+ * The whole catalog in one response. Only for views that genuinely need every product;
+ * lists and search should page through listProducts instead.
+ */
+export const listAllProducts = (options?: ApiRequestOptions) =>
+  apiFetch<unknown>('/products', options).then((data) => parseResponseList(productSchema, data, 'product'));
+
+export const getProduct = (id: number, options?: ApiRequestOptions) =>
+  apiFetch<unknown>(`/products/${id}`, options).then(toProduct);
+
+// `reason` is optional and only kept in the audit log
+export const deleteProduct = (id: number, reason?: string) =>
   apiFetch<void>(`/products/${id}`, {
     method: 'DELETE',
+    ...(reason ? { body: JSON.stringify({ reason }) } : {}),
   });
 
-export const updateProduct = (id: number, payload: SaveProductPayload) =>
-  apiFetch<Product>(`/products/${id}`, {
+export const updateProduct = (id: number, payload: SaveProductPayload, reason?: string) =>
+  apiFetch<unknown>(`/products/${id}`, {
     method: 'PUT',
-    body: JSON.stringify(payload),
-  });
+    body: JSON.stringify(reason ? { ...payload, reason } : payload),
+  }).then(toProduct);
 
 export const createProduct = (payload: SaveProductPayload) =>
-  apiFetch<Product>('/products', {
+  apiFetch<unknown>('/products', {
     method: 'POST',
     body: JSON.stringify(payload),
-  });
+  }).then(toProduct);
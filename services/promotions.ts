@@ -0,0 +1,41 @@
+import type { PromotionCheckRequest } from '../types/api';
+import type { Promotion, PromotionRequest, PromotionRules } from '../types/promotion';
+import { apiFetch, type ApiRequestOptions } from './api';
+import { parseResponse, parseResponseList, promotionRulesSchema, promotionSchema } from '../lib/apiSchemas';
+
+const toPromotion = (data: unknown): Promotion => parseResponse(promotionSchema, data, 'promotion');
+
+/**
+ * Look up a promo code for the cart in `payload`.
+ * Resolves with the rules so the cart can keep the discount current as it changes;
+ * rejects with the reason when the code is unknown, used up or does not fit the cart.
+ */
+export const checkPromoCode = (payload: PromotionCheckRequest, options?: ApiRequestOptions) =>
+  apiFetch<unknown>('/promotions/check', {
+    ...options,
+    method: 'POST',
+    body: JSON.stringify(payload),
+  }).then((data): PromotionRules => parseResponse(promotionRulesSchema, data, 'promotion'));
+
+export const listPromotions = (options?: ApiRequestOptions) =>
+  apiFetch<unknown>('/admin/promotions', options).then((data) => parseResponseList(promotionSchema, data, 'promotion'));
+
+export const createPromotion = (payload: PromotionRequest) =>
+  apiFetch<unknown>('/admin/promotions', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  }).then(toPromotion);
+
+export const updatePromotion = (id: number, payload: PromotionRequest) =>
+  apiFetch<unknown>(`/admin/promotions/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(payload),
+  }).then(toPromotion);
+
+/**
+ * Remove a promotion; orders that already used it keep their discount
+ */
+export const deletePromotion = (id: number) =>
+  apiFetch<void>(`/admin/promotions/${id}`, {
+    method: 'DELETE',
+  });
@@ -1,5 +1,12 @@
-import { apiFetch } from './api';
+import { apiFetch, type ApiRequestOptions } from './api';
 import type { Review } from '../types/review';
+import {
+  adminReviewSchema,
+  parseResponse,
+  parseResponseList,
+  reviewSchema,
+  reviewSummarySchema,
+} from '../lib/apiSchemas';
 
 export type ReviewSort = 'newest' | 'highest' | 'lowest';
 export type ReviewStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'HIDDEN';
@@ -18,48 +25,56 @@ export interface CreateReviewPayload {
   reviewerName?: string | null;
 }
 
-export const listProductReviews = (productId: number) =>
-  apiFetch<Review[]>(`/products/${productId}/reviews`);
+export const listProductReviews = (productId: number, options?: ApiRequestOptions) =>
+  apiFetch<unknown>(`/products/${productId}/reviews`, options).then((data) =>
+    parseResponseList(reviewSchema, data, 'review')
+  );
 
-export const getProductReviewSummary = (productId: number) =>
-  apiFetch<{ productId: number; averageRating: number; reviewCount: number; count1: number; count2: number; count3: number; count4: number; count5: number }>(
-    `/products/${productId}/reviews/summary`
-  ).then((raw) => ({
-    productId: raw.productId,
-    averageRating: raw.averageRating,
-    reviewCount: raw.reviewCount,
-    countsByRating: {
-      1: raw.count1,
-      2: raw.count2,
-      3: raw.count3,
-      4: raw.count4,
-      5: raw.count5,
-    },
-  }));
+export const getProductReviewSummary = (productId: number, options?: ApiRequestOptions) =>
+  apiFetch<unknown>(`/products/${productId}/reviews/summary`, options).then((data): ReviewSummary => {
+    const raw = parseResponse(reviewSummarySchema, data, 'review summary');
+    return {
+      productId: raw.productId,
+      averageRating: raw.averageRating,
+      reviewCount: raw.reviewCount,
+      countsByRating: {
+        1: raw.count1,
+        2: raw.count2,
+        3: raw.count3,
+        4: raw.count4,
+        5: raw.count5,
+      },
+    };
+  });
 
 export const createProductReview = (productId: number, payload: CreateReviewPayload) =>
-  apiFetch<Review>(`/products/${productId}/reviews`, {
+  apiFetch<unknown>(`/products/${productId}/reviews`, {
     method: 'POST',
     body: JSON.stringify(payload),
-  });
+  }).then((data) => parseResponse(reviewSchema, data, 'review'));
 
 export interface AdminReview extends Review {
   status: ReviewStatus;
   helpfulCount: number;
 }
 
-export const listAdminReviews = (filters?: { status?: ReviewStatus; productId?: number; rating?: number }) => {
+export const listAdminReviews = (
+  filters?: { status?: ReviewStatus; productId?: number; rating?: number },
+  options?: ApiRequestOptions
+) => {
   const params = new URLSearchParams();
   if (filters?.status) params.set('status', filters.status);
   if (typeof filters?.productId === 'number') params.set('productId', String(filters.productId));
   if (typeof filters?.rating === 'number') params.set('rating', String(filters.rating));
   const qs = params.toString();
-  return apiFetch<AdminReview[]>(`/admin/reviews${qs ? `?${qs}` : ''}`);
+  return apiFetch<unknown>(`/admin/reviews${qs ? `?${qs}` : ''}`, options).then(
+    (data): AdminReview[] => parseResponseList(adminReviewSchema, data, 'admin review')
+  );
 };
 
 export const moderateReview = (reviewId: number | string, payload: { status: ReviewStatus; reason?: string | null }) =>
-  apiFetch<AdminReview>(`/admin/reviews/${reviewId}`, {
+  apiFetch<unknown>(`/admin/reviews/${reviewId}`, {
     method: 'PATCH',
     body: JSON.stringify({ status: payload.status, reason: payload.reason ?? null }),
-  });
+  }).then((data): AdminReview => parseResponse(adminReviewSchema, data, 'admin review'));
 
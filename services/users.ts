@@ -1,59 +1,96 @@
-import type { User } from '../types/user';
-import { apiFetch } from './api';
-
-interface ApiUser {
-  id: number;
-  username: string;
-  email: string;
-  role: string;
-  status?: string;
-}
-
-const normalizeRole = (role: string): User['role'] =>
-  role.replace(/^ROLE_/i, '').toUpperCase() === 'ADMIN' ? 'ADMIN' : 'USER';
-const normalizeStatus = (status?: string): User['status'] => {
-  const normalized = (status ?? 'ACTIVE').trim().toUpperCase();
-  if (normalized === 'DISABLED' || normalized === 'BANNED') return normalized;
-  return 'ACTIVE';
-};
+import type { ChangePasswordRequest, DeleteAccountRequest, UpdateProfileRequest } from '../types/api';
+import type { NotificationPreferences, PermissionKey, User } from '../types/user';
+import { apiFetch, type ApiRequestOptions } from './api';
+import { refreshAccessToken } from './apiMiddleware';
+import { notificationPreferencesSchema, parseResponse, parseResponseList, userSchema } from '../lib/apiSchemas';
+
 const toApiRole = (role: User['role']) => (role === 'ADMIN' ? 'ROLE_ADMIN' : 'ROLE_USER');
+const toUser = (data: unknown): User => parseResponse(userSchema, data, 'user');
 
-export const listUsers = async (): Promise<User[]> => {
-  const users = await apiFetch<ApiUser[]>('/users');
-  return users.map((user) => ({
-    ...user,
-    role: normalizeRole(user.role),
-    status: normalizeStatus(user.status),
-  }));
+export const listUsers = async (options?: ApiRequestOptions): Promise<User[]> => {
+  const users = await apiFetch<unknown>('/users', options);
+  return parseResponseList(userSchema, users, 'user');
 };
 
-export const updateUserRole = async (id: number, role: User['role']): Promise<User> => {
-  const user = await apiFetch<ApiUser>(`/users/${id}/role`, {
+// `reason` is optional on the admin changes below and only kept in the audit log
+export const updateUserRole = async (id: number, role: User['role'], reason?: string): Promise<User> => {
+  const user = await apiFetch<unknown>(`/users/${id}/role`, {
     method: 'PATCH',
-    body: JSON.stringify({ role: toApiRole(role) }),
+    body: JSON.stringify({ role: toApiRole(role), reason }),
   });
 
-  return {
-    ...user,
-    role: normalizeRole(user.role),
-    status: normalizeStatus(user.status),
-  };
+  return toUser(user);
 };
 
-export const updateUserStatus = async (id: number, status: User['status']): Promise<User> => {
-  const user = await apiFetch<ApiUser>(`/users/${id}/status`, {
+export const updateUserStatus = async (id: number, status: User['status'], reason?: string): Promise<User> => {
+  const user = await apiFetch<unknown>(`/users/${id}/status`, {
     method: 'PATCH',
-    body: JSON.stringify({ status }),
+    body: JSON.stringify({ status, reason }),
+  });
+
+  return toUser(user);
+};
+
+export const updateUserPermissions = async (id: number, permissions: PermissionKey[]): Promise<User> => {
+  const user = await apiFetch<unknown>(`/users/${id}/permissions`, {
+    method: 'PUT',
+    body: JSON.stringify({ permissions }),
   });
 
-  return {
-    ...user,
-    role: normalizeRole(user.role),
-    status: normalizeStatus(user.status),
-  };
+  return toUser(user);
 };
 
 export const deleteUser = (id: number) =>
   apiFetch<void>(`/users/${id}`, {
     method: 'DELETE',
   });
+
+/**
+ * Self-service endpoints for the signed-in account
+ */
+
+/**
+ * Change the username and/or email. A new email is unverified until its link is opened,
+ * so the session is renewed to carry the new claims.
+ */
+export const updateMyProfile = async (payload: UpdateProfileRequest): Promise<User> => {
+  const user = await apiFetch<unknown>('/users/me', {
+    method: 'PATCH',
+    body: JSON.stringify(payload),
+  });
+  await refreshAccessToken();
+  return toUser(user);
+};
+
+/**
+ * Rejects with a 400 field error on currentPassword when it does not match
+ */
+export const changeMyPassword = (payload: ChangePasswordRequest) =>
+  apiFetch<void>('/users/me/password', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+
+export const getMyNotificationPreferences = async (options?: ApiRequestOptions): Promise<NotificationPreferences> => {
+  const preferences = await apiFetch<unknown>('/users/me/notifications', options);
+  return parseResponse(notificationPreferencesSchema, preferences, 'notification preferences');
+};
+
+export const updateMyNotificationPreferences = async (
+  preferences: NotificationPreferences
+): Promise<NotificationPreferences> => {
+  const saved = await apiFetch<unknown>('/users/me/notifications', {
+    method: 'PUT',
+    body: JSON.stringify(preferences),
+  });
+  return parseResponse(notificationPreferencesSchema, saved, 'notification preferences');
+};
+
+/**
+ * Permanently delete the signed-in account; the caller signs out afterwards
+ */
+export const deleteMyAccount = (payload: DeleteAccountRequest) =>
+  apiFetch<void>('/users/me', {
+    method: 'DELETE',
+    body: JSON.stringify(payload),
+  });
@@ -1,3 +1,7 @@
+import type { ShippingAddress } from './pricing';
+import type { DiscountLine } from './promotion';
+import type { User } from './user';
+
 export interface LoginRequest {
   username: string;
   password: string;
@@ -14,6 +18,73 @@ export interface LoginResponse {
   expiresAt: string;
   tokenType: 'Bearer';
   role?: string;
+  refreshToken?: string;
+}
+
+/**
+ * Returned by /auth/login instead of a LoginResponse when the account has two-factor turned on.
+ * The token only proves the password step and is exchanged at /auth/mfa/verify together with a code.
+ */
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+export interface MfaVerifyRequest {
+  mfaToken: string;
+  // 6-digit TOTP or one of the recovery codes
+  code: string;
+}
+
+export interface MfaEnrollment {
+  // Base32, for typing into an authenticator app by hand
+  secret: string;
+  otpauthUri: string;
+  // Backends that render the QR themselves send it as a data: URI
+  qrCodeDataUri?: string;
+  recoveryCodes: string[];
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface PasswordResetRequest {
+  email: string;
+}
+
+export interface PasswordResetConfirmRequest {
+  token: string;
+  newPassword: string;
+}
+
+// Self-service account changes; only the fields being changed are sent
+export interface UpdateProfileRequest {
+  username?: string;
+  email?: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ImpersonationRequest {
+  userId: number;
+  // Kept with the audit entry, e.g. the support ticket being looked into
+  reason?: string;
+}
+
+export interface DeleteAccountRequest {
+  password: string;
+}
+
+/**
+ * What the pages/api session routes return; the tokens themselves stay in httpOnly cookies
+ */
+export interface SessionResponse {
+  user: User;
+  expiresAt: string;
 }
 
 export interface OrderRequestItem {
@@ -23,4 +94,26 @@ export interface OrderRequestItem {
 
 export interface OrderRequest {
   items: OrderRequestItem[];
+  promoCode?: string;
+  // What the shopper was shown; the server recomputes them and refuses the order if they no longer match
+  discounts?: DiscountLine[];
+  // Sets the tax region; without it the default rate applies
+  shippingAddress?: ShippingAddress;
+  // The total the shopper agreed to; the order is refused with TOTAL_CHANGED if the server arrives at another
+  expectedTotal?: number;
+}
+
+/**
+ * Checks a promo code against cart lines before it is applied
+ */
+export interface PromotionCheckRequest {
+  code: string;
+  items: OrderRequestItem[];
+}
+
+/**
+ * Lines for the signed-in account's cart; the server drops unknown products and caps quantities at stock
+ */
+export interface CartRequest {
+  items: OrderRequestItem[];
 }
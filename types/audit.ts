@@ -0,0 +1,31 @@
+export type AuditEntityType = 'product' | 'user' | 'review' | 'promotion' | 'pricing';
+
+// One field an action changed; a value is null when the field did not exist before or after
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: number;
+  actor: { id: number; username: string };
+  // Dotted verb such as 'product.delete' or 'user.role'
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  // Name of the target when it was recorded, so deleted records stay readable
+  entityLabel: string | null;
+  changes: AuditChange[];
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface AuditQuery {
+  // Matches part of the actor's username
+  actor?: string;
+  entityType?: AuditEntityType;
+  // ISO timestamps, both inclusive
+  from?: string;
+  to?: string;
+}
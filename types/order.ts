@@ -1,4 +1,5 @@
 import type { Product } from './product';
+import type { DiscountLine } from './promotion';
 import type { User } from './user';
 
 export interface OrderItem {
@@ -14,12 +15,14 @@ export interface Order {
   total: number;
   createdAt: string;
   items: OrderItem[];
+  // Already taken off `total`
+  discounts: DiscountLine[];
+  // Already included in `total`
+  shipping: number;
+  tax: number;
   user?: User;
   status?: 'PENDING' | 'PAID' | 'SHIPPED' | 'COMPLETED' | 'CANCELLED';
+  // Normalized from the backend's username/email variants, see lib/apiSchemas
   customerName?: string;
   customerEmail?: string;
-  username?: string;
-  user_email?: string;
-  userEmail?: string;
-  useremail?: string;
 }
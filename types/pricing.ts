@@ -0,0 +1,68 @@
+import type { DiscountLine } from './promotion';
+
+export type ShippingBasis = 'SUBTOTAL' | 'WEIGHT';
+
+/**
+ * Tax charged where an order ships. Within a country the rate with the longest matching postal prefix wins;
+ * a rate without a prefix covers the rest of the country.
+ */
+export interface TaxRate {
+  // ISO 3166-1 alpha-2, e.g. "US"
+  country: string;
+  postalPrefix: string | null;
+  // Percent of the discounted subtotal
+  rate: number;
+  label: string;
+}
+
+/**
+ * One band of the shipping table, measured in order subtotal or kilograms depending on the basis.
+ * The first band whose `upTo` covers the order sets the price; null means "and above".
+ */
+export interface ShippingRate {
+  upTo: number | null;
+  amount: number;
+}
+
+// Shipping is free once the discounted subtotal reaches `minSubtotal`; no countries means everywhere
+export interface FreeShippingRule {
+  minSubtotal: number;
+  countries: string[];
+}
+
+export interface PricingRules {
+  // Percent used before an address is entered and where no rate covers it
+  defaultTaxRate: number;
+  taxRates: TaxRate[];
+  shippingBasis: ShippingBasis;
+  shippingRates: ShippingRate[];
+  // Kilograms per unit for products that have no weight of their own
+  defaultItemWeight: number;
+  freeShipping: FreeShippingRule[];
+  updatedAt: string | null;
+}
+
+export interface ShippingAddress {
+  country: string;
+  postalCode: string;
+}
+
+/**
+ * Every line of an order's price, from the cart subtotal down to what is charged
+ */
+export interface PriceBreakdown {
+  subtotal: number;
+  discounts: DiscountLine[];
+  discountTotal: number;
+  shipping: number;
+  // Why shipping costs nothing, when it does not
+  freeShippingReason: string | null;
+  // Lowest free-shipping threshold open to this address, for "spend X more" hints
+  freeShippingThreshold: number | null;
+  taxRate: number;
+  taxLabel: string;
+  tax: number;
+  total: number;
+  // True while no address has been given and the default tax rate stands in
+  estimated: boolean;
+}
@@ -8,8 +8,57 @@ export interface Product {
   stock: number;
   imageUrl?: string | null;
   categories?: string | null;
+  // Kilograms; shipping falls back to the default item weight when it is missing
+  weight?: number | null;
 }
 export interface CartItem {
   product: Product;
   quantity: number;
 }
+
+// How one cart line moved when it was checked against the live catalog; `product` is the current data
+export type CartChange =
+  | { kind: 'price'; product: Product; previousPrice: number }
+  | { kind: 'quantity'; product: Product; previousQuantity: number; quantity: number }
+  | { kind: 'unavailable'; product: Product };
+
+export type ProductSort = 'relevance' | 'price_asc' | 'price_desc' | 'stock_desc' | 'newest';
+
+/**
+ * Catalog query sent to GET /products. Every field is optional; pages count from 1.
+ */
+export interface ProductQuery {
+  page?: number;
+  size?: number;
+  sort?: ProductSort;
+  q?: string;
+  category?: string;
+  // Matches products carrying any of these tags
+  tags?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  minStock?: number;
+  maxStock?: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ProductFacets {
+  categories: FacetCount[];
+  tags: FacetCount[];
+  priceRange: { min: number; max: number } | null;
+  inStock: number;
+  outOfStock: number;
+}
+
+export interface ProductPage {
+  items: Product[];
+  total: number;
+  page: number;
+  size: number;
+  facets: ProductFacets;
+}
@@ -0,0 +1,46 @@
+export type PromotionType = 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_SHIPPING' | 'BUY_X_GET_Y';
+
+/**
+ * The rules behind a promo code, as the cart needs them to work out the discount.
+ * Empty `productIds` and `categories` mean the whole catalog qualifies.
+ */
+export interface PromotionRules {
+  code: string;
+  description: string | null;
+  type: PromotionType;
+  // Percent off for PERCENTAGE, currency amount off for FIXED_AMOUNT, unused otherwise
+  value: number;
+  // BUY_X_GET_Y: every `buyQuantity` qualifying units earn `getQuantity` more free, cheapest first
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  // Compared with the cart subtotal before any discount
+  minSpend: number | null;
+  productIds: number[];
+  categories: string[];
+  startsAt: string | null;
+  expiresAt: string | null;
+}
+
+/**
+ * A promotion as admins manage it, with its usage counted across every order
+ */
+export interface Promotion extends PromotionRules {
+  id: number;
+  active: boolean;
+  // Orders allowed to use the code in total; null for no limit
+  usageLimit: number | null;
+  usageCount: number;
+  createdAt: string;
+}
+
+export type PromotionRequest = Omit<Promotion, 'id' | 'usageCount' | 'createdAt'>;
+
+/**
+ * One discount applied to an order; free shipping carries no amount of its own and zeroes the shipping line
+ */
+export interface DiscountLine {
+  code: string;
+  label: string;
+  amount: number;
+  freeShipping: boolean;
+}
@@ -2,6 +2,29 @@ import type { Order } from './order';
 
 export type UserRole = 'USER' | 'ADMIN';
 export type UserStatus = 'ACTIVE' | 'DISABLED' | 'BANNED';
+export type PermissionKey =
+  | 'users.read'
+  | 'users.write'
+  | 'roles.manage'
+  | 'permissions.manage'
+  | 'passwords.reset'
+  | 'activity.view'
+  | 'billing.view'
+  | 'security.manage'
+  | 'catalog.write'
+  | 'orders.read'
+  | 'reviews.moderate'
+  | 'users.impersonate'
+  | 'audit.read'
+  | 'promotions.manage'
+  | 'pricing.manage';
+
+// Which emails the account wants besides the ones every order needs
+export interface NotificationPreferences {
+  orderUpdates: boolean;
+  wishlistAlerts: boolean;
+  promotions: boolean;
+}
 
 export interface User {
   id: number;
@@ -9,5 +32,13 @@ export interface User {
   email: string;
   role: UserRole;
   status: UserStatus;
+  // false until the emailed link is opened; accounts from before verification existed leave it unset
+  emailVerified?: boolean;
+  // true once the account has confirmed an authenticator app; admin pages require it
+  mfaEnabled?: boolean;
+  // Granted access rules; backends that do not send them fall back to the defaults for the role
+  permissions?: PermissionKey[];
+  // Set while an admin is viewing the shop as this user; the session is short-lived and read-only
+  impersonator?: { id: number; username: string };
   orders?: Order[]; // Orders load lazily on demand
 }
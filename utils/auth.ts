@@ -1,7 +1,19 @@
-const TOKEN_KEY = 'auth_token';
-const ROLE_KEY = 'auth_role';
+import { config } from '../lib/config';
+import type { SessionResponse } from '../types/api';
+import type { User } from '../types/user';
+import { broadcastAuthChange } from './authChannel';
+import { isPermissionKey, parsePermissions } from './permissions';
+
+// Non-sensitive copy of the signed-in identity so the UI can paint before /session answers
+const USER_KEY = 'auth_user';
 const EXPIRES_KEY = 'auth_expires_at';
 
+// httpOnly cookies set by the pages/api session routes; proxy.ts reads the access token to guard pages
+export const AUTH_COOKIE = 'auth_token';
+export const REFRESH_COOKIE = 'auth_refresh_token';
+// The admin's own refresh token, parked while they view the shop as a customer
+export const IMPERSONATOR_COOKIE = 'auth_impersonator_refresh_token';
+
 const isBrowser = () => typeof window !== 'undefined';
 
 const normalizeRole = (role: string) => role.replace(/^ROLE_/i, '').toUpperCase();
@@ -21,11 +33,10 @@ export const decodeJwtPayload = (token: string): Record<string, unknown> | null
   }
 };
 
-export const isTokenExpired = (token: string): boolean => {
+const readExpiry = (token: string): number | null => {
   const payload = decodeJwtPayload(token);
-  if (!payload) return true;
+  if (!payload) return null;
 
-  const now = Math.floor(Date.now() / 1000);
   const expRaw = payload.exp;
   const exp =
     typeof expRaw === 'number'
@@ -33,31 +44,53 @@ export const isTokenExpired = (token: string): boolean => {
       : typeof expRaw === 'string'
         ? Number(expRaw)
         : Number.NaN;
-  if (!Number.isFinite(exp)) return true;
-  return exp < now;
+  return Number.isFinite(exp) ? exp : null;
+};
+
+export const isTokenExpired = (token: string): boolean => {
+  const exp = readExpiry(token);
+  if (exp === null) return true;
+  return exp < Math.floor(Date.now() / 1000);
+};
+
+/**
+ * The token's `exp` claim as an ISO timestamp, or null when it has none
+ */
+export const getTokenExpiry = (token: string) => {
+  const exp = readExpiry(token);
+  return exp === null ? null : new Date(exp * 1000).toISOString();
+};
+
+// Spring puts roles and permissions together in authorities, so both are read from the same list
+const splitAuthorities = (value: unknown) => {
+  const entries = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? [value] : [];
+  return {
+    roles: entries.filter((entry) => !isPermissionKey(entry)),
+    permissions: parsePermissions(value),
+  };
 };
 
 export const getRoleFromToken = (token: string): 'USER' | 'ADMIN' | null => {
   const payload = decodeJwtPayload(token);
   if (!payload) return null;
 
-  const role = payload.role ?? payload.roles ?? payload.authorities;
-
-  let roleStr: string | undefined;
-  if (Array.isArray(role) && role.length > 0) {
-    roleStr = String(role[0]);
-  } else if (typeof role === 'string') {
-    roleStr = role;
-  }
-
-  if (!roleStr) return 'USER';
-  return roleStr.toUpperCase().includes('ADMIN') ? 'ADMIN' : 'USER';
+  // Any entry naming ADMIN counts, wherever it sits in the list
+  const roles = [payload.role, payload.roles, payload.authorities].flatMap((claim) => splitAuthorities(claim).roles);
+  return roles.some((role) => role.toUpperCase().includes('ADMIN')) ? 'ADMIN' : 'USER';
 };
 
 export const getIdentityFromToken = (token: string) => {
   const payload = decodeJwtPayload(token);
   if (!payload) {
-    return { id: 0, username: '', email: '' };
+    return {
+      id: 0,
+      username: '',
+      email: '',
+      emailVerified: undefined,
+      mfaEnabled: undefined,
+      permissions: undefined,
+      impersonator: undefined,
+    };
   }
 
   const pickString = (value: unknown) =>
@@ -84,58 +117,140 @@ export const getIdentityFromToken = (token: string) => {
         ? Number(idRaw)
         : 0;
 
-  return { id, username, email };
+  const verifiedRaw = payload.emailVerified ?? payload.email_verified;
+  const emailVerified =
+    typeof verifiedRaw === 'boolean' ? verifiedRaw : typeof verifiedRaw === 'string' ? verifiedRaw === 'true' : undefined;
+
+  // Backends name the two-factor claim differently; an OIDC-style amr list counts too
+  const mfaRaw = payload.mfa ?? payload.mfaEnabled ?? payload.mfa_enabled;
+  const amr = Array.isArray(payload.amr) ? payload.amr : [];
+  const mfaEnabled =
+    typeof mfaRaw === 'boolean' ? mfaRaw : amr.length > 0 ? amr.some((method) => method === 'mfa' || method === 'otp') : undefined;
+
+  // Roles such as ROLE_ADMIN in authorities are read by getRoleFromToken.
+  // Authorities holding only roles say nothing about permissions, so the role defaults apply then.
+  const authorities = splitAuthorities(payload.authorities).permissions;
+  const permissions = parsePermissions(payload.permissions) ?? (authorities?.length ? authorities : undefined);
+
+  // Impersonation tokens name the admin behind them, either directly or as an RFC 8693 `act` claim
+  const act = payload.act && typeof payload.act === 'object' ? (payload.act as Record<string, unknown>) : null;
+  const impersonatorName = pickString(payload.impersonatorName) || pickString(act?.sub);
+  const impersonatorId = Number(payload.impersonatorId ?? act?.userId);
+  const impersonator = impersonatorName
+    ? { id: Number.isFinite(impersonatorId) ? impersonatorId : 0, username: impersonatorName }
+    : undefined;
+
+  return { id, username, email, emailVerified, mfaEnabled, permissions, impersonator };
+};
+
+/**
+ * Session payload for a freshly issued access token, as returned by the pages/api session routes
+ */
+export const sessionFromToken = (token: string, expiresAt: string, role?: string): SessionResponse => {
+  const identity = getIdentityFromToken(token);
+  const tokenRole = getRoleFromToken(token) ?? 'USER';
+  // Whichever comes first of the backend's expiresAt and the token's own exp claim
+  const tokenExpiry = getTokenExpiry(token);
+  const expiries = [expiresAt, tokenExpiry].filter((value): value is string => !!value && !Number.isNaN(Date.parse(value)));
+  const earliest = expiries.sort((a, b) => Date.parse(a) - Date.parse(b))[0] ?? expiresAt;
+  return {
+    user: {
+      id: identity.id,
+      username: identity.username || identity.email,
+      email: identity.email,
+      role: role ? (normalizeRole(role) === 'ADMIN' ? 'ADMIN' : 'USER') : tokenRole,
+      status: 'ACTIVE',
+      ...(identity.emailVerified !== undefined ? { emailVerified: identity.emailVerified } : {}),
+      ...(identity.mfaEnabled !== undefined ? { mfaEnabled: identity.mfaEnabled } : {}),
+      ...(identity.permissions !== undefined ? { permissions: identity.permissions } : {}),
+      ...(identity.impersonator ? { impersonator: identity.impersonator } : {}),
+    },
+    expiresAt: earliest,
+  };
+};
+
+// Same-tab counterpart of the storage event, so AuthContext hears about refreshes made by the API middleware
+const notifySessionChange = () => window.dispatchEvent(new Event('authSessionUpdated'));
+
+export const storeSession = (session: SessionResponse) => {
+  if (!isBrowser()) return;
+  localStorage.setItem(USER_KEY, JSON.stringify(session.user));
+  localStorage.setItem(EXPIRES_KEY, session.expiresAt);
+  notifySessionChange();
+  broadcastAuthChange({ type: 'session' });
 };
 
-export const storeAuthToken = (
-  token: string,
-  metadata?: { role?: string; expiresAt?: string }
-) => {
+/**
+ * Replace the cached identity after the account itself changed, keeping the session's expiry
+ */
+export const updateStoredUser = (user: User) => {
   if (!isBrowser()) return;
-  localStorage.setItem(TOKEN_KEY, token);
-  if (metadata?.role) localStorage.setItem(ROLE_KEY, normalizeRole(metadata.role));
-  if (metadata?.expiresAt) localStorage.setItem(EXPIRES_KEY, metadata.expiresAt);
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  notifySessionChange();
+  broadcastAuthChange({ type: 'session' });
 };
 
-export const getAuthToken = () => {
+export const getStoredSession = (): SessionResponse | null => {
   if (!isBrowser()) return null;
-  return localStorage.getItem(TOKEN_KEY);
+  const storedUser = localStorage.getItem(USER_KEY);
+  if (!storedUser) return null;
+  try {
+    return { user: JSON.parse(storedUser) as User, expiresAt: localStorage.getItem(EXPIRES_KEY) ?? '' };
+  } catch {
+    return null;
+  }
 };
 
-export const clearAuthToken = () => {
+export const clearStoredSession = () => {
   if (!isBrowser()) return;
-  localStorage.removeItem(TOKEN_KEY);
-  localStorage.removeItem(ROLE_KEY);
+  const wasSignedIn = localStorage.getItem(USER_KEY) !== null;
+  localStorage.removeItem(USER_KEY);
   localStorage.removeItem(EXPIRES_KEY);
+  notifySessionChange();
+  // A tab that loads signed out has nothing to announce
+  if (wasSignedIn) broadcastAuthChange({ type: 'signedOut' });
 };
 
-export const isAuthenticated = () => {
-  if (!isBrowser()) return false;
-  const token = getAuthToken();
-  if (!token) return false;
+// Storage-event fallback for browsers without BroadcastChannel; a null key means localStorage was cleared
+export const isAuthStorageKey = (key: string | null) => key === null || key === USER_KEY || key === EXPIRES_KEY;
 
-  const expiresAt = localStorage.getItem(EXPIRES_KEY);
-  if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
-    clearAuthToken();
-    return false;
-  }
-  return true;
+/**
+ * Builds the login URL that brings the user back to `returnTo` after signing in
+ */
+export const buildLoginRedirect = (returnTo?: string) => {
+  if (!returnTo || !isSafeRedirect(returnTo) || returnTo.startsWith('/login')) return '/login';
+  return `/login?redirect=${encodeURIComponent(returnTo)}`;
 };
 
-export const hasRequiredRole = (requiredRole: string) => {
-  if (!isBrowser()) return false;
-  if (!requiredRole) return true;
+// Only same-origin paths; browsers read "//host" and "/\host" as protocol-relative, so no backslashes either
+export const isSafeRedirect = (target: string) =>
+  target.startsWith('/') && !target.startsWith('//') && !target.includes('\\');
+
+/**
+ * True for a signed-in account that still has to open its verification link
+ */
+export const needsEmailVerification = (user: Pick<User, 'emailVerified'> | null) => !!user && user.emailVerified === false;
 
-  const storedRole = localStorage.getItem(ROLE_KEY);
-  if (storedRole) return normalizeRole(storedRole) === normalizeRole(requiredRole);
+/**
+ * True while an admin is viewing the shop as this user
+ */
+export const isImpersonating = (user: Pick<User, 'impersonator'> | null) => !!user?.impersonator;
 
-  const token = getAuthToken();
-  if (!token) return false;
+export const hasRequiredRole = (user: Pick<User, 'role'> | null, requiredRole?: string) => {
+  if (!requiredRole) return !!user;
+  return !!user && normalizeRole(user.role) === normalizeRole(requiredRole);
+};
 
-  const inferredRole = getRoleFromToken(token);
-  if (!inferredRole) return false;
+/**
+ * Pages guarded by `requiredRole` need a two-factor session as well; true for admin pages unless turned off in config
+ */
+export const requiresMfa = (requiredRole?: string) =>
+  config.security.requireAdminMfa && !!requiredRole && normalizeRole(requiredRole) === 'ADMIN';
 
-  const normalized = normalizeRole(inferredRole);
-  localStorage.setItem(ROLE_KEY, normalized);
-  return normalized === normalizeRole(requiredRole);
+/**
+ * Where to send someone who needs two-factor set up before they can open `returnTo`
+ */
+export const buildMfaSetupRedirect = (returnTo?: string) => {
+  if (!returnTo || !isSafeRedirect(returnTo)) return '/dashboard?setup=2fa';
+  return `/dashboard?setup=2fa&redirect=${encodeURIComponent(returnTo)}`;
 };
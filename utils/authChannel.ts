@@ -0,0 +1,34 @@
+/**
+ * Tells the other open tabs when this one signs in, renews or ends the session.
+ * Receivers re-read the cached identity from localStorage; the storage event on those keys is the fallback
+ * for browsers without BroadcastChannel.
+ */
+
+export type AuthBroadcast = { type: 'session' } | { type: 'signedOut' };
+
+const CHANNEL_NAME = 'shoplite-auth';
+
+let channel: BroadcastChannel | null | undefined;
+
+const getChannel = () => {
+  if (channel === undefined) {
+    channel = typeof window !== 'undefined' && typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  }
+  return channel;
+};
+
+export const broadcastAuthChange = (message: AuthBroadcast) => {
+  getChannel()?.postMessage(message);
+};
+
+/**
+ * Subscribe to changes made in other tabs; a tab never hears its own broadcasts
+ */
+export const subscribeToAuthChanges = (handler: (message: AuthBroadcast) => void) => {
+  const current = getChannel();
+  if (!current) return () => {};
+
+  const listener = (event: MessageEvent<AuthBroadcast>) => handler(event.data);
+  current.addEventListener('message', listener);
+  return () => current.removeEventListener('message', listener);
+};
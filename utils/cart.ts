@@ -0,0 +1,42 @@
+import type { CartChange, CartItem, Product } from '../types/product';
+import { formatCurrency } from './format';
+
+/**
+ * Swap each line's product snapshot for `live` data, capping quantities at stock.
+ * A null entry means the product is gone; lines missing from `live` were not checked and stay as they are.
+ */
+export const reconcileCartItems = (items: CartItem[], live: Map<number, Product | null>): CartItem[] =>
+  items.flatMap((item) => {
+    const product = live.get(item.product.id);
+    if (product === undefined) return [item];
+    if (product === null || product.stock <= 0) return [];
+    return [{ product, quantity: Math.min(item.quantity, product.stock) }];
+  });
+
+/**
+ * What a shopper should be told about going from `previous` to `current`
+ */
+export const diffCartItems = (previous: CartItem[], current: CartItem[]): CartChange[] =>
+  previous.flatMap((item): CartChange[] => {
+    const next = current.find((line) => line.product.id === item.product.id);
+    if (!next) return [{ kind: 'unavailable', product: item.product }];
+    const changes: CartChange[] = [];
+    if (next.product.price !== item.product.price) {
+      changes.push({ kind: 'price', product: next.product, previousPrice: item.product.price });
+    }
+    if (next.quantity < item.quantity) {
+      changes.push({ kind: 'quantity', product: next.product, previousQuantity: item.quantity, quantity: next.quantity });
+    }
+    return changes;
+  });
+
+export const describeCartChange = (change: CartChange) => {
+  switch (change.kind) {
+    case 'price':
+      return `Price changed from ${formatCurrency(change.previousPrice)} to ${formatCurrency(change.product.price)}`;
+    case 'quantity':
+      return `Only ${change.quantity} left, so your quantity went from ${change.previousQuantity} to ${change.quantity}`;
+    case 'unavailable':
+      return 'No longer available and removed from your cart';
+  }
+};
@@ -0,0 +1,84 @@
+import type { OrderRequest } from '../types/api';
+
+/**
+ * Idempotency key for the checkout in progress.
+ * Persisted so a reload or retry of the same cart sends the same key, and the server can recognise the duplicate.
+ */
+
+const CHECKOUT_ATTEMPT_KEY = 'checkout_attempt';
+
+interface CheckoutAttempt {
+  key: string;
+  // Same order request means the same attempt; any change to the cart, promo code, address or total starts a new one
+  fingerprint: string;
+}
+
+// A key must never be resent with a different body, so everything the order is placed with goes in
+const fingerprintRequest = (request: OrderRequest) =>
+  [
+    [...request.items]
+      .sort((a, b) => a.productId - b.productId)
+      .map((item) => `${item.productId}x${item.quantity}`)
+      .join(','),
+    request.promoCode ?? '',
+    request.shippingAddress ? `${request.shippingAddress.country}:${request.shippingAddress.postalCode}` : '',
+    request.expectedTotal?.toFixed(2) ?? '',
+  ].join('|');
+
+// Holds the attempt when storage is full or disabled, so retries from this page still reuse the key
+let unsavedAttempt: CheckoutAttempt | null = null;
+
+const createKey = () =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+
+const readAttempt = (): CheckoutAttempt | null => {
+  if (typeof window === 'undefined' || unsavedAttempt) {
+    return unsavedAttempt;
+  }
+  try {
+    const value = localStorage.getItem(CHECKOUT_ATTEMPT_KEY);
+    return value ? (JSON.parse(value) as CheckoutAttempt) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Key for placing `request`: reused while it is unchanged, fresh once it differs
+ */
+export const getCheckoutIdempotencyKey = (request: OrderRequest) => {
+  const fingerprint = fingerprintRequest(request);
+  const existing = readAttempt();
+  if (existing && existing.fingerprint === fingerprint) {
+    return existing.key;
+  }
+
+  const attempt: CheckoutAttempt = { key: createKey(), fingerprint };
+  if (typeof window !== 'undefined') {
+    try {
+      localStorage.setItem(CHECKOUT_ATTEMPT_KEY, JSON.stringify(attempt));
+      unsavedAttempt = null;
+    } catch {
+      // storage full or disabled; the key only survives until the page reloads
+      unsavedAttempt = attempt;
+    }
+  }
+  return attempt.key;
+};
+
+/**
+ * Forget the attempt once the server has confirmed the order
+ */
+export const clearCheckoutAttempt = () => {
+  unsavedAttempt = null;
+  if (typeof window === 'undefined') {
+    return;
+  }
+  try {
+    localStorage.removeItem(CHECKOUT_ATTEMPT_KEY);
+  } catch {
+    // storage disabled; nothing was saved there
+  }
+};
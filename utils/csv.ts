@@ -0,0 +1,28 @@
+type CsvCell = string | number | boolean | null | undefined;
+
+// Text a spreadsheet would read as a formula; user-entered values such as usernames or reasons can start this way
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Neutralizes formulas with a leading apostrophe, then quotes cells that hold a delimiter, quote or line break
+const escapeCell = (value: CsvCell) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  const cell = typeof value === 'string' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+export const toCsv = (header: string[], rows: CsvCell[][]) =>
+  [header, ...rows].map((row) => row.map(escapeCell).join(',')).join('\r\n');
+
+/**
+ * Save `csv` through the browser's download prompt
+ */
+export const downloadCsv = (filename: string, csv: string) => {
+  if (typeof window === 'undefined') return;
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight after click() can cancel the download in some browsers
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
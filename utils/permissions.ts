@@ -0,0 +1,58 @@
+import type { PermissionKey, User } from '../types/user';
+
+/**
+ * Access rules carried on the session, shared by ProtectedRoute, usePermission/<Can> and the admin screens.
+ * The backend enforces the same keys; hiding a control here is only a convenience.
+ */
+
+export const PERMISSION_LABELS: Record<PermissionKey, string> = {
+  'users.read': 'View users',
+  'users.write': 'Create and edit users',
+  'roles.manage': 'Control roles',
+  'permissions.manage': 'Control permissions',
+  'passwords.reset': 'Reset passwords',
+  'activity.view': 'View user activity',
+  'billing.view': 'View billing profile',
+  'security.manage': 'Ban and security actions',
+  'catalog.write': 'Edit products and stock',
+  'orders.read': 'View all orders',
+  'reviews.moderate': 'Moderate reviews',
+  'users.impersonate': 'View the shop as a customer',
+  'audit.read': 'View the audit log',
+  'promotions.manage': 'Manage promotions',
+  'pricing.manage': 'Edit tax and shipping rules',
+};
+
+export const PERMISSION_KEYS = Object.keys(PERMISSION_LABELS) as PermissionKey[];
+
+export const ROLE_PERMISSION_DEFAULTS: Record<User['role'], PermissionKey[]> = {
+  ADMIN: PERMISSION_KEYS,
+  USER: ['activity.view'],
+};
+
+export const isPermissionKey = (value: unknown): value is PermissionKey =>
+  typeof value === 'string' && Object.hasOwn(PERMISSION_LABELS, value);
+
+/**
+ * Known keys from a token claim or API field, or undefined when it is not a list at all
+ */
+export const parsePermissions = (value: unknown): PermissionKey[] | undefined =>
+  Array.isArray(value) ? value.filter(isPermissionKey) : undefined;
+
+export const getUserPermissions = (user: Pick<User, 'role' | 'permissions'> | null): PermissionKey[] => {
+  if (!user) return [];
+  return user.permissions ?? ROLE_PERMISSION_DEFAULTS[user.role] ?? [];
+};
+
+/**
+ * True when `user` holds every permission in `required`; an empty list only needs a signed-in user
+ */
+export const hasPermission = (
+  user: Pick<User, 'role' | 'permissions'> | null,
+  required?: PermissionKey | PermissionKey[]
+) => {
+  if (!user) return false;
+  const keys = required === undefined ? [] : Array.isArray(required) ? required : [required];
+  const granted = getUserPermissions(user);
+  return keys.every((key) => granted.includes(key));
+};
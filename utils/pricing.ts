@@ -0,0 +1,117 @@
+import type { CartItem } from '../types/product';
+import type { DiscountLine } from '../types/promotion';
+import type { PriceBreakdown, PricingRules, ShippingAddress, TaxRate } from '../types/pricing';
+import { formatCurrency } from './format';
+import { sumDiscounts } from './promotions';
+
+/**
+ * Turns a cart into the amount charged: discounts, then shipping, then tax on the discounted subtotal.
+ * The cart, checkout and the demo backend all price orders here, from the rules admins edit.
+ */
+
+export const SHIPPING_COUNTRIES: Record<string, string> = {
+  US: 'United States',
+  CA: 'Canada',
+  GB: 'United Kingdom',
+  DE: 'Germany',
+  FR: 'France',
+  AU: 'Australia',
+};
+
+// What the shop charged before the rules were configurable: 8% tax, $9 shipping, free from $100
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  defaultTaxRate: 8,
+  taxRates: [
+    { country: 'US', postalPrefix: null, rate: 8, label: 'Sales tax' },
+    { country: 'US', postalPrefix: '94', rate: 8.625, label: 'San Francisco sales tax' },
+    { country: 'US', postalPrefix: '10', rate: 8.875, label: 'New York City sales tax' },
+    { country: 'CA', postalPrefix: null, rate: 13, label: 'HST' },
+    { country: 'GB', postalPrefix: null, rate: 20, label: 'VAT' },
+    { country: 'DE', postalPrefix: null, rate: 19, label: 'VAT' },
+    { country: 'FR', postalPrefix: null, rate: 20, label: 'VAT' },
+  ],
+  shippingBasis: 'SUBTOTAL',
+  shippingRates: [{ upTo: null, amount: 9 }],
+  defaultItemWeight: 1,
+  freeShipping: [{ minSubtotal: 100, countries: [] }],
+  updatedAt: null,
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const normalizePostalCode = (value: string) => value.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * The tax rate for `address`, or null when none of the configured rates covers it
+ */
+export const findTaxRate = (rules: PricingRules, address: ShippingAddress | null): TaxRate | null => {
+  if (!address?.country) return null;
+  const country = address.country.toUpperCase();
+  const postalCode = normalizePostalCode(address.postalCode);
+  return rules.taxRates
+    .filter((rate) => rate.country === country)
+    .filter((rate) => !rate.postalPrefix || postalCode.startsWith(normalizePostalCode(rate.postalPrefix)))
+    .reduce<TaxRate | null>(
+      (best, rate) => (!best || (rate.postalPrefix?.length ?? 0) > (best.postalPrefix?.length ?? 0) ? rate : best),
+      null
+    );
+};
+
+const shippingMeasure = (rules: PricingRules, items: CartItem[], netSubtotal: number) =>
+  rules.shippingBasis === 'WEIGHT'
+    ? items.reduce((sum, item) => sum + (item.product.weight ?? rules.defaultItemWeight) * item.quantity, 0)
+    : netSubtotal;
+
+// Bands are read in ascending order whatever order they were saved in; past the last band its price holds
+const shippingRateFor = (rules: PricingRules, measure: number) => {
+  const bands = [...rules.shippingRates].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  const band = bands.find((rate) => rate.upTo === null || measure <= rate.upTo) ?? bands[bands.length - 1];
+  return band?.amount ?? 0;
+};
+
+export const priceOrder = (
+  rules: PricingRules,
+  items: CartItem[],
+  discounts: DiscountLine[],
+  address: ShippingAddress | null
+): PriceBreakdown => {
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.product.price * item.quantity, 0));
+  const discountTotal = sumDiscounts(discounts);
+  const netSubtotal = Math.max(0, roundMoney(subtotal - discountTotal));
+  const country = address?.country ? address.country.toUpperCase() : null;
+
+  // Country-specific rules only apply once the shopper has said where the order goes
+  const openRules = rules.freeShipping.filter((rule) => rule.countries.length === 0 || (country !== null && rule.countries.includes(country)));
+  const freeShippingThreshold = openRules.length > 0 ? Math.min(...openRules.map((rule) => rule.minSubtotal)) : null;
+  const freeShippingCode = discounts.find((line) => line.freeShipping);
+
+  let shipping = 0;
+  let freeShippingReason: string | null = null;
+  if (items.length > 0) {
+    if (freeShippingCode) {
+      freeShippingReason = `With ${freeShippingCode.code}`;
+    } else if (freeShippingThreshold !== null && netSubtotal >= freeShippingThreshold) {
+      freeShippingReason = `On orders of ${formatCurrency(freeShippingThreshold)} or more`;
+    } else {
+      shipping = roundMoney(shippingRateFor(rules, shippingMeasure(rules, items, netSubtotal)));
+    }
+  }
+
+  const taxRate = findTaxRate(rules, address);
+  const rate = taxRate?.rate ?? rules.defaultTaxRate;
+  const tax = roundMoney((netSubtotal * rate) / 100);
+
+  return {
+    subtotal,
+    discounts,
+    discountTotal,
+    shipping,
+    freeShippingReason,
+    freeShippingThreshold,
+    taxRate: rate,
+    taxLabel: taxRate?.label ?? 'Tax',
+    tax,
+    total: roundMoney(netSubtotal + shipping + tax),
+    estimated: country === null,
+  };
+};
@@ -0,0 +1,101 @@
+import type { CartItem, Product } from '../types/product';
+import type { DiscountLine, PromotionRules } from '../types/promotion';
+import { formatCurrency } from './format';
+
+/**
+ * Works out what a promo code takes off a cart.
+ * The cart previews with it and the demo backend charges with it, so the two never disagree.
+ */
+
+export type PromotionProblem = 'not_started' | 'expired' | 'min_spend' | 'not_applicable';
+
+export type PromotionResult =
+  | { discount: DiscountLine; problem: null }
+  | { discount: null; problem: PromotionProblem };
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const normalizeCategory = (value: string) => value.trim().toLowerCase();
+
+/**
+ * True when `product` is one of the promotion's products or sits in one of its categories
+ */
+export const isInPromotionScope = (rules: Pick<PromotionRules, 'productIds' | 'categories'>, product: Product) => {
+  if (rules.productIds.length === 0 && rules.categories.length === 0) return true;
+  if (rules.productIds.includes(product.id)) return true;
+  const wanted = rules.categories.map(normalizeCategory);
+  return (product.categories ?? '').split(',').some((category) => wanted.includes(normalizeCategory(category)));
+};
+
+export const describePromotion = (rules: Pick<PromotionRules, 'type' | 'value' | 'buyQuantity' | 'getQuantity'>) => {
+  switch (rules.type) {
+    case 'PERCENTAGE':
+      return `${rules.value}% off`;
+    case 'FIXED_AMOUNT':
+      return `${formatCurrency(rules.value)} off`;
+    case 'FREE_SHIPPING':
+      return 'Free shipping';
+    case 'BUY_X_GET_Y':
+      return `Buy ${rules.buyQuantity ?? 0}, get ${rules.getQuantity ?? 0} free`;
+  }
+};
+
+// Every full group of buy + get qualifying units earns `get` free, and the cheapest units are the ones given free
+const buyXGetYAmount = (rules: PromotionRules, items: CartItem[]) => {
+  const buy = rules.buyQuantity ?? 0;
+  const get = rules.getQuantity ?? 0;
+  if (buy <= 0 || get <= 0) return 0;
+  const prices = items
+    .flatMap((item) => Array.from({ length: item.quantity }, () => item.product.price))
+    .sort((a, b) => a - b);
+  const free = Math.floor(prices.length / (buy + get)) * get;
+  return prices.slice(0, free).reduce((sum, price) => sum + price, 0);
+};
+
+/**
+ * The discount `rules` give `items` at `now`, or why they give none
+ */
+export const applyPromotion = (rules: PromotionRules, items: CartItem[], now = new Date()): PromotionResult => {
+  if (rules.startsAt && Date.parse(rules.startsAt) > now.getTime()) return { discount: null, problem: 'not_started' };
+  if (rules.expiresAt && Date.parse(rules.expiresAt) <= now.getTime()) return { discount: null, problem: 'expired' };
+
+  const subtotal = items.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+  if (rules.minSpend !== null && subtotal < rules.minSpend) return { discount: null, problem: 'min_spend' };
+
+  const eligible = items.filter((item) => isInPromotionScope(rules, item.product));
+  if (eligible.length === 0) return { discount: null, problem: 'not_applicable' };
+  const eligibleSubtotal = eligible.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+
+  const label = describePromotion(rules);
+  if (rules.type === 'FREE_SHIPPING') {
+    return { discount: { code: rules.code, label, amount: 0, freeShipping: true }, problem: null };
+  }
+
+  const raw =
+    rules.type === 'PERCENTAGE'
+      ? (eligibleSubtotal * Math.min(rules.value, 100)) / 100
+      : rules.type === 'FIXED_AMOUNT'
+        ? rules.value
+        : buyXGetYAmount(rules, eligible);
+  // A discount never takes more than the qualifying items cost
+  const amount = roundMoney(Math.min(raw, eligibleSubtotal));
+  if (amount <= 0) return { discount: null, problem: 'not_applicable' };
+  return { discount: { code: rules.code, label, amount, freeShipping: false }, problem: null };
+};
+
+export const describePromotionProblem = (problem: PromotionProblem, rules: PromotionRules) => {
+  switch (problem) {
+    case 'not_started':
+      return `${rules.code} is not active yet`;
+    case 'expired':
+      return `${rules.code} has expired`;
+    case 'min_spend':
+      return `Spend ${formatCurrency(rules.minSpend ?? 0)} or more to use ${rules.code}`;
+    case 'not_applicable':
+      return rules.type === 'BUY_X_GET_Y'
+        ? `Add ${(rules.buyQuantity ?? 0) + (rules.getQuantity ?? 0)} qualifying items to use ${rules.code}`
+        : `None of the items in your cart qualify for ${rules.code}`;
+  }
+};
+
+export const sumDiscounts = (discounts: DiscountLine[]) => roundMoney(discounts.reduce((sum, line) => sum + line.amount, 0));